@@ -1,18 +1,40 @@
 import React, { useState } from 'react';
 import GameCanvas from './components/GameCanvas';
 import GameUI from './components/GameUI';
-import { GameState, LevelData } from './types';
+import { BossPoiseMeter, GameState, LevelData, ManaMeter, SpellSlotHud, StaffStance, StaminaMeter, TransformMeter } from './types';
 import { generateLevelLore } from './services/geminiService';
+import { downloadReplay, readReplayFile } from './services/replayFiles';
+import { Replay } from './game/replay';
+import { GOURD_CHARGES, PLAYER_MAX_MANA } from './game/constants';
 
 const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>(GameState.MENU);
   const [levelData, setLevelData] = useState<LevelData | null>(null);
+  const [runId, setRunId] = useState(0); // Each start/restart builds a fresh fight
   
   // UI State
   const [playerHealth, setPlayerHealth] = useState(100);
   const [bossHealth, setBossHealth] = useState(500);
-  const [stamina, setStamina] = useState(100);
+  const [bossMaxHealth, setBossMaxHealth] = useState(500);
+  const [bossBarColor, setBossBarColor] = useState('#581c87');
+  const [bossPoise, setBossPoise] = useState<BossPoiseMeter>({ poise: 0, max: 100, staggered: false });
+  const [stamina, setStamina] = useState<StaminaMeter>({ stamina: 100, max: 100, exhausted: false });
+  const [focus, setFocus] = useState(0);
+  const [gourdCharges, setGourdCharges] = useState(GOURD_CHARGES);
+  const [spellSlots, setSpellSlots] = useState<SpellSlotHud[]>([]);
+  const [mana, setMana] = useState<ManaMeter>({ mana: PLAYER_MAX_MANA, max: PLAYER_MAX_MANA });
+  const [stance, setStance] = useState<StaffStance>('smash');
+  const [transform, setTransform] = useState<TransformMeter>({ name: null, gauge: 0, max: 0 });
+  const [manaFailures, setManaFailures] = useState(0); // Bumped on every fizzled cast to replay the flash
   const [score, setScore] = useState(0);
+  const [will, setWill] = useState(0);
+
+  // Accessibility
+  const [loudTelegraphCue, setLoudTelegraphCue] = useState(false);
+
+  // Replay State
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
 
   const handleStartGame = async () => {
     setGameState(GameState.LOADING);
@@ -21,15 +43,55 @@ const App: React.FC = () => {
     const data = await generateLevelLore();
     setLevelData(data);
     
+    setRunId(id => id + 1);
     setGameState(GameState.PLAYING);
   };
 
   const handleRestart = () => {
-    setGameState(GameState.LOADING);
-    // Small timeout to simulate reset
-    setTimeout(() => {
-        setGameState(GameState.PLAYING);
-    }, 500);
+    // GameCanvas rebuilds the world (and drops its timers) whenever a new run starts
+    setRunId(id => id + 1);
+    setGameState(GameState.PLAYING);
+  };
+
+  const handleResume = () => {
+    setGameState(GameState.PLAYING);
+  };
+
+  const handleQuit = () => {
+    setGameState(GameState.MENU);
+  };
+
+  const handleReplayRecorded = (recorded: Replay) => {
+    setReplay(recorded);
+    setReplayError(null);
+  };
+
+  const handleWatchReplay = () => {
+    if (replay) setGameState(GameState.REPLAY);
+  };
+
+  const handleExitReplay = () => {
+    setGameState(replay?.outcome ?? GameState.GAME_OVER);
+  };
+
+  const handleExportReplay = () => {
+    if (!replay) return;
+    try {
+      downloadReplay(replay);
+    } catch (error) {
+      setReplayError(error instanceof Error ? error.message : "Could not export replay");
+    }
+  };
+
+  const handleImportReplay = async (file: File) => {
+    try {
+      const imported = await readReplayFile(file);
+      setReplay(imported);
+      setReplayError(null);
+      setGameState(GameState.REPLAY);
+    } catch (error) {
+      setReplayError(error instanceof Error ? error.message : "Could not read replay");
+    }
   };
 
   return (
@@ -42,10 +104,27 @@ const App: React.FC = () => {
         <GameCanvas 
           gameState={gameState}
           setGameState={setGameState}
+          runId={runId}
           setPlayerHealth={setPlayerHealth}
           setBossHealth={setBossHealth}
+          setBossMaxHealth={setBossMaxHealth}
+          setBossBarColor={setBossBarColor}
+          setBossPoise={setBossPoise}
+          setFocus={setFocus}
+          setGourdCharges={setGourdCharges}
+          setSpellSlots={setSpellSlots}
+          setMana={setMana}
+          setTransform={setTransform}
+          setStance={setStance}
+          onSpellFailed={() => setManaFailures(n => n + 1)}
           setStamina={setStamina}
           setScore={setScore}
+          setWill={setWill}
+          chapterId={levelData?.chapterId ?? null}
+          loudTelegraphCue={loudTelegraphCue}
+          replay={replay}
+          onReplayRecorded={handleReplayRecorded}
+          onExitReplay={handleExitReplay}
         />
 
         <GameUI 
@@ -53,12 +132,32 @@ const App: React.FC = () => {
           playerHealth={playerHealth}
           playerMaxHealth={100}
           bossHealth={bossHealth}
-          bossMaxHealth={500}
+          bossMaxHealth={bossMaxHealth}
+          bossBarColor={bossBarColor}
+          bossPoise={bossPoise}
           stamina={stamina}
+          focus={focus}
+          gourdCharges={gourdCharges}
+          gourdMaxCharges={GOURD_CHARGES}
+          spellSlots={spellSlots}
+          mana={mana}
+          transform={transform}
+          stance={stance}
+          manaFailures={manaFailures}
           levelData={levelData}
           score={score}
+          will={will}
+          loudTelegraphCue={loudTelegraphCue}
+          onToggleLoudTelegraphCue={() => setLoudTelegraphCue(on => !on)}
           onStart={handleStartGame}
           onRestart={handleRestart}
+          onResume={handleResume}
+          onQuit={handleQuit}
+          hasReplay={replay !== null}
+          replayError={replayError}
+          onWatchReplay={handleWatchReplay}
+          onExportReplay={handleExportReplay}
+          onImportReplay={handleImportReplay}
         />
       </div>
     </div>
@@ -1,84 +1,131 @@
-
-import React, { useRef, useEffect, useCallback, useState } from 'react';
-import { GameState, Entity, Particle } from '../types';
-
-// --- Game Constants ---
-const GRAVITY = 0.6;
-const FRICTION = 0.80;
-const MOVE_SPEED = 1.2;
-const MAX_SPEED = 5;
-const JUMP_FORCE = -13;
-const GROUND_Y = 400;
-
-// Attack Constants are now largely dynamic via Debug Params
-// Keeping defaults for reference or fallback
-const AIR_ATTACK_DAMAGE = 8; 
-
-const DODGE_SPEED = 18; 
-const DODGE_COOLDOWN = 40;
-const DODGE_STAMINA_COST = 20;
-
-const BOSS_DAMAGE = 15;
-const BOSS_KOWTOW_DAMAGE = 25; 
-const CHARGE_THRESHOLD = 20; 
-const COMBO_WINDOW_FRAMES = 50; 
-
-const IMMOBILIZE_BREAK_THRESHOLD = 80; 
-
-const SETSUGEKKA_CHARGE_TIME = 60; // 1 second @ 60fps
-const SETSU_DAMAGE = 20;
-const GETSU_DAMAGE = 35;
-const KA_DAMAGE = 60;
+import React, { useRef, useEffect, useCallback, useMemo, useState } from 'react';
+import { ActiveTelegraph, GameState, BossDecision, BossPoiseMeter, BoxType, Entity, ManaMeter, Projectile, ProjectileDefinition, ProjectileRender, SoundType, SpellSlotHud, StaffStance, StaminaMeter, TransformationDefinition, TransformMeter, WorldState } from '../types';
+import { ARENA_WIDTH, GROUND_Y, SETSUGEKKA_CHARGE_TIME, LOGICAL_WIDTH, LOGICAL_HEIGHT, FIXED_TIME_STEP, GOURD_HEAL_START, GOURD_HEAL_TICKS } from '../game/constants';
+import { lerp, easeOutQuad, easeInOutQuad, C4_START_ANGLE, C4_END_ANGLE, getCombo4AngleFromT } from '../game/math';
+import { DEFAULT_DEBUG_PARAMS, DebugParams } from '../game/debugParams';
+import { readInput, decodeInput, encodeInput } from '../game/input';
+import { createWorld, getBossTelegraph, getLockTarget, getPillarPhase, resetHealth, stepWorld } from '../game/simulation';
+import { getFrameBoxes, getHeavyRange, getThrustRange } from '../game/hitboxes';
+import { MoveFrameData, measureFrameData } from '../game/frameData';
+import { DEBUG_SKILL_GROUPS, DebugPreset, applyPreset, createPreset, diffFromDefaults, getSkillGroup, parsePreset, resetSkillParams } from '../game/debugPresets';
+import { copyPresetToClipboard, downloadPreset, loadPresets, readPresetFile, savePresets } from '../services/presetStorage';
+import { readBossFile } from '../services/bossFiles';
+import { randomSeed } from '../game/rng';
+import { Replay, createReplay, recordAction, recordParamChange, applyActions, applyParamChanges } from '../game/replay';
+import { getSpellDefinition, getSpellSlots } from '../game/spells';
+import { DEFAULT_BOSS_ID, getBossDefinition, getBossIds, getBossMove, getMovePhase, getPhaseBarColor, getPhasePalette, registerBossDefinition } from '../game/bosses';
+import { getEnemyDefinition } from '../game/enemies';
+import { getTransformation, getTransformMove } from '../game/transformations';
+import { getProjectileDefinition } from '../game/projectiles';
+
+const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+const DEBUG_TIME_SCALES = [1, 0.5, 0.25];
+const IS_DEBUG_BUILD = !!process.env.DEBUG_BUILD; // Dev server builds only (see vite.config.ts)
+const AI_LOG_SIZE = 8;
+const FRAME_DATA_DEBOUNCE_MS = 250; // Quiet time after the last tuning change before frame data is re-measured
 
 // Pixel Art Resolution (Physics is 800x450, Canvas is 480x270)
-const LOGICAL_WIDTH = 800;
-const LOGICAL_HEIGHT = 450;
 const CANVAS_WIDTH = 480;
 const CANVAS_HEIGHT = 270;
 const SCALE_FACTOR = CANVAS_WIDTH / LOGICAL_WIDTH; // 0.6
 
-// --- Math Helpers (Hoisted for shared usage between Update and Draw) ---
-const lerp = (start: number, end: number, t: number) => start * (1 - t) + end * t;
-const easeOutQuad = (t: number) => t * (2 - t);
-const easeInOutQuad = (t: number) => t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t;
-const easeInCubic = (t: number) => t * t * t;
-const easeOutBack = (x: number): number => {
-    const c1 = 1.70158;
-    const c3 = c1 + 1;
-    return 1 + c3 * Math.pow(x - 1, 3) + c1 * Math.pow(x - 1, 2);
+// Frame data timeline colours, matching the hitbox overlay
+const FRAME_PHASE_COLORS: Record<MoveFrameData['timeline'][number], string> = {
+  startup: '#3f3f46',
+  active: '#ef4444',
+  recovery: '#1d4ed8'
 };
 
-// Combo 4 Configuration
-const C4_START_ANGLE = -2.5;
-const C4_END_ANGLE = 1.8;
+// Debug overlay colour for each collision box type
+const BOX_COLORS: Record<BoxType, string> = {
+  hurt: '#22c55e',
+  hit: '#ef4444',
+  area: '#f97316',
+  projectile: '#a855f7'
+};
 
-// Shared logic to get current staff angle based on Continuous Time (t)
-const getCombo4AngleFromT = (t: number) => {
-    // Active swing is frames 5 to 10
-    if (t <= 5) return C4_START_ANGLE; 
-    if (t >= 10) return C4_END_ANGLE; 
-    
-    const progress = (t - 5) / 5; 
-    const ease = easeInCubic(progress); 
-    return lerp(C4_START_ANGLE, C4_END_ANGLE, ease);
+// Projectiles are drawn around their centre, pointing along their velocity
+const PROJECTILE_RENDERERS: Record<ProjectileRender, (ctx: CanvasRenderingContext2D, p: Projectile, def: ProjectileDefinition, tick: number) => void> = {
+  arrow: (ctx, p, def) => {
+    ctx.rotate(Math.atan2(p.vy, p.vx));
+    ctx.fillStyle = def.color;
+    ctx.fillRect(-def.width / 2, -1, def.width, 2);
+    ctx.fillStyle = '#e5e7eb';
+    ctx.fillRect(def.width / 2 - 4, -def.height / 2, 4, def.height);
+  },
+  fireball: (ctx, p, def, tick) => {
+    const flicker = 1 + Math.sin(tick * 0.5 + p.x) * 0.1;
+    ctx.shadowColor = def.color;
+    ctx.shadowBlur = 20;
+    ctx.fillStyle = def.color;
+    ctx.beginPath();
+    ctx.arc(0, 0, (def.width / 2) * flicker, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = '#e9d5ff';
+    ctx.beginPath();
+    ctx.arc(0, 0, def.width / 5, 0, Math.PI * 2);
+    ctx.fill();
+  },
+  staff: (ctx, p, def) => {
+    ctx.rotate(p.age * 0.6 * (p.vx < 0 ? -1 : 1));
+    ctx.fillStyle = def.color;
+    ctx.fillRect(-def.width / 2, -3, def.width, 6);
+    ctx.fillStyle = '#fbbf24';
+    ctx.fillRect(-def.width / 2, -4, 6, 8);
+    ctx.fillRect(def.width / 2 - 6, -4, 6, 8);
+  }
 };
 
 interface GameCanvasProps {
   gameState: GameState;
   setGameState: (state: GameState) => void;
+  runId: number; // Bumped on every start/restart; resuming from PAUSED keeps the current fight
   setPlayerHealth: (h: number) => void;
   setBossHealth: (h: number) => void;
-  setStamina: React.Dispatch<React.SetStateAction<number>>;
+  setBossMaxHealth: (h: number) => void;
+  setBossBarColor: (color: string) => void;
+  setBossPoise: (poise: BossPoiseMeter) => void;
+  setFocus: (focus: number) => void;
+  setGourdCharges: (charges: number) => void;
+  setSpellSlots: (slots: SpellSlotHud[]) => void;
+  setMana: (mana: ManaMeter) => void;
+  setTransform: (transform: TransformMeter) => void;
+  setStance: (stance: StaffStance) => void;
+  onSpellFailed: () => void; // A cast fizzled for lack of mana
+  setStamina: (stamina: StaminaMeter) => void;
   setScore: (s: React.SetStateAction<number>) => void;
+  setWill: (will: number) => void;
+  chapterId: string | null; // Layout of minor enemy sections fought before the boss
+  loudTelegraphCue: boolean; // Accessibility: play boss attack warnings as a long, loud alarm
+  replay: Replay | null; // Played back while gameState is REPLAY
+  onReplayRecorded: (replay: Replay) => void;
+  onExitReplay: () => void;
 }
 
 const GameCanvas: React.FC<GameCanvasProps> = ({
   gameState,
   setGameState,
+  runId,
   setPlayerHealth,
   setBossHealth,
+  setBossMaxHealth,
+  setBossBarColor,
+  setBossPoise,
+  setFocus,
+  setGourdCharges,
+  setSpellSlots,
+  setMana,
+  setTransform,
+  setStance,
+  onSpellFailed,
   setStamina,
-  setScore
+  setScore,
+  setWill,
+  chapterId,
+  loudTelegraphCue,
+  replay,
+  onReplayRecorded,
+  onExitReplay
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const reqRef = useRef<number>(0);
@@ -87,180 +134,148 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
   // Time Step Refs
   const lastTimeRef = useRef<number>(0);
   const accumulatorRef = useRef<number>(0);
+  const debugTimeScaleRef = useRef(1); // Slow motion for debugging live fights
+  const [debugTimeScale, setDebugTimeScale] = useState(1);
   
   // BGM Refs
   const bgmRunningRef = useRef<boolean>(false);
   const nextNoteTimeRef = useRef<number>(0);
   const schedulerTimerRef = useRef<number>(0);
   const currentTickRef = useRef<number>(0);
+  const loudTelegraphRef = useRef(loudTelegraphCue);
+  loudTelegraphRef.current = loudTelegraphCue;
 
   // --- DEBUG PARAMS ---
-  const debugParamsRef = useRef({
-      showGrid: true, // Default Grid ON
-
-      // Combo 1 Logic
-      c1Damage: 12,
-      c1Stun: 4,
-      c1Shake: 2,
-      c1Interrupt: 0, // 0 = No, 1 = Yes
-
-      // Combo 2 Logic
-      c2Damage: 18,
-      c2Stun: 6,
-      c2Shake: 4,
-      c2Interrupt: 0,
-
-      // Attack 4 (Fan) Visuals
-      trailDecay: 0.2,
-      trailStep: 0.2,
-      fanFade: 0.2,
-      fanBrightness: 1.0, // Glow Intensity
-      fanDensity: 0.3,    // Concentration (Backing opacity)
-      fanOpacity: 0.1,    // Master Opacity
-      
-      // Attack 4 (Fan) Logic
-      c4Length: 150,
-      c4Damage: 45,
-      c4Knockback: 8,
-      c4Stun: 12,
-      c4Shake: 20,
-      c4SlideSpeed: 8, // Initial Burst Speed
-      c4SlideFriction: 0.85, // How much it slows down per frame
-      c4Interrupt: 1,
-      
-      // Heavy Attack (Charge) Visuals
-      heavyWidth: 12,
-      heavyGlow: 1.0,
-      heavyOpacity: 1.0,
-
-      // Heavy Attack (Charge) Logic
-      heavyDamage: 60,
-      heavyRange: 300,
-      heavyKnockback: 12,
-      heavyStun: 15,
-      heavyShake: 15, // Default matches Stun
-      heavyInterrupt: 1,
-
-      // Attack 3 (Spin Cross) Visuals
-      c3Radius: 100,      
-      c3Width: 12,        
-      c3Glow: 1.5,        
-      c3Density: 0.4,     
-      c3Opacity: 0.3,     
-      
-      // Attack 3 Compensation / Blur
-      c3BlurSteps: 1,     
-      c3BlurFade: 0.1,    
-
-      // Attack 3 Background (Disc)
-      c3BgBrightness: 0.1, 
-      c3BgOpacity: 0,      
-
-      // Attack 3 (Spin Cross) Logic
-      c3Rotations: 2,     
-      c3Speed: 50,        
-      c3ExtraHits: 5, 
-      c3TotalDamage: 45,  
-      c3Stun: 3,
-      c3Interrupt: 0,
-      c3JumpForce: -5.5, 
-      c3GravityScale: 0.25, 
-
-      // Tech Attack (K) - Cloud Strike Logic
-      kDamage: 35,
-      kStun: 20,
-      kRadius: 60,
-      kJumpForce: -16,
-      kPlungeSpeed: 25,
-      kColor: '#0ea5e9', // Sky Blue
-
-      // Setsugekka (N)
-      setsuDist: 7, // Snow displacement (Short & Sharp)
-      setsuChargeFriction: 0.96, // Snow Charge Slide Friction (Increased to allow more slide)
-      setsuDamage: 20,
-      getsuDamage: 35,
-      getsuJumpHeight: -10,
-      getsuSize: 1.4, // Scale of the moon
-      getsuFade: 25, // Extended for Atmosphere Window (Previously 12)
-      getsuHits: 2, // New: Number of hits during Moon phase
-      getsuStun: 0, // New: Hitstop duration (0 for smooth flow)
-      kaDamage: 60,
-      kaStun: 2, // Flower Hit Stop
-      kaPlungeSpeed: 20,
-      kaParticleCount: 8, // Per frame burst during plunge
-      kaTurbulence: 4,
-      kaSlideForce: 15,
-      kaSlideFriction: 0.90, // Increased slightly to allow longer glide
-
-      bossBehavior: 'normal', // normal, idle, kowtow, patrol, jump_loop
-      bossPatrolRange: 200,
-      bossPatrolSpeed: 1.5,
-
-      infiniteHealth: false,
-      infinitePlayerHealth: false
-  });
+  const debugParamsRef = useRef<DebugParams>({ ...DEFAULT_DEBUG_PARAMS });
   const [showDebug, setShowDebug] = useState(false);
   const [debugValues, setDebugValues] = useState(debugParamsRef.current);
 
   // Debug UI State
-  const [debugTab, setDebugTab] = useState<'general' | 'skills'>('general');
+  const [debugTab, setDebugTab] = useState<'general' | 'skills' | 'ai' | 'presets'>('general');
   const [selectedEntity, setSelectedEntity] = useState<'player' | 'boss'>('player');
   const [selectedSkill, setSelectedSkill] = useState<string>('atk3');
+  const [bossDecisions, setBossDecisions] = useState<BossDecision[]>([]); // Newest first
+
+  // Re-measured from the simulation while a player skill is open. Measuring runs whole
+  // fights, so it waits for a slider drag to settle instead of re-running on every value
+  const [frameDataParams, setFrameDataParams] = useState(debugValues);
+  useEffect(() => {
+      const timer = window.setTimeout(() => setFrameDataParams(debugValues), FRAME_DATA_DEBOUNCE_MS);
+      return () => window.clearTimeout(timer);
+  }, [debugValues]);
+
+  const frameData = useMemo(
+      () => showDebug && debugTab === 'skills' && selectedEntity === 'player' ? measureFrameData(frameDataParams, selectedSkill) : [],
+      [showDebug, debugTab, selectedEntity, selectedSkill, frameDataParams]
+  );
 
-  const updateDebug = (key: keyof typeof debugParamsRef.current, val: any) => {
+  const updateDebug = (key: keyof DebugParams, val: any) => {
       debugParamsRef.current = { ...debugParamsRef.current, [key]: val };
       setDebugValues({...debugParamsRef.current});
+      // Tuning changes alter the simulation, so the replay has to know about them
+      if (recordingRef.current) recordParamChange(recordingRef.current, worldRef.current.tick, key, val);
   };
 
-  // Mutable Game State
-  const playerRef = useRef<Entity>({
-    id: 'player',
-    pos: { x: 100, y: 0 },
-    width: 30,
-    height: 50,
-    vx: 0,
-    vy: 0,
-    color: '#fbbf24', 
-    health: 100,
-    maxHealth: 100,
-    isDead: false,
-    facingRight: true,
-    type: 'player',
-    state: 'idle',
-    attackCooldown: 0,
-    dodgeCooldown: 0,
-    chargeTimer: 0,
-    comboCount: 0,
-    comboWindow: 0,
-    animFrame: 0,
-    animTimer: 0,
-    hasHitInAir: false,
-    hasDealtDamage: false,
-    hitStop: 0,
-    flashTimer: 0,
-    spellCooldown: 0,
-    techCooldown: 0,
-    sheatheTimer: 0
-  });
-
-  const bossRef = useRef<Entity | null>(null);
-  const particlesRef = useRef<Particle[]>([]);
-  
-  // NEW: Store real-time trails for Combo 4
-  // Added 'length' to support dynamic staff growth visualization
-  const combo4TrailsRef = useRef<{ angle: number; life: number; length?: number }[]>([]);
-  // Track TIME instead of angle for accurate physics-based interpolation
-  const prevCombo4TimeRef = useRef<number | null>(null);
-  
-  // TRACKER for Combo 3 multi-hits
-  const c3HitsRef = useRef<number>(0);
+  // Swaps in a whole set of tuning values (preset, reset), recording each change for the replay
+  const applyDebugParams = (next: DebugParams) => {
+      for (const key of Object.keys(next) as (keyof DebugParams)[]) {
+          if (recordingRef.current && next[key] !== debugParamsRef.current[key]) {
+              recordParamChange(recordingRef.current, worldRef.current.tick, key, next[key]);
+          }
+      }
+      debugParamsRef.current = { ...next };
+      setDebugValues({ ...next });
+  };
+
+  // --- Debug Presets (saved to localStorage, shared as JSON) ---
+  const [presets, setPresets] = useState<DebugPreset[]>(loadPresets);
+  const [presetName, setPresetName] = useState('');
+  const [presetText, setPresetText] = useState(''); // Pasted preset JSON
+  const [presetError, setPresetError] = useState<string | null>(null);
+  const presetFileRef = useRef<HTMLInputElement>(null);
+
+  const storePresets = (next: DebugPreset[]) => {
+      setPresets(next);
+      savePresets(next);
+  };
+
+  // A preset with the same name is replaced
+  const addPreset = (preset: DebugPreset) => storePresets([...presets.filter(p => p.name !== preset.name), preset]);
+
+  const saveCurrentPreset = () => {
+      const name = presetName.trim();
+      if (!name) return;
+      addPreset(createPreset(name, debugParamsRef.current));
+      setPresetName('');
+  };
 
-  // TRACKER for Setsugekka Moon Position (Static Visual)
-  const setsuMoonSnapshotRef = useRef<{x: number, y: number, facingRight: boolean} | null>(null);
+  const importPreset = (preset: DebugPreset) => {
+      addPreset(preset);
+      applyDebugParams(applyPreset(preset));
+      setPresetError(null);
+  };
+
+  const importPresetText = () => {
+      try {
+          importPreset(parsePreset(presetText));
+          setPresetText('');
+      } catch (error) {
+          setPresetError(error instanceof Error ? error.message : "Could not read preset");
+      }
+  };
+
+  const importPresetFile = async (file: File) => {
+      try {
+          importPreset(await readPresetFile(file));
+      } catch (error) {
+          setPresetError(error instanceof Error ? error.message : "Could not read preset");
+      }
+  };
+
+  const copyPreset = (preset: DebugPreset) => {
+      copyPresetToClipboard(preset).catch(() => setPresetError("Clipboard is not available"));
+  };
+
+  // --- Debug Boss Select (built-in and imported JSON definitions) ---
+  const bossIdRef = useRef(DEFAULT_BOSS_ID);
+  const [bossId, setBossId] = useState(DEFAULT_BOSS_ID);
+  const [bossError, setBossError] = useState<string | null>(null);
+  const bossFileRef = useRef<HTMLInputElement>(null);
+
+  // Switching boss restarts the fight against it
+  const fightBoss = (id: string) => {
+      bossIdRef.current = id;
+      setBossId(id);
+      initGame();
+  };
+
+  const importBossFile = async (file: File) => {
+      try {
+          const def = await readBossFile(file);
+          registerBossDefinition(def);
+          setBossError(null);
+          fightBoss(def.id);
+      } catch (error) {
+          setBossError(error instanceof Error ? error.message : "Could not read boss definition");
+      }
+  };
+
+  // Mutable Game State (owned by the headless simulation, see game/simulation.ts)
+  const worldRef = useRef<WorldState>(createWorld(randomSeed()));
 
   const keysRef = useRef<{ [key: string]: boolean }>({});
-  const cameraXRef = useRef(0);
-  const shakeRef = useRef(0);
+
+  // --- Replay State ---
+  const recordingRef = useRef<Replay | null>(null); // Fight being recorded while PLAYING
+  const liveParamsRef = useRef<DebugParams | null>(null); // Player's own tuning, restored after playback
+  const startedRunRef = useRef<number | null>(null); // runId the current world was built for
+  const playbackRef = useRef({ paused: false, speed: 1 });
+  const [playback, setPlayback] = useState({ paused: false, speed: 1, tick: 0 });
+
+  const updatePlayback = (changes: Partial<{ paused: boolean; speed: number }>) => {
+      playbackRef.current = { ...playbackRef.current, ...changes };
+      setPlayback({ ...playbackRef.current, tick: worldRef.current.tick });
+  };
 
   // --- FFXIV Style 8-Bit Audio System ---
   
@@ -439,7 +454,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
 
   // --- SFX System ---
   const playSound = useCallback((
-      type: 'jump' | 'dash' | 'attack_light' | 'attack_heavy' | 'hit' | 'block' | 'charge' | 'spell' | 'hit_heavy' | 'break_spell' | 'counter' | 'counter_hit' | 'sheathe_charge' | 'setsu_slash' | 'getsu_slash' | 'ka_slash'
+      type: SoundType
   ) => {
       if (!audioCtxRef.current) return;
       const ctx = audioCtxRef.current;
@@ -616,6 +631,159 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
              dustG.connect(ctx.destination);
              dustSrc.start(t);
              break;
+          case 'cloud_step':
+              // Soft airy whoosh fading out
+              playNoise(ctx, t, 0.5, 0.15);
+              osc.type = 'sine';
+              osc.frequency.setValueAtTime(600, t);
+              osc.frequency.exponentialRampToValueAtTime(1400, t + 0.4);
+              gain.gain.setValueAtTime(0.08, t);
+              gain.gain.exponentialRampToValueAtTime(0.001, t + 0.5);
+              osc.start(t);
+              osc.stop(t + 0.5);
+              break;
+          case 'spell_fail':
+              // Dull fizzle
+              osc.type = 'square';
+              osc.frequency.setValueAtTime(180, t);
+              osc.frequency.exponentialRampToValueAtTime(90, t + 0.15);
+              gain.gain.setValueAtTime(0.06, t);
+              gain.gain.exponentialRampToValueAtTime(0.001, t + 0.2);
+              osc.start(t);
+              osc.stop(t + 0.2);
+              break;
+          case 'fire_ring':
+              // Roaring ignition
+              playNoise(ctx, t, 0.8, 0.3);
+              osc.type = 'sawtooth';
+              osc.frequency.setValueAtTime(80, t);
+              osc.frequency.exponentialRampToValueAtTime(200, t + 0.3);
+              gain.gain.setValueAtTime(0.2, t);
+              gain.gain.exponentialRampToValueAtTime(0.001, t + 0.8);
+              osc.start(t);
+              osc.stop(t + 0.8);
+              break;
+          case 'stance':
+              // Staff twirl: quick rising swish
+              playNoise(ctx, t, 0.15, 0.1);
+              osc.type = 'triangle';
+              osc.frequency.setValueAtTime(300, t);
+              osc.frequency.exponentialRampToValueAtTime(700, t + 0.12);
+              gain.gain.setValueAtTime(0.08, t);
+              gain.gain.exponentialRampToValueAtTime(0.001, t + 0.15);
+              osc.start(t);
+              osc.stop(t + 0.15);
+              break;
+          case 'enemy_death':
+              // Short crunch with a falling tone
+              playNoise(ctx, t, 0.25, 0.15);
+              osc.type = 'sawtooth';
+              osc.frequency.setValueAtTime(220, t);
+              osc.frequency.exponentialRampToValueAtTime(50, t + 0.25);
+              gain.gain.setValueAtTime(0.1, t);
+              gain.gain.exponentialRampToValueAtTime(0.001, t + 0.25);
+              osc.start(t);
+              osc.stop(t + 0.25);
+              break;
+          case 'will':
+              // Soft chime as an orb is banked
+              osc.type = 'sine';
+              osc.frequency.setValueAtTime(1046, t);
+              osc.frequency.exponentialRampToValueAtTime(1568, t + 0.08);
+              gain.gain.setValueAtTime(0.04, t);
+              gain.gain.exponentialRampToValueAtTime(0.001, t + 0.15);
+              osc.start(t);
+              osc.stop(t + 0.15);
+              break;
+          case 'throw':
+              // Airy whoosh for anything leaving a hand
+              playNoise(ctx, t, 0.18, 0.12);
+              osc.type = 'sine';
+              osc.frequency.setValueAtTime(500, t);
+              osc.frequency.exponentialRampToValueAtTime(200, t + 0.15);
+              gain.gain.setValueAtTime(0.05, t);
+              gain.gain.exponentialRampToValueAtTime(0.001, t + 0.18);
+              osc.start(t);
+              osc.stop(t + 0.18);
+              break;
+          case 'telegraph':
+              if (loudTelegraphRef.current) {
+                  // Accessibility cue: three loud alarm pulses that can't be missed
+                  osc.type = 'square';
+                  osc.frequency.setValueAtTime(880, t);
+                  osc.frequency.setValueAtTime(660, t + 0.1);
+                  osc.frequency.setValueAtTime(880, t + 0.2);
+                  gain.gain.setValueAtTime(0.25, t);
+                  gain.gain.setValueAtTime(0.25, t + 0.28);
+                  gain.gain.exponentialRampToValueAtTime(0.001, t + 0.35);
+                  osc.start(t);
+                  osc.stop(t + 0.35);
+              } else {
+                  // Faint ping as a boss attack winds up
+                  osc.type = 'sine';
+                  osc.frequency.setValueAtTime(1200, t);
+                  gain.gain.setValueAtTime(0.04, t);
+                  gain.gain.exponentialRampToValueAtTime(0.001, t + 0.1);
+                  osc.start(t);
+                  osc.stop(t + 0.1);
+              }
+              break;
+          case 'lock_on':
+              // Two-note blip as the reticle snaps on
+              osc.type = 'square';
+              osc.frequency.setValueAtTime(880, t);
+              osc.frequency.setValueAtTime(1320, t + 0.05);
+              gain.gain.setValueAtTime(0.05, t);
+              gain.gain.exponentialRampToValueAtTime(0.001, t + 0.12);
+              osc.start(t);
+              osc.stop(t + 0.12);
+              break;
+          case 'transform':
+              // Rising roar of flame
+              playNoise(ctx, t, 0.6, 0.25);
+              osc.type = 'sawtooth';
+              osc.frequency.setValueAtTime(60, t);
+              osc.frequency.exponentialRampToValueAtTime(320, t + 0.5);
+              gain.gain.setValueAtTime(0.15, t);
+              gain.gain.exponentialRampToValueAtTime(0.001, t + 0.6);
+              osc.start(t);
+              osc.stop(t + 0.6);
+              break;
+          case 'transform_end':
+              // Flame gutters out
+              playNoise(ctx, t, 0.5, 0.1);
+              osc.type = 'triangle';
+              osc.frequency.setValueAtTime(300, t);
+              osc.frequency.exponentialRampToValueAtTime(50, t + 0.5);
+              gain.gain.setValueAtTime(0.12, t);
+              gain.gain.exponentialRampToValueAtTime(0.001, t + 0.5);
+              osc.start(t);
+              osc.stop(t + 0.5);
+              break;
+          case 'drink':
+              // Three low gulps
+              osc.type = 'sine';
+              for (let i = 0; i < 3; i++) {
+                  const gt = t + 0.35 + i * 0.18;
+                  osc.frequency.setValueAtTime(220, gt);
+                  osc.frequency.exponentialRampToValueAtTime(110, gt + 0.1);
+                  gain.gain.setValueAtTime(0.2, gt);
+                  gain.gain.exponentialRampToValueAtTime(0.01, gt + 0.12);
+              }
+              gain.gain.setValueAtTime(0.01, t);
+              osc.start(t);
+              osc.stop(t + 1.0);
+              break;
+          case 'block':
+              // Dull wooden clack as the staff comes up
+              osc.type = 'square';
+              osc.frequency.setValueAtTime(420, t);
+              osc.frequency.exponentialRampToValueAtTime(180, t + 0.06);
+              gain.gain.setValueAtTime(0.12, t);
+              gain.gain.exponentialRampToValueAtTime(0.01, t + 0.08);
+              osc.start(t);
+              osc.stop(t + 0.1);
+              break;
           case 'counter':
               // Sharp metal ping
               const cOsc = ctx.createOscillator();
@@ -757,6 +925,52 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
                kS.stop(t + 0.4);
                playNoise(ctx, t, 0.2, 0.2); // Add crunch
                break;
+           case 'perfect_dodge': // Time slows - glassy chime sliding down
+               osc.type = 'sine';
+               osc.frequency.setValueAtTime(1800, t);
+               osc.frequency.exponentialRampToValueAtTime(600, t + 0.6);
+               gain.gain.setValueAtTime(0.25, t);
+               gain.gain.exponentialRampToValueAtTime(0.001, t + 0.8);
+               osc.start(t);
+               osc.stop(t + 0.8);
+               const pdOsc = ctx.createOscillator();
+               pdOsc.type = 'triangle';
+               pdOsc.frequency.setValueAtTime(2700, t);
+               pdOsc.frequency.exponentialRampToValueAtTime(900, t + 0.6);
+               pdOsc.connect(gain);
+               pdOsc.start(t);
+               pdOsc.stop(t + 0.8);
+               break;
+           case 'roar': // Phase transition - long growl with a rumble underneath
+               osc.type = 'sawtooth';
+               osc.frequency.setValueAtTime(90, t);
+               osc.frequency.linearRampToValueAtTime(140, t + 0.3);
+               osc.frequency.exponentialRampToValueAtTime(45, t + 1.4);
+               const growl = ctx.createOscillator();
+               growl.frequency.value = 30;
+               const growlGain = ctx.createGain();
+               growlGain.gain.value = 0.15;
+               growl.connect(growlGain);
+               growlGain.connect(gain.gain);
+               gain.gain.setValueAtTime(0.01, t);
+               gain.gain.linearRampToValueAtTime(0.35, t + 0.2);
+               gain.gain.exponentialRampToValueAtTime(0.01, t + 1.5);
+               osc.start(t);
+               osc.stop(t + 1.5);
+               growl.start(t);
+               growl.stop(t + 1.5);
+               playNoise(ctx, t, 1.0, 0.15);
+               break;
+           case 'poise_break': // Guard shatters - heavy clang ringing down
+               osc.type = 'square';
+               osc.frequency.setValueAtTime(520, t);
+               osc.frequency.exponentialRampToValueAtTime(130, t + 0.5);
+               gain.gain.setValueAtTime(0.25, t);
+               gain.gain.exponentialRampToValueAtTime(0.001, t + 0.6);
+               osc.start(t);
+               osc.stop(t + 0.6);
+               playNoise(ctx, t, 0.3, 0.3);
+               break;
       }
   }, []);
 
@@ -783,1535 +997,300 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
   }, [initAudio]);
 
   // --- Initialization ---
-  const initGame = useCallback(() => {
-    playerRef.current = {
-      ...playerRef.current,
-      pos: { x: 100, y: 200 },
-      health: 100,
-      vx: 0,
-      vy: 0,
-      state: 'idle',
-      isDead: false,
-      animFrame: 0,
-      animTimer: 0,
-      attackCooldown: 0,
-      dodgeCooldown: 0,
-      chargeTimer: 0,
-      comboCount: 0,
-      comboWindow: 0,
-      hasHitInAir: false,
-      hasDealtDamage: false,
-      hitStop: 0,
-      flashTimer: 0,
-      spellCooldown: 0,
-      techCooldown: 0,
-      sheatheTimer: 0
-    };
-    
-    bossRef.current = {
-      id: 'boss',
-      pos: { x: 600, y: 200 },
-      width: 80,
-      height: 100,
-      vx: 0,
-      vy: 0,
-      color: '#581c87', 
-      health: 1200, 
-      maxHealth: 1200,
-      isDead: false,
-      facingRight: false,
-      type: 'boss',
-      state: 'idle',
-      attackCooldown: 60, 
-      dodgeCooldown: 0,
-      chargeTimer: 0,
-      comboCount: 0,
-      comboWindow: 0,
-      animFrame: 0,
-      animTimer: 0,
-      hitStop: 0,
-      flashTimer: 0,
-      isImmobilized: false,
-      immobilizeTimer: 0,
-      immobilizeDamageTaken: 0
-    };
+  const syncHud = useCallback((world: WorldState) => {
+    setPlayerHealth(world.player.health);
+    setBossHealth(world.boss ? world.boss.health : 0);
+    if (world.boss) {
+        setBossMaxHealth(world.boss.maxHealth);
+        setBossBarColor(getPhaseBarColor(getBossDefinition(world.boss.defId), world.boss.phaseIndex || 0));
+        setBossPoise({ poise: world.boss.poise || 0, max: getBossDefinition(world.boss.defId).poise.max, staggered: world.boss.state === 'stagger' });
+    }
+    setFocus(world.player.focus || 0);
+    setGourdCharges(world.player.gourdCharges || 0);
+    setSpellSlots(getSpellSlots(world.player));
+    setMana({ mana: world.player.mana || 0, max: world.player.maxMana || 0 });
+    setStance(world.player.stance || 'smash');
+    const form = getTransformation(world.player.transformId);
+    setTransform({ name: form ? form.name : null, gauge: world.player.transformGauge || 0, max: form ? form.gauge : 0 });
+    setStamina({ stamina: world.player.stamina || 0, max: world.player.maxStamina || 0, exhausted: !!world.player.isExhausted });
+    setScore(world.score);
+    setWill(Math.round(world.will));
+  }, [setPlayerHealth, setBossHealth, setBossMaxHealth, setBossBarColor, setBossPoise, setFocus, setGourdCharges, setSpellSlots, setMana, setTransform, setStance, setStamina, setScore, setWill]);
 
-    particlesRef.current = [];
-    combo4TrailsRef.current = [];
-    prevCombo4TimeRef.current = null;
-    setsuMoonSnapshotRef.current = null;
-    cameraXRef.current = 0;
-    shakeRef.current = 0;
-    c3HitsRef.current = 0;
-
-    setPlayerHealth(100);
-    setBossHealth(1200);
-    setStamina(100);
-    setScore(0);
-    
-  }, [setPlayerHealth, setBossHealth, setStamina, setScore]);
+  const initGame = useCallback(() => {
+    // Each session owns one seed; all gameplay and cosmetic randomness derives from it
+    const world = createWorld(randomSeed(), bossIdRef.current, chapterId);
+    worldRef.current = world;
+    recordingRef.current = createReplay(world.rng.seed, bossIdRef.current, chapterId, debugParamsRef.current);
+    setBossDecisions([]);
+
+    syncHud(world);
+  }, [syncHud, chapterId]);
+
+  const initReplay = useCallback((rep: Replay) => {
+    const world = createWorld(rep.seed, rep.bossId, rep.chapterId);
+    worldRef.current = world;
+    recordingRef.current = null;
+    setBossDecisions([]);
+
+    // Play back with the tuning the fight was recorded under
+    if (!liveParamsRef.current) liveParamsRef.current = debugParamsRef.current;
+    debugParamsRef.current = { ...rep.params };
+
+    playbackRef.current = { ...playbackRef.current, paused: false };
+    setPlayback({ ...playbackRef.current, tick: 0 });
+    syncHud(world);
+  }, [syncHud]);
 
   useEffect(() => {
     if (gameState === GameState.PLAYING) {
+      if (startedRunRef.current === runId) return; // Resumed from the pause menu
+      startedRunRef.current = runId;
       initGame();
+    } else if (gameState === GameState.REPLAY && replay) {
+      startedRunRef.current = null;
+      initReplay(replay);
     }
-  }, [gameState, initGame]);
-
-  // --- Helper: Particles ---
-  const createParticles = (x: number, y: number, color: string, count: number, speed: number = 10) => {
-    for (let i = 0; i < count; i++) {
-      particlesRef.current.push({
-        x, y,
-        vx: (Math.random() - 0.5) * speed,
-        vy: (Math.random() - 0.5) * speed,
-        life: 1.0,
-        color,
-        size: Math.random() * 3 + 2
-      });
-    }
-  };
+  }, [gameState, runId, replay, initGame, initReplay]);
 
-  // --- Helper: Collision Resolution ---
-  const resolveEntityCollision = (e1: Entity, e2: Entity) => {
-    if (e1.state === 'dodge' || e2.state === 'dodge') return;
-    
-    const p1Frozen = e1.hitStop > 0 && !e1.isImmobilized;
-    const p2Frozen = e2.hitStop > 0 && !e2.isImmobilized;
-    if (p1Frozen || p2Frozen) return;
-
-    if (
-        e1.pos.x < e2.pos.x + e2.width &&
-        e1.pos.x + e1.width > e2.pos.x &&
-        e1.pos.y < e2.pos.y + e2.height &&
-        e1.pos.y + e1.height > e2.pos.y
-    ) {
-        const center1 = e1.pos.x + e1.width / 2;
-        const center2 = e2.pos.x + e2.width / 2;
-        const pushForce = 2; 
-
-        if (center1 < center2) {
-            e1.pos.x -= pushForce;
-            if (e2.type === 'boss') {
-                if (!e2.isImmobilized && e2.state !== 'kowtow_attack') e2.vx = 0;
-            } else {
-                e2.pos.x += pushForce;
-            }
-            if (e1.vx > 0) e1.vx = 0;
-        } else {
-            e1.pos.x += pushForce;
-            if (e2.type === 'boss') {
-                if (!e2.isImmobilized && e2.state !== 'kowtow_attack') e2.vx = 0;
-            } else {
-                e2.pos.x -= pushForce;
-            }
-            if (e1.vx < 0) e1.vx = 0;
-        }
+  useEffect(() => {
+    // Leaving playback hands the player's own tuning back
+    if (gameState !== GameState.REPLAY && liveParamsRef.current) {
+      debugParamsRef.current = liveParamsRef.current;
+      liveParamsRef.current = null;
     }
-  };
-
+  }, [gameState]);
 
   // --- Main Game Loop ---
+  // Steps the simulation once and forwards its events to audio and the React HUD
   const update = useCallback(() => {
-    if (gameState !== GameState.PLAYING) return;
-
-    if (shakeRef.current > 0) shakeRef.current *= 0.9;
-    if (shakeRef.current < 0.5) shakeRef.current = 0;
-
-    const player = playerRef.current;
-    const boss = bossRef.current;
-    
-    // Debug values
-    const { 
-        trailDecay, trailStep, bossBehavior, bossPatrolRange, bossPatrolSpeed, 
-        infiniteHealth, infinitePlayerHealth,
-        c1Damage, c1Stun, c1Shake, c1Interrupt,
-        c2Damage, c2Stun, c2Shake, c2Interrupt,
-        c3Rotations, c3Speed, c3ExtraHits, c3TotalDamage, c3Stun, c3Radius, c3Interrupt, c3JumpForce, c3GravityScale,
-        c4Length, c4Damage, c4Knockback, c4Stun, c4Shake, c4SlideSpeed, c4SlideFriction, c4Interrupt,
-        heavyDamage, heavyRange, heavyKnockback, heavyStun, heavyShake, heavyInterrupt,
-        kDamage, kStun, kRadius, kJumpForce, kPlungeSpeed, kColor,
-        setsuDist, setsuChargeFriction, setsuDamage, getsuDamage, getsuJumpHeight, getsuFade, getsuHits, getsuStun,
-        kaDamage, kaStun, kaPlungeSpeed, kaParticleCount, kaTurbulence, kaSlideForce, kaSlideFriction
-    } = debugParamsRef.current;
-
-    // --- 1. Player Logic ---
-    if (player.hitStop > 0) {
-        player.hitStop--;
-    } 
-    if (player.flashTimer && player.flashTimer > 0) {
-        player.flashTimer--;
+    const world = worldRef.current;
+    let input;
+
+    if (gameState === GameState.PLAYING || gameState === GameState.PAUSED) {
+        // While PAUSED this only runs for a debug frame advance
+        input = readInput(keysRef.current);
+        recordingRef.current?.inputs.push(encodeInput(input));
+    } else if (gameState === GameState.REPLAY && replay) {
+        if (world.tick >= replay.inputs.length) {
+            if (!playbackRef.current.paused) updatePlayback({ paused: true });
+            return;
+        }
+        debugParamsRef.current = applyParamChanges(replay, world.tick, debugParamsRef.current);
+        if (applyActions(replay, world.tick, world)) syncHud(world);
+        input = decodeInput(replay.inputs[world.tick]);
+    } else {
+        return;
     }
-    
-    if (!player.isDead && player.hitStop <= 0) { // Movement logic allowed if not frozen
-      const onGround = player.pos.y + player.height >= GROUND_Y;
-      
-      if (player.attackCooldown > 0) player.attackCooldown--;
-      if (player.dodgeCooldown > 0) player.dodgeCooldown--;
-      if (player.comboWindow > 0) player.comboWindow--;
-      if (player.spellCooldown && player.spellCooldown > 0) player.spellCooldown--;
-      if (player.techCooldown && player.techCooldown > 0) player.techCooldown--;
-
-      if (player.comboWindow === 0 && player.state !== 'attack') {
-          player.comboCount = 0;
-      }
-
-      // --- TRAIL SYSTEM UPDATE (REAL TIME) ---
-      // Update existing trails (Decay)
-      for (let i = combo4TrailsRef.current.length - 1; i >= 0; i--) {
-          combo4TrailsRef.current[i].life -= trailDecay; 
-          if (combo4TrailsRef.current[i].life <= 0) {
-              combo4TrailsRef.current.splice(i, 1);
-          }
-      }
 
-      // Generate new trails (Shared Logic for Combo 4)
-      let generateTrails = false;
-      let getAngleFn = (t: number) => 0;
-      let getLengthFn = (t: number) => 100; // Default Length fallback
-      let startTime = 0;
-      let endTime = 0;
-      let speed = 1;
-
-      if (player.state === 'attack' && player.comboCount === 4) {
-          generateTrails = true;
-          getAngleFn = getCombo4AngleFromT;
-          getLengthFn = () => c4Length; // Constant length for Combo 4
-          startTime = 5;
-          endTime = 10;
-          speed = 1;
-      }
+    const { events } = stepWorld(world, input, debugParamsRef.current);
+
+    for (const event of events) {
+        switch (event.type) {
+            case 'sound':
+                playSound(event.sound);
+                break;
+            case 'damage':
+            case 'health':
+                if (event.target === 'player') setPlayerHealth(event.health);
+                else if (event.target === 'boss') setBossHealth(event.health);
+                break;
+            case 'score':
+                setScore(event.total);
+                break;
+            case 'stamina':
+                setStamina({ stamina: event.stamina, max: event.max, exhausted: event.exhausted });
+                break;
+            case 'boss_phase':
+                setBossBarColor(event.barColor);
+                break;
+            case 'focus':
+                setFocus(event.focus);
+                break;
+            case 'gourd':
+                setGourdCharges(event.charges);
+                break;
+            case 'spells':
+                setSpellSlots(event.slots);
+                break;
+            case 'mana':
+                setMana({ mana: event.mana, max: event.max });
+                break;
+            case 'spell_failed':
+                onSpellFailed();
+                break;
+            case 'transform':
+                setTransform({ name: event.name, gauge: event.gauge, max: event.max });
+                break;
+            case 'stance':
+                setStance(event.stance);
+                break;
+            case 'will':
+                setWill(event.total);
+                break;
+            case 'boss_arrived':
+                syncHud(world);
+                break;
+            case 'poise':
+                setBossPoise({ poise: event.poise, max: event.max, staggered: event.staggered });
+                break;
+            case 'boss_decision':
+                setBossDecisions(prev => [event.decision, ...prev].slice(0, AI_LOG_SIZE));
+                break;
+            case 'state':
+                // A replay just runs out of inputs; only a live fight ends the session
+                if (gameState === GameState.REPLAY) break;
+                if (recordingRef.current) {
+                    recordingRef.current.outcome = event.state;
+                    onReplayRecorded(recordingRef.current);
+                    recordingRef.current = null;
+                }
+                setGameState(event.state);
+                break;
+        }
+    }
 
-      if (generateTrails) {
-          const currentT = player.animFrame + (player.animTimer / speed);
-
-          if (player.animFrame >= startTime && player.animFrame <= endTime && player.hitStop <= 0) {
-               if (prevCombo4TimeRef.current === null) {
-                   prevCombo4TimeRef.current = currentT;
-                   combo4TrailsRef.current.push({
-                       angle: getAngleFn(currentT),
-                       life: 0.5,
-                       length: getLengthFn(currentT)
-                   });
-               } else {
-                   const prevT = prevCombo4TimeRef.current;
-                   if (currentT > prevT) {
-                       let simT = prevT + trailStep;
-                       while (simT <= currentT) {
-                           const angle = getAngleFn(simT);
-                           const age = currentT - simT;
-                           const lifeStart = 0.5 - (age * trailDecay); 
-                           const len = getLengthFn(simT);
-                           if (lifeStart > 0) {
-                               combo4TrailsRef.current.push({ angle: angle, life: lifeStart, length: len });
-                           }
-                           simT += trailStep;
-                       }
-                   }
-                   prevCombo4TimeRef.current = currentT;
-               }
-          } else {
-              if (player.animFrame > endTime || player.animFrame < startTime) {
-                  prevCombo4TimeRef.current = null;
-              }
-          }
-      } else {
-          prevCombo4TimeRef.current = null;
-      }
+    if (gameState === GameState.REPLAY && world.tick % 10 === 0) {
+        setPlayback(prev => ({ ...prev, tick: world.tick }));
+    }
+  }, [gameState, replay, setGameState, setPlayerHealth, setBossHealth, setBossBarColor, setBossPoise, setFocus, setGourdCharges, setSpellSlots, setMana, setTransform, setStance, onSpellFailed, setStamina, setScore, setWill, syncHud, playSound, onReplayRecorded]);
 
-      const isAttackPressed = keysRef.current['KeyJ'];
-      const isDodgePressed = keysRef.current['ShiftLeft'] || keysRef.current['KeyL']; 
-      const isSpellPressed = keysRef.current['KeyI'];
-      const isTechPressed = keysRef.current['KeyK'];
-      const isSetsuPressed = keysRef.current['KeyN'];
-
-      // --- NEW: Setsugekka Recovery Interrupt Logic ---
-      if (player.state === 'setsugekka' && player.animFrame > 32) { // 32 = After hit window
-          const isMove = keysRef.current['ArrowRight'] || keysRef.current['KeyD'] || keysRef.current['ArrowLeft'] || keysRef.current['KeyA'];
-          const isJump = keysRef.current['Space'];
-          if (isAttackPressed || isDodgePressed || isSpellPressed || isTechPressed || isMove || isJump) {
-              player.state = 'idle';
-              player.animFrame = 0;
-              player.animTimer = 0;
-              setsuMoonSnapshotRef.current = null;
-          }
-      }
+  // --- Drawing Helpers ---
+  const drawRect = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, color: string) => {
+    ctx.fillStyle = color;
+    ctx.fillRect(Math.round(x), Math.round(y), w, h);
+  };
 
-      // --- Setsugekka (N) Logic ---
-      if (isSetsuPressed && onGround && player.state !== 'dodge' && player.state !== 'hit' && player.state !== 'setsugekka') {
-          if (player.state !== 'sheathe_charge') {
-              player.state = 'sheathe_charge';
-              player.sheatheTimer = 0;
-              // vx is no longer set to 0 here to preserve momentum
-              playSound('sheathe_charge');
-          }
-          
-          player.sheatheTimer = (player.sheatheTimer || 0) + 1;
-          
-          // Particle effect while charging
-          if (player.sheatheTimer % 10 === 0) {
-               const radius = (player.sheatheTimer / SETSUGEKKA_CHARGE_TIME) * 40;
-               for(let i=0; i<6; i++) {
-                   const ang = (Math.PI * 2 / 6) * i;
-                   particlesRef.current.push({
-                       x: player.pos.x + player.width/2 + Math.cos(ang)*radius,
-                       y: player.pos.y + player.height/2 + Math.sin(ang)*radius,
-                       vx: -Math.cos(ang),
-                       vy: -Math.sin(ang),
-                       life: 0.5,
-                       color: '#38bdf8',
-                       size: 2
-                   });
-               }
-          }
+  // Transformed forms get their own sprite, posed from the current move's phase
+  const drawTransformedPlayer = (ctx: CanvasRenderingContext2D, p: Entity, form: TransformationDefinition) => {
+    const { body, accent, hair, glow } = form.palette;
+    const move = getTransformMove(form, p.moveId);
+    const flicker = Math.sin(Date.now() / 60) * 2;
 
-          if (player.sheatheTimer >= SETSUGEKKA_CHARGE_TIME) {
-              // Trigger Auto-Attack
-              player.state = 'setsugekka';
-              player.animFrame = 0;
-              player.animTimer = 0;
-              player.hasDealtDamage = false; // Reset for Hit 1
-              
-              // Visual Cue for full charge
-              playSound('break_spell'); // Use a sharp ping
-              shakeRef.current = 5;
-              createParticles(player.pos.x + player.width/2, player.pos.y + player.height/2, '#fff', 20, 8);
-          }
-      }
-      // Cancel Charge if N is released before threshold
-      else if (!isSetsuPressed && player.state === 'sheathe_charge') {
-          player.state = 'idle';
-          player.sheatheTimer = 0;
-      }
+    ctx.save();
+    const shakeX = p.state === 'hit' && p.hitStop > 0 ? (Math.random() - 0.5) * 4 : 0;
+    ctx.translate(Math.round(p.pos.x + p.width / 2 + shakeX), Math.round(p.pos.y + p.height));
+    if (!p.facingRight) ctx.scale(-1, 1);
+
+    // Reverting: the fire sputters out and the base form shows through
+    if (p.state === 'transform_exit') {
+        const progress = Math.min(1, (p.moveTimer || 0) / form.exitVulnerability);
+        ctx.globalAlpha = 1 - progress * 0.6;
+        drawRect(ctx, -10, -36, 20, 26, '#57534e');
+        drawRect(ctx, -8, -46, 16, 12, '#44403c');
+        drawRect(ctx, -8, -10, 6, 10, '#292524');
+        drawRect(ctx, 2, -10, 6, 10, '#292524');
+        if (Math.floor(Date.now() / 100) % 2 === 0) drawRect(ctx, -6, -52, 12, 6, accent);
+        ctx.restore();
+        return;
+    }
 
-      // --- Tech Attack (K) Logic ---
-      if (isTechPressed && (!player.techCooldown || player.techCooldown <= 0) && player.state !== 'dodge' && player.state !== 'hit' && player.state !== 'sheathe_charge' && player.state !== 'setsugekka') {
-           player.state = 'plunge';
-           player.vy = kJumpForce; // Rocket Jump Up
-           player.vx = player.facingRight ? 5 : -5; // Slight forward momentum
-           player.animFrame = 0;
-           player.animTimer = 0;
-           player.techCooldown = 120; // 2 seconds default
-           player.hasDealtDamage = false;
-           playSound('jump');
-           createParticles(player.pos.x + player.width/2, player.pos.y + player.height, '#fff', 10);
-      }
+    const bob = p.state === 'idle' ? Math.sin(Date.now() / 150) * 1.5 : 0;
+    const stride = p.state === 'run' ? Math.sin(p.animFrame * Math.PI / 2) * 4 : 0;
+    let lean = 0;
+    let armReach = 6;
 
-      // --- Spell Logic (Immobilize) ---
-      if (isSpellPressed && (!player.spellCooldown || player.spellCooldown <= 0) && boss && !boss.isDead) {
-           const dist = boss.pos.x - player.pos.x;
-           const range = 600; 
-           const facingTarget = (player.facingRight && dist > 0) || (!player.facingRight && dist < 0);
-           
-           if (facingTarget && Math.abs(dist) < range) {
-               boss.isImmobilized = true;
-               boss.immobilizeTimer = 300; 
-               boss.immobilizeDamageTaken = 0; 
-               playSound('spell');
-               
-               const pCx = player.pos.x + player.width/2;
-               const pCy = player.pos.y + player.height/2;
-               const bCx = boss.pos.x + boss.width/2;
-               const bCy = boss.pos.y + boss.height/2;
-               const cX = (pCx + bCx) / 2;
-               const cY = (pCy + bCy) / 2 - 40; 
-               
-               const particleCount = 24;
-               for(let i=0; i<=particleCount; i++) {
-                   const t = i / particleCount;
-                   const invT = 1 - t;
-                   const lx = (invT * invT * pCx) + (2 * invT * t * cX) + (t * t * bCx);
-                   const ly = (invT * invT * pCy) + (2 * invT * t * cY) + (t * t * bCy);
-                   
-                   const scatter = 8; 
-                   const offsetX = (Math.random() - 0.5) * scatter;
-                   const offsetY = (Math.random() - 0.5) * scatter;
-
-                   particlesRef.current.push({
-                       x: lx + offsetX,
-                       y: ly + offsetY,
-                       vx: (Math.random() - 0.5) * 0.2, 
-                       vy: -Math.random() * 0.5, 
-                       life: 0.4 + Math.random() * 0.3, 
-                       color: Math.random() > 0.5 ? '#fbbf24' : '#fef3c7', 
-                       size: Math.random() * 2 + 0.5 
-                   });
-               }
-               createParticles(boss.pos.x + boss.width/2, boss.pos.y + boss.height/2, '#fbbf24', 30, 4);
-               player.spellCooldown = 30; 
-           }
-      }
+    if (p.state === 'transform_attack' && move) {
+        const { phase, progress } = getMovePhase(move, p.moveTimer || 0);
+        if (phase === 'startup') { lean = -3 * progress; armReach = 6 - 8 * progress; }
+        else if (phase === 'active') { lean = 4; armReach = move === form.heavy ? 6 : 6 + move.hitbox.offsetX; }
+        else { lean = 4 * (1 - progress); armReach = 6 + (move === form.heavy ? 0 : move.hitbox.offsetX) * (1 - progress); }
+    }
 
-      if (isDodgePressed && player.dodgeCooldown <= 0 && player.state !== 'dodge' && player.state !== 'hit') {
-          player.state = 'dodge';
-          player.animFrame = 0;
-          player.vx = player.facingRight ? DODGE_SPEED : -DODGE_SPEED;
-          player.dodgeCooldown = DODGE_COOLDOWN;
-          player.chargeTimer = 0;
-          player.sheatheTimer = 0; // Cancel sheathe if active
-          setStamina((prev) => Math.max(0, prev - DODGE_STAMINA_COST));
-          playSound('dash');
-          createParticles(player.pos.x + player.width/2, player.pos.y + player.height, '#fff', 5);
-      }
-      else if (player.state !== 'dodge' && player.state !== 'hit' && player.state !== 'setsugekka' && player.state !== 'sheathe_charge') {
-        if (isAttackPressed) {
-           if (player.state !== 'attack' && player.state !== 'heavy_attack' && player.state !== 'plunge') {
-             player.chargeTimer++;
-             if (player.chargeTimer % 8 === 0) playSound('charge'); 
-             if (player.chargeTimer > CHARGE_THRESHOLD && player.chargeTimer % 5 === 0) {
-                createParticles(player.pos.x + player.width/2, player.pos.y + player.height/2, '#fbbf24', 1, 2);
-             }
-           }
-        }
-        else if (!isAttackPressed && player.chargeTimer > 0) {
-            if (player.chargeTimer > CHARGE_THRESHOLD) {
-                player.state = 'heavy_attack';
-                player.attackCooldown = 30;
-                player.animFrame = 0;
-                player.vx = player.facingRight ? 12 : -12; 
-                player.comboCount = 0; 
-                player.hasDealtDamage = false;
-                setStamina(0);
-                playSound('attack_heavy');
-            } 
-            else {
-                const isAlreadyAttacking = player.state === 'attack' || player.state === 'heavy_attack' || player.state === 'plunge';
-                
-                let allowAttack = true;
-                
-                if (!isAlreadyAttacking || allowAttack) {
-                   player.hasDealtDamage = false; 
-
-                   if (onGround) {
-                       player.state = 'attack';
-                       if (player.comboCount > 0) {
-                           player.comboCount = (player.comboCount % 4) + 1;
-                       } else {
-                           player.comboCount = 1;
-                       }
-                       
-                       if (player.comboCount === 3) player.vy = c3JumpForce; 
-                       if (player.comboCount === 4) {
-                           player.vy = -5; 
-                           // Apply slide speed based on Debug Params
-                           player.vx = player.facingRight ? c4SlideSpeed : -c4SlideSpeed; 
-                           player.attackCooldown = 30; 
-                       }
-                       
-                       let lunge = 3;
-                       if (player.comboCount === 2) lunge = 6;
-                       if (player.comboCount === 3) lunge = 4;
-                       
-                       // Don't override c4SlideSpeed logic here
-                       if (player.comboCount !== 4) {
-                            player.vx = player.facingRight ? lunge : -lunge;
-                       }
-                       playSound('attack_light');
-                       
-                       // Init Combo 3 tracker
-                       if (player.comboCount === 3) {
-                           c3HitsRef.current = 0;
-                       }
-                   } else {
-                       // AIR ATTACK LOGIC REPLACEMENT
-                       const distToGround = GROUND_Y - (player.pos.y + player.height);
-                       const minAirHeight = 30; // Threshold to trigger air slam
-
-                       if (distToGround > minAirHeight) {
-                            player.state = 'attack';
-                            player.comboCount = 4; // Trigger Slam
-                            player.vy = -5; 
-                            // Apply slide speed based on Debug Params
-                            player.vx = player.facingRight ? c4SlideSpeed : -c4SlideSpeed; 
-                            player.attackCooldown = 30;
-                            player.animFrame = 0;
-                            player.hasDealtDamage = false;
-                            playSound('attack_heavy');
-                       } 
-                       else {
-                            player.chargeTimer = 0;
-                            return; 
-                       }
-                   }
-                   
-                   if (player.attackCooldown === 0) {
-                       if (player.comboCount === 1 || player.comboCount === 2) player.attackCooldown = 7;
-                       else player.attackCooldown = 11;
-                   }
-                   if (player.comboCount === 3) player.attackCooldown = 0; 
-
-                   player.animFrame = 0;
-                }
-            }
-            player.chargeTimer = 0;
-        }
-      } else {
-          if (!isAttackPressed) player.chargeTimer = 0;
-      }
+    ctx.save();
+    ctx.translate(lean, bob);
+    // Legs
+    drawRect(ctx, -8 + stride, -12, 6, 12, accent);
+    drawRect(ctx, 2 - stride, -12, 6, 12, accent);
+    // Torso and flaming hair
+    drawRect(ctx, -10, -38, 20, 26, body);
+    drawRect(ctx, -7, -50, 14, 12, '#fed7aa');
+    drawRect(ctx, -9, -58 + flicker, 18, 8, hair);
+    drawRect(ctx, -5, -64 - flicker, 10, 6, glow);
+    // Punching arm
+    drawRect(ctx, 4, -32, armReach, 6, body);
+    drawRect(ctx, 4 + armReach, -34, 7, 9, glow);
+    ctx.restore();
 
-      let moving = false;
-      const isFinisher = player.state === 'attack' && player.comboCount === 4;
-      const isPlunge = player.state === 'plunge' || player.state === 'plunge_end';
-      const movementLocked = player.state === 'dodge' || player.state === 'heavy_attack' || isFinisher || isPlunge || player.state === 'sheathe_charge' || player.state === 'setsugekka';
-
-      if (!movementLocked) {
-        const attackLockFrames = 5;
-        const isAttackLocked = (player.state === 'attack' && player.comboCount !== 3 && player.animFrame < 2);
-
-        if (!isAttackLocked) {
-            if (keysRef.current['ArrowRight'] || keysRef.current['KeyD']) {
-            player.vx += MOVE_SPEED;
-            player.facingRight = true;
-            moving = true;
-            } else if (keysRef.current['ArrowLeft'] || keysRef.current['KeyA']) {
-            player.vx -= MOVE_SPEED;
-            player.facingRight = false;
-            moving = true;
-            } else {
-            player.vx *= FRICTION;
-            }
-            player.vx = Math.max(Math.min(player.vx, MAX_SPEED), -MAX_SPEED);
+    // Swing effects while the hitbox is live
+    if (p.state === 'transform_attack' && move && getMovePhase(move, p.moveTimer || 0).phase === 'active') {
+        ctx.save();
+        ctx.globalCompositeOperation = 'lighter';
+        ctx.fillStyle = move.color;
+        ctx.shadowColor = move.color;
+        ctx.shadowBlur = 20;
+        ctx.globalAlpha = 0.6;
+        ctx.beginPath();
+        if (move === form.heavy) {
+            ctx.ellipse(move.hitbox.offsetX, -p.height / 2, move.hitbox.reach, move.hitbox.height / 2, 0, 0, Math.PI * 2);
+        } else {
+            ctx.ellipse(move.hitbox.offsetX + 10, -30, move.hitbox.reach * 0.6, 10, 0, 0, Math.PI * 2);
         }
-      } else if (player.state === 'dodge') {
-         if (Math.abs(player.vx) < 1) player.state = 'idle';
-      } else if (player.state === 'heavy_attack') {
-         player.vx *= 0.85; 
-      } else if (player.state === 'sheathe_charge') {
-         // Apply friction during charge to slide to a stop
-         player.vx *= setsuChargeFriction;
-         if (Math.abs(player.vx) < 0.1) player.vx = 0;
-      } else if (isFinisher) {
-         // Apply specific friction for Attack 4 Slide
-         player.vx *= c4SlideFriction; 
-      } else if (player.state === 'setsugekka') {
-          // Specific friction for Setsugekka sliding
-          if (player.animFrame >= 22) {
-              // Flower Stage - Non-linear deceleration
-              // Logic handled in state update below, but basic friction here
-              player.vx *= kaSlideFriction; 
-          }
-      }
-
-      if ((keysRef.current['Space']) && onGround && !movementLocked && player.state !== 'attack') {
-        player.vy = JUMP_FORCE;
-        playSound('jump');
-        createParticles(player.pos.x + player.width/2, player.pos.y + player.height, '#78350f', 5); 
-      }
+        ctx.fill();
+        ctx.restore();
+    }
+    ctx.restore();
+  };
 
-      if (player.state === 'attack' && player.comboCount === 3) {
-         player.vy += GRAVITY * c3GravityScale; 
-      } 
-      else if (player.state === 'plunge') {
-         // Special Physics for Plunge
-         if (player.vy < -2) {
-             player.vy += GRAVITY; // Rising physics
-         } else {
-             // Once apex reached, rocket down
-             player.vy = kPlungeSpeed; 
-         }
-         
-         // Apply drag
-         player.vx *= 0.9;
-      }
-      else {
-         player.vy += GRAVITY;
-      }
-      
-      player.pos.x += player.vx;
-      player.pos.y += player.vy;
+  const drawPlayer = (ctx: CanvasRenderingContext2D, p: Entity, world: WorldState) => {
+    const form = getTransformation(p.transformId);
+    if (form) {
+        drawTransformedPlayer(ctx, p, form);
+        return;
+    }
+    const { width: w, height: h, state, animFrame, comboCount, hitStop } = p;
+    const { 
+        fanFade, fanBrightness, fanDensity, fanOpacity,
+        c3Radius, c3Width, c3Glow, c3Density, c3Opacity, c3Speed,
+        c3BgBrightness, c3BgOpacity, c3BlurSteps, c3BlurFade,
+        c4Length,
+        heavyWidth, heavyGlow, heavyOpacity,
+        kColor,
+        getsuSize, getsuFade
+    } = debugParamsRef.current;
+    
+    // Using speed=1 for combo count 4 to match update logic
+    let speed = 8;
+    if (p.state === 'run') speed = 5;
+    if (p.state === 'attack') {
+        if (p.comboCount === 3) speed = 1; 
+        else if (p.comboCount === 4) speed = 1; 
+        else speed = 3; 
+    }
+    if (p.state === 'heavy_attack') speed = 2;
+    if (p.state === 'dodge') speed = 3;
+    if (p.state === 'hit') speed = 10;
+    if (p.state === 'setsugekka') speed = 2;
+    
+    const smoothT = Math.min(1, p.animTimer / speed);
+    const smoothFrame = animFrame + smoothT;
 
-      if (player.pos.y + player.height > GROUND_Y) {
-        player.pos.y = GROUND_Y - player.height;
-        player.vy = 0;
-        player.hasHitInAir = false; 
-        
-        // Plunge Landing Logic
-        if (player.state === 'plunge') {
-            player.state = 'plunge_end';
-            player.animFrame = 0;
-            playSound('hit_heavy');
-            shakeRef.current = 15;
-            createParticles(player.pos.x + player.width/2, player.pos.y + player.height, kColor, 20, 10);
-            
-            // Plunge AoE Check
-            if (boss && !boss.isDead) {
-                const dist = Math.abs((player.pos.x + player.width/2) - (boss.pos.x + boss.width/2));
-                if (dist < kRadius) {
-                    if (boss.isImmobilized) {
-                        // Bonus damage or break logic can go here
-                        boss.immobilizeDamageTaken = (boss.immobilizeDamageTaken || 0) + kDamage;
-                        if (boss.immobilizeDamageTaken > IMMOBILIZE_BREAK_THRESHOLD) {
-                             boss.isImmobilized = false;
-                             playSound('break_spell');
-                        }
-                    }
-                    
-                    // Deal Damage
-                    if (infiniteHealth && boss.health - kDamage <= 0) {
-                        boss.health = boss.maxHealth;
-                    } else {
-                        boss.health -= kDamage;
-                    }
-                    setBossHealth(boss.health);
-                    setScore(s => s + Math.floor(kDamage));
-                    
-                    boss.vx = 0; // Stun in place
-                    boss.hitStop = kStun;
-                    player.hitStop = 6;
-                    
-                    if (!boss.isImmobilized) boss.flashTimer = 5;
+    ctx.save();
+    
+    let shakeX = 0;
+    let shakeY = 0;
+    if (state === 'hit' && hitStop > 0) {
+        shakeX = (Math.random() - 0.5) * 4;
+        shakeY = (Math.random() - 0.5) * 4;
+    }
+    // Shake during Sheathe charge
+    if (state === 'sheathe_charge') {
+        shakeX = (Math.random() - 0.5) * 1;
+        shakeY = (Math.random() - 0.5) * 1;
+    }
+    
+    ctx.translate(Math.round(p.pos.x + w / 2 + shakeX), Math.round(p.pos.y + h + shakeY));
+    if (!p.facingRight) {
+        ctx.scale(-1, 1);
+    }
 
-                    boss.state = 'hit';
-                    boss.animFrame = 0;
-                    createParticles(boss.pos.x + boss.width/2, boss.pos.y + boss.height/2, kColor, 15, 6);
-                }
-            }
-        }
-      }
-      if (player.pos.x < 0) player.pos.x = 0;
-      if (player.pos.x > 1200) player.pos.x = 1200;
-
-      const isAttacking = (player.state === 'attack' || player.state === 'heavy_attack' || player.state === 'setsugekka');
-      let activeFrames = false;
-      
-      // --- COMBO 3 DYNAMIC LOGIC ---
-      // Calculate end frame based on degrees and speed
-      // Total Degrees = c3Rotations * 360
-      // Duration = TotalDegrees / c3Speed
-      const c3TotalFrames = Math.ceil((c3Rotations * 360) / c3Speed);
-      
-      if (player.state === 'heavy_attack') activeFrames = player.animFrame >= 2 && player.animFrame <= 6; 
-      else if (player.state === 'attack') {
-          if (player.comboCount === 1 || player.comboCount === 2) activeFrames = player.animFrame === 1 || player.animFrame === 2;
-          else if (player.comboCount === 3) {
-              // Combo 3 acts active for the calculated duration
-              activeFrames = player.animFrame <= c3TotalFrames;
-          }
-          else if (player.comboCount === 4) activeFrames = player.animFrame >= 5 && player.animFrame <= 10; 
-      } 
-      else if (player.state === 'setsugekka') {
-          // Setsugekka Logic (3 Stages - Adjusted for Jump-Plunge)
-          // Stage 1 (Snow): Frame 0-8. Horizontal Dash.
-          // Stage 2 (Moon): Frame 10-22. Upward Jump Slash.
-          // Stage 3 (Flower): Frame 22-35. Downward Plunge Slash.
-          
-          if (player.animFrame === 0) { // Start Snow
-              playSound('setsu_slash');
-              player.vx = player.facingRight ? setsuDist : -setsuDist; // Tunable displacement
-              
-              // Snow Particles
-              for(let i=0; i<10; i++) {
-                  particlesRef.current.push({
-                      x: player.pos.x + Math.random()*100 - 50,
-                      y: player.pos.y + Math.random()*50,
-                      vx: (Math.random() - 0.5) * 5,
-                      vy: Math.random() * 2,
-                      life: 1.5,
-                      color: '#e0f2fe',
-                      size: 2
-                  });
-              }
-          }
-          else if (player.animFrame === 10) { // Start Moon (JUMP UP)
-              playSound('getsu_slash');
-              player.vx = 0; // Halt forward momentum to focus on vertical
-              player.vy = getsuJumpHeight; // Tunable Jump Height
-              shakeRef.current = 5;
-              player.hasDealtDamage = false; // Reset for Hit 2 (Moon Start)
-              
-              // Capture Snapshot of position for the Static Moon Slash
-              setsuMoonSnapshotRef.current = {
-                  x: player.pos.x,
-                  y: player.pos.y,
-                  facingRight: player.facingRight
-              };
-          }
-          else if (player.animFrame === 15) { // Mid Moon Multi-Hit
-              if (getsuHits > 1) {
-                  player.hasDealtDamage = false; // Allow second hit
-              }
-          }
-          else if (player.animFrame === 22) { // Start Flower (SLAM DOWN)
-              playSound('ka_slash');
-              
-              // Horizontal IMPULSE force
-              const impulse = player.facingRight ? kaSlideForce : -kaSlideForce;
-              player.vx = impulse;
-              
-              player.vy = kaPlungeSpeed; // Slam down speed
-              shakeRef.current = 15;
-              player.hasDealtDamage = false; // Reset for Hit 3
-          }
-          
-          // FLOWER PARTICLES (Continuous Generation during plunge)
-          // Refined logic to favor swirling dispersion towards the end
-          if (player.animFrame >= 22 && player.animFrame <= 45) {
-               for(let i=0; i<kaParticleCount; i++) {
-                  const time = Date.now() / 100;
-                  // Wide scatter
-                  const offsetX = (Math.random() - 0.5) * 100; 
-                  
-                  // Start around player but also a bit high to simulate falling from "moon" height
-                  const startX = player.pos.x + player.width/2 + offsetX;
-                  const startY = player.pos.y - 20 + Math.random() * 60;
-
-                  const dir = player.facingRight ? 1 : -1;
-                  
-                  // Transition probability from Impact to Drift/Swirl
-                  // Early frames (22-30) = Impact
-                  // Late frames (30+) = Soft Drift
-                  const progress = Math.min(1, Math.max(0, (player.animFrame - 22) / 20));
-                  const driftChance = 0.2 + (progress * 0.8); // Starts low, becomes dominant
-
-                  const isDrift = Math.random() < driftChance;
-
-                  let vx, vy, life, size;
-
-                  if (isDrift) {
-                      // SWIRL / FLOATING UP (Part 2)
-                      // Gentle sine wave motion, drifting upwards/outwards
-                      vx = (Math.sin(time + i) * 3) + ((Math.random() - 0.5) * 3);
-                      vy = -Math.random() * 2 - 0.5; // Float UP
-                      life = 1.0 + Math.random() * 1.0; // Longer life
-                      size = Math.random() * 2 + 1;
-                  } else {
-                      // IMPACT (Part 1) - Reduced chaos at end
-                      // This was the "right-down" force. We dampen it heavily as progress increases.
-                      const dampening = 1.0 - progress;
-                      vx = (dir * 5 * dampening) + ((Math.random() - 0.5) * kaTurbulence);
-                      vy = (Math.random() * 4 + 2) * dampening; // Fall down force reduces
-                      life = 0.6 + Math.random() * 0.4;
-                      size = Math.random() * 3 + 2;
-                  }
-
-                  particlesRef.current.push({
-                      x: startX,
-                      y: startY, 
-                      vx: vx, 
-                      vy: vy, 
-                      life: life,
-                      color: Math.random() > 0.5 ? '#fbcfe8' : '#f9a8d4', // Pink / Light Pink
-                      size: size
-                  });
-              }
-          }
-
-          if (player.animFrame >= 0 && player.animFrame <= 7) activeFrames = true; // Hit 1 (Shortened)
-          else if (player.animFrame >= 10 && player.animFrame <= 20) activeFrames = true; // Hit 2 (Hitbox matches jump)
-          else if (player.animFrame >= 22 && player.animFrame <= 32) activeFrames = true; // Hit 3
-      }
-      
-      // Recalculate heavy attack range dynamically
-      let dynamicHeavyReach = heavyRange;
-      if (player.state === 'heavy_attack') {
-          const speed = 2;
-          const t = player.animFrame + (player.animTimer / speed);
-          // Matches visual lerp: lerp(40, maxLen, easeOutQuad(t/6))
-          if (t < 6) {
-              const progress = easeOutQuad(Math.max(0, t/6));
-              dynamicHeavyReach = lerp(40, heavyRange, progress);
-          } else {
-              dynamicHeavyReach = heavyRange;
-          }
-      }
-
-      if (isAttacking && activeFrames && boss && !boss.isDead) {
-          let range = 90; // Default fallback
-          let damage = 10; // Default fallback
-          let interrupt = 0; // Default interrupt capability
-          let isAir = (player.state === 'attack' && player.comboCount === 3); // Check if delayed air attack
-          let isMultiHit = (player.state === 'attack' && player.comboCount === 3);
-
-          if (player.state === 'heavy_attack') {
-              range = dynamicHeavyReach; // Use dynamic calculated range
-              damage = heavyDamage; // Use debug param
-              interrupt = heavyInterrupt;
-          } else if (isAir) {
-              // --- COMBO 3 PARAMETERS ---
-              range = c3Radius; // Use debug param for range
-              const totalHits = 1 + c3ExtraHits;
-              damage = c3TotalDamage / totalHits; // Distribute damage
-              interrupt = c3Interrupt;
-
-              // Multi-hit Reset Logic
-              // Divide total frames into segments. At start of each segment, reset damage.
-              const segmentLen = c3TotalFrames / totalHits;
-              const currentHitIndex = Math.floor(player.animFrame / segmentLen);
-              
-              if (currentHitIndex > c3HitsRef.current) {
-                  player.hasDealtDamage = false;
-                  c3HitsRef.current = currentHitIndex;
-              }
-          } else if (player.state === 'setsugekka') {
-              range = 150; 
-              interrupt = 1; // High stagger default
-              if (player.animFrame <= 8) damage = setsuDamage; // Hit 1
-              else if (player.animFrame <= 20) { damage = getsuDamage; range = 120; } // Hit 2 (Vertical)
-              else { damage = kaDamage; range = 180; } // Hit 3
-          }
-          else if (player.state === 'attack') {
-              if (player.comboCount === 1) { damage = c1Damage; range = 90; interrupt = c1Interrupt; }
-              if (player.comboCount === 2) { damage = c2Damage; range = 110; interrupt = c2Interrupt; }
-              if (player.comboCount === 4) {
-                  damage = c4Damage; // Use Debug Param
-                  range = 180; // Approximate check, actual collision uses sweep
-                  interrupt = c4Interrupt;
-              }
-          }
-          
-          let hit = false;
-
-          // Advanced Collision for Combo 4 (Sweep Detection)
-          if (player.state === 'attack' && player.comboCount === 4) {
-               const speed = 1;
-               const currentT = player.animFrame + (player.animTimer / speed);
-               const prevT = Math.max(5, currentT - 1.0);
-               const sweepSteps = 6; 
-
-               const pivotX = player.pos.x + player.width/2;
-               const pivotY = player.pos.y + player.height - 35;
-               
-               const staffLen = c4Length; // Use max length for sweep check
-               // Adjust checkpoints
-               const checkPoints = [staffLen * 0.3, staffLen * 0.6, staffLen * 0.9, staffLen]; 
-               
-               for (let s = 0; s <= sweepSteps; s++) {
-                   if (hit) break; 
-                   const t = lerp(prevT, currentT, s / sweepSteps);
-                   const angle = getCombo4AngleFromT(t);
-                   
-                   for (const r of checkPoints) {
-                       const dir = player.facingRight ? 1 : -1;
-                       const px = pivotX + (Math.cos(angle) * r * dir);
-                       const py = pivotY + (Math.sin(angle) * r);
-                       if (
-                           px >= boss.pos.x && px <= boss.pos.x + boss.width &&
-                           py >= boss.pos.y && py <= boss.pos.y + boss.height
-                       ) {
-                           hit = true;
-                           if (!player.hasDealtDamage) { 
-                                createParticles(px, py, '#fff', 2, 5);
-                           }
-                           break;
-                       }
-                   }
-               }
-          } 
-          else {
-              const pCx = player.pos.x + player.width/2;
-              const pCy = player.pos.y + player.height/2;
-              const bCx = boss.pos.x + boss.width/2;
-              const bCy = boss.pos.y + boss.height/2;
-
-              if (isAir) {
-                  // Update collision for Combo 3: Include Boss Dimensions
-                  const dist = Math.sqrt(Math.pow(pCx - bCx, 2) + Math.pow(pCy - bCy, 2));
-                  const effectiveRange = range + (Math.min(boss.width, boss.height) / 2);
-                  
-                  if (dist < effectiveRange) hit = true;
-              } else {
-                  let attackBoxX = player.facingRight ? player.pos.x + player.width : player.pos.x - range;
-                  let attackBoxW = range;
-                  let attackBoxY = player.pos.y;
-                  let attackBoxH = player.height;
-
-                  if (player.state === 'heavy_attack') {
-                      const slamReach = range; // range is already dynamicHeavyReach
-                      attackBoxY = player.pos.y + (player.height - 35) - 20; // Center - 20
-                      attackBoxH = 50; // +/- 25px height
-
-                      if (player.facingRight) {
-                          // Start from center of player
-                          attackBoxX = player.pos.x + (player.width / 2);
-                          attackBoxW = slamReach;
-                      } else {
-                          // Start from center and go left
-                          attackBoxX = (player.pos.x + player.width / 2) - slamReach;
-                          attackBoxW = slamReach;
-                      }
-                  }
-                  // Setsugekka Hitbox Adjustments
-                  if (player.state === 'setsugekka') {
-                      if (player.animFrame <= 8) {
-                           // Snow Phase: Dynamic Range & Center Origin
-                           // Visual lerps from 20 to 150 over 6 frames
-                           const progress = Math.min(1, player.animFrame / 6);
-                           const currentRange = lerp(20, 150, easeOutQuad(progress));
-                           
-                           attackBoxW = currentRange;
-                           
-                           // Start from Center of player (Visual origin)
-                           if (player.facingRight) {
-                               attackBoxX = player.pos.x + player.width / 2;
-                           } else {
-                               attackBoxX = (player.pos.x + player.width / 2) - currentRange;
-                           }
-                           
-                           // Vertical focus (Horizontal slash)
-                           const slashCenterY = player.pos.y + player.height - 35;
-                           attackBoxY = slashCenterY - 25; // +/- 25px forgiveness
-                           attackBoxH = 50;
-                      } else if (player.animFrame > 10) {
-                           // Moon/Flower hits are taller
-                           attackBoxY = player.pos.y - 50;
-                           attackBoxH = player.height + 100; 
-                      }
-                  }
-
-                  if (
-                    attackBoxX < boss.pos.x + boss.width &&
-                    attackBoxX + attackBoxW > boss.pos.x &&
-                    attackBoxY < boss.pos.y + boss.height &&
-                    attackBoxY + attackBoxH > boss.pos.y
-                  ) {
-                      hit = true;
-                  }
-              }
-          }
-
-          if (hit) {
-              if (isAir) {
-                  player.hasHitInAir = true;
-              }
-
-              let shouldRegisterHit = false;
-              if (isMultiHit || player.state === 'setsugekka') { 
-                   if (!player.hasDealtDamage) {
-                       shouldRegisterHit = true;
-                   }
-              } else {
-                   if (!player.hasDealtDamage) {
-                       shouldRegisterHit = true;
-                   }
-              }
-
-              if (shouldRegisterHit) { 
-                 // INFINITE HEALTH LOGIC (INTERCEPT BEFORE APPLYING DAMAGE)
-                 if (infiniteHealth && boss.health - damage <= 0) {
-                     boss.health = boss.maxHealth; 
-                     // Do not apply damage that kills
-                 } else {
-                     boss.health -= damage;
-                 }
-
-                 const isHeavyHit = player.state === 'heavy_attack' || player.comboCount === 4 || player.state === 'setsugekka';
-
-                 if (boss.isImmobilized) {
-                    boss.immobilizeDamageTaken = (boss.immobilizeDamageTaken || 0) + damage;
-
-                    if (boss.immobilizeDamageTaken > IMMOBILIZE_BREAK_THRESHOLD) {
-                        boss.isImmobilized = false;
-                        boss.immobilizeDamageTaken = 0;
-                        boss.immobilizeTimer = 0;
-
-                        playSound('break_spell'); 
-                        shakeRef.current = 25; 
-                        
-                        for(let i=0; i<25; i++) {
-                            particlesRef.current.push({
-                                x: boss.pos.x + boss.width/2,
-                                y: boss.pos.y + boss.height/2,
-                                vx: (Math.random() - 0.5) * 18,
-                                vy: (Math.random() - 0.5) * 18,
-                                life: 1.2,
-                                color: '#fbbf24',
-                                size: Math.random() * 4 + 3
-                            });
-                        }
-
-                        boss.state = 'hit';
-                        boss.animFrame = 0;
-                        boss.vx = player.facingRight ? 8 : -8; 
-
-                        let stopDuration = 10;
-                        if (isHeavyHit) stopDuration = 15;
-                        else if (isMultiHit) stopDuration = 8;
-                        
-                        const finalStun = Math.max(stopDuration, 18);
-                        player.hitStop = finalStun;
-                        boss.hitStop = finalStun;
-
-                    } else {
-                        playSound(isHeavyHit ? 'hit_heavy' : 'hit');
-                        shakeRef.current = 5;
-                        createParticles(boss.pos.x + boss.width/2, boss.pos.y + boss.height/2, '#fbbf24', 8, 5);
-                        
-                        player.hitStop = 3;
-                        boss.hitStop = 3;
-                    }
-                 } else {
-                     let kForce = 0; 
-                     if (player.comboCount === 4) kForce = c4Knockback; // Use Debug Param
-                     if (player.state === 'heavy_attack') kForce = heavyKnockback; // Use Debug Param
-                     if (player.state === 'setsugekka') kForce = 12;
-
-                     boss.vx = player.facingRight ? kForce : -kForce;
-                     
-                     let stopDuration = 10; 
-                     let shakeInt = 5;
-
-                     // Should Stagger Check replaced with interrupt Logic
-                     const shouldStagger = interrupt > 0;
-
-                     if (player.state === 'heavy_attack') {
-                         stopDuration = heavyStun; // Use Debug Param
-                         shakeInt = heavyShake; // Use Debug Param
-                         createParticles(boss.pos.x + boss.width/2, boss.pos.y + boss.height, '#fff', 20, 15);
-                     } else if (player.comboCount === 4) {
-                         stopDuration = c4Stun; // Use Debug Param
-                         shakeInt = c4Shake; // Use Debug Param
-                         createParticles(boss.pos.x + boss.width/2, boss.pos.y + boss.height, '#fff', 20, 15);
-                     } else if (isMultiHit) {
-                         if (player.comboCount === 3) {
-                             stopDuration = c3Stun; // Use debug param for stun
-                             shakeInt = 2; 
-                         } else {
-                             stopDuration = 8; 
-                             shakeInt = 5;
-                         }
-                     } else if (player.state === 'setsugekka') {
-                         // Override stun logic for Moon phase (Frames 10-20)
-                         if (player.animFrame >= 10 && player.animFrame <= 20) {
-                             stopDuration = getsuStun;
-                             shakeInt = 2;
-                         } else if (player.animFrame > 20) {
-                             // Flower Phase
-                             stopDuration = kaStun;
-                             shakeInt = 10;
-                         } else {
-                             // Snow Phase
-                             stopDuration = 15; 
-                             shakeInt = 10;
-                         }
-                         createParticles(boss.pos.x + boss.width/2, boss.pos.y + boss.height, '#fff', 15, 10);
-                     } else if (player.comboCount === 1) {
-                         stopDuration = c1Stun; 
-                         shakeInt = c1Shake;
-                     } else if (player.comboCount === 2) {
-                         stopDuration = c2Stun;
-                         shakeInt = c2Shake;
-                     }
-
-                     // Apply Stagger if configured
-                     if (shouldStagger) {
-                         boss.state = 'hit';
-                         boss.animTimer = 0;
-                         boss.animFrame = 0; // Reset animation
-                     }
-
-                     player.hitStop = stopDuration; 
-                     boss.hitStop = stopDuration;
-
-                     // Apply flash (unless immobilized)
-                     if (!boss.isImmobilized) {
-                         boss.flashTimer = 6;
-                     }
-
-                     shakeRef.current = shakeInt; 
-                     
-                     playSound(isHeavyHit ? 'hit_heavy' : 'hit');
-                 }
-
-                 setBossHealth(boss.health);
-                 
-                 const pColor = (player.state === 'heavy_attack' || player.comboCount === 4 || player.state === 'setsugekka') ? '#ef4444' : '#fbbf24';
-                 createParticles(boss.pos.x + boss.width/2, boss.pos.y + boss.height/2, pColor, 12); 
-                 
-                 setScore(s => s + Math.floor(damage));
-                 
-                 if (isMultiHit || player.state === 'setsugekka') {
-                     if (player.comboCount === 3) {
-                         player.attackCooldown = 11;
-                     } else {
-                         player.attackCooldown = 18; 
-                     }
-                     player.hasDealtDamage = true; // Set flag to wait for next reset cycle
-                 } else {
-                     player.hasDealtDamage = true;
-                  }
-              }
-          }
-      }
-
-      player.animTimer++;
-
-      if (player.state === 'hit') {
-          if (player.animFrame > 3) {
-              player.state = 'idle';
-              player.animFrame = 0;
-          }
-      }
-      else if (player.state === 'dodge' && player.animFrame >= 4) {
-        player.state = 'idle';
-      }
-      else if (player.state === 'heavy_attack' && player.animFrame >= 8) {
-         player.state = 'idle';
-      }
-      else if (player.state === 'plunge_end' && player.animFrame > 10) {
-          player.state = 'idle';
-          player.animFrame = 0;
-      }
-      else if (player.state === 'setsugekka' && player.animFrame > 55) { // Extended for Atmosphere Window (was 45)
-          player.state = 'idle';
-          player.animFrame = 0;
-          setsuMoonSnapshotRef.current = null; // Reset snapshot
-      }
-      else if (isAttacking && player.attackCooldown <= 0 && !isFinisher && player.state !== 'heavy_attack' && player.comboCount !== 3 && player.state !== 'setsugekka') {
-        player.state = 'idle';
-        player.comboWindow = COMBO_WINDOW_FRAMES;
-      }
-      else if (player.state !== 'dodge' && !isAttacking && !isPlunge && player.state !== 'sheathe_charge') {
-        if (!onGround) {
-           player.state = player.vy > 0 ? 'fall' : 'jump';
-        } else if (Math.abs(player.vx) > 0.1) {
-           player.state = 'run';
-        } else {
-           player.state = 'idle';
-        }
-      }
-      
-      if (player.state === 'attack' && player.comboCount === 3) {
-           // DYNAMIC LIMIT for Combo 3
-           const limit = c3TotalFrames; 
-           
-           if (player.animFrame > limit) { 
-               player.state = 'attack';
-               player.comboCount = 4;
-               player.vy = -5; 
-               // Apply slide speed from debug params
-               player.vx = player.facingRight ? c4SlideSpeed : -c4SlideSpeed;
-               player.attackCooldown = 30;
-               player.animFrame = 0;
-               player.animTimer = 0;
-               player.hasDealtDamage = false;
-               playSound('attack_heavy');
-           }
-      }
-      if (isFinisher && player.animFrame >= 20) {
-          player.state = 'idle';
-          player.comboWindow = COMBO_WINDOW_FRAMES;
-      }
-
-      let animSpeed = 8;
-      if (player.state === 'run') animSpeed = 5;
-      if (player.state === 'attack') {
-          if (player.comboCount === 3) animSpeed = 1; 
-          else if (player.comboCount === 4) animSpeed = 1; 
-          else animSpeed = 3; 
-      }
-      if (player.state === 'heavy_attack') animSpeed = 2; 
-      if (player.state === 'dodge') animSpeed = 3;
-      if (player.state === 'hit') animSpeed = 10;
-      if (player.state === 'plunge') animSpeed = 4;
-      if (player.state === 'plunge_end') animSpeed = 2;
-      if (player.state === 'setsugekka') animSpeed = 2;
-      
-      if (player.animTimer > animSpeed) {
-        player.animFrame++;
-        player.animTimer = 0;
-      }
-      
-      if (player.dodgeCooldown < 30) {
-         setStamina(s => Math.min(100, s + 0.5));
-      }
-    }
-
-    // --- 2. Boss Logic ---
-    if (boss && !boss.isDead) {
-      if (boss.hitStop > 0) {
-          boss.hitStop--;
-          // Check immobilize timer even during hitstop to prevent indefinite extension
-          if (boss.isImmobilized && boss.immobilizeTimer > 0) boss.immobilizeTimer--; 
-      } 
-      if (boss.flashTimer && boss.flashTimer > 0) {
-          boss.flashTimer--;
-      }
-
-      if (boss.hitStop <= 0 && boss.isImmobilized) {
-          // Immobilized Logic: Freezes Physics and Animation
-          if (boss.immobilizeTimer && boss.immobilizeTimer > 0) {
-            boss.immobilizeTimer--;
-            const flickerRate = 10;
-            if (boss.immobilizeTimer % flickerRate === 0) {
-                createParticles(boss.pos.x + Math.random()*boss.width, boss.pos.y + Math.random()*boss.height, '#fbbf24', 1, 1);
-            }
-          } else {
-            boss.isImmobilized = false;
-          }
-      }
-      else if (boss.hitStop <= 0) {
-          // Only apply AI Decision overrides if not reacting to damage
-          const isReacting = boss.state === 'hit'; // Immobilize check handled in branch above
-          
-          if (!isReacting) {
-              // Debug Behavior Override
-              if (bossBehavior === 'idle') {
-                  if (boss.state !== 'idle') {
-                      boss.state = 'idle';
-                      boss.vx = 0;
-                  }
-                  boss.attackCooldown = 60;
-              } 
-              else if (bossBehavior === 'kowtow') {
-                  // Force kowtow loop
-                  if (boss.state !== 'kowtow_attack') {
-                      boss.state = 'kowtow_attack';
-                      boss.animFrame = 0;
-                      boss.animTimer = 0;
-                      boss.vx = 0;
-                  }
-              }
-              else if (bossBehavior === 'patrol') {
-                  // Patrol Logic: Walk back and forth
-                  if (boss.state === 'attack' || boss.state === 'jump_smash' || boss.state === 'kowtow_attack') {
-                      // If actively attacking, let it finish
-                  } else {
-                      boss.state = 'run';
-                      const patrolCenter = 600;
-                      if (boss.pos.x < patrolCenter - bossPatrolRange) {
-                          boss.facingRight = true;
-                      } else if (boss.pos.x > patrolCenter + bossPatrolRange) {
-                          boss.facingRight = false;
-                      }
-                      
-                      boss.vx = boss.facingRight ? bossPatrolSpeed : -bossPatrolSpeed;
-                  }
-              }
-              else if (bossBehavior === 'jump_loop') {
-                  // Jump Loop Logic
-                  if (boss.state !== 'jump_smash' && boss.state !== 'attack' && boss.state !== 'hit' && boss.state !== 'idle') {
-                      boss.state = 'idle';
-                      boss.vx = 0;
-                  }
-
-                  if (boss.state === 'idle') {
-                      boss.vx = 0; 
-                      
-                      if (boss.attackCooldown <= 0) {
-                          boss.state = 'jump_smash';
-                          boss.vy = -22; 
-                          boss.vx = 0;
-                          
-                          boss.attackCooldown = 160; 
-                      }
-                  }
-              }
-          }
-
-          if (boss.state !== 'kowtow_attack' && bossBehavior !== 'patrol' && bossBehavior !== 'jump_loop') {
-                boss.facingRight = player.pos.x > boss.pos.x;
-          }
-
-          const distance = Math.abs(player.pos.x - boss.pos.x);
-          const PREFERRED_DISTANCE = 220;
-            
-          if (bossBehavior === 'normal') {
-                const isBusy = ['attack', 'jump_smash', 'hit', 'kowtow_attack'].includes(boss.state);
-                if (!isBusy) {
-                    if (boss.attackCooldown <= 0) {
-                        boss.state = 'kowtow_attack';
-                        boss.animFrame = 0;
-                        boss.animTimer = 0;
-                        boss.vx = 0; 
-                    }
-                }
-          }
-
-          if (boss.state === 'kowtow_attack') {
-                if (Math.abs(boss.vx) > 0.1) boss.vx *= 0.8;
-                else boss.vx = 0;
-
-                const IMPACT_FRAME = 6; // Increased windup
-                
-                if (boss.animFrame === IMPACT_FRAME && boss.animTimer === 0) { 
-                    playSound('hit_heavy');
-                    shakeRef.current = 15;
-                    
-                    const headX = boss.facingRight ? boss.pos.x + boss.width + 40 : boss.pos.x - 40;
-                    const headY = GROUND_Y;
-                    
-                    createParticles(headX, headY, '#a855f7', 8, 12); 
-                    createParticles(headX, headY, '#ffffff', 8, 8); 
-                    
-                    const shockwaveRange = 150;
-                    const particleLifeFrames = 20;
-                    const swSpeed = shockwaveRange / particleLifeFrames; 
-                    
-                    for(let i=0; i<12; i++) { 
-                        particlesRef.current.push({
-                            x: headX, 
-                            y: headY - 2,
-                            vx: swSpeed * (0.8 + Math.random() * 0.4), 
-                            vy: (Math.random() - 0.5) * 2 - 1, 
-                            life: 1.0,
-                            color: i % 2 === 0 ? 'rgba(120, 113, 108, 0.8)' : 'rgba(168, 162, 158, 0.5)', 
-                            size: 2 + Math.random() * 4 
-                        });
-                        particlesRef.current.push({
-                            x: headX, 
-                            y: headY - 2,
-                            vx: -swSpeed * (0.8 + Math.random() * 0.4),
-                            vy: (Math.random() - 0.5) * 2 - 1,
-                            life: 1.0,
-                            color: i % 2 === 0 ? 'rgba(120, 113, 108, 0.8)' : 'rgba(168, 162, 158, 0.5)',
-                            size: 2 + Math.random() * 4
-                        });
-                    }
-                    
-                    const range = shockwaveRange; 
-                    const dist = Math.abs((player.pos.x + player.width/2) - headX);
-                    const vertDist = Math.abs((player.pos.y + player.height) - headY);
-                    
-                    if (dist < range && vertDist < 40 && player.state !== 'dodge') {
-                        if (infinitePlayerHealth && player.health - BOSS_KOWTOW_DAMAGE <= 0) {
-                            player.health = player.maxHealth;
-                        } else {
-                            player.health -= BOSS_KOWTOW_DAMAGE;
-                        }
-
-                        player.state = 'hit';
-                        player.hitStop = 15;
-                        player.vy = -10; 
-                        player.vx = boss.facingRight ? 8 : -8; 
-                        setPlayerHealth(player.health);
-                        createParticles(player.pos.x, player.pos.y, '#ef4444', 8);
-                        if (player.health <= 0) {
-                            player.isDead = true;
-                            setGameState(GameState.GAME_OVER);
-                        }
-                    }
-                }
-
-                if (boss.animFrame > 16) { // Extended recovery
-                    boss.state = 'idle';
-                    boss.animFrame = 0;
-                    boss.attackCooldown = 60; 
-                    if (bossBehavior === 'kowtow') boss.attackCooldown = 0; 
-                }
-          }
-          else if (boss.state !== 'hit') {
-                if (bossBehavior === 'normal') {
-                    if (boss.state === 'run' && distance < 250 && distance > 100 && Math.random() < 0.02 && boss.attackCooldown <= 0) {
-                        boss.state = 'jump_smash'; 
-                        boss.vy = -15; 
-                        boss.vx = boss.facingRight ? 8 : -8;
-                        boss.attackCooldown = 150;
-                    }
-                    else if (boss.state === 'run') {
-                        if (distance < 350 && distance > 200 && Math.random() < 0.05) {
-                            boss.state = 'standoff';
-                            boss.animTimer = 0;
-                        }
-                        if (distance < PREFERRED_DISTANCE) {
-                            boss.state = 'standoff';
-                        }
-                    }
-                }
-
-                if (boss.state === 'jump_smash') {
-                    if (boss.pos.y + boss.height >= GROUND_Y) {
-                        boss.state = 'attack'; 
-                        shakeRef.current = 10;
-                        createParticles(boss.pos.x + boss.width/2, GROUND_Y, '#581c87', 10);
-                        
-                        const attackDist = Math.abs((player.pos.x + player.width/2) - (boss.pos.x + boss.width/2));
-                        const smashRange = 150;
-                        
-                        if (attackDist < smashRange && player.pos.y + player.height >= GROUND_Y - 20 && player.state !== 'dodge') {
-                            const dmg = BOSS_DAMAGE * 1.5;
-                            if (infinitePlayerHealth && player.health - dmg <= 0) {
-                                player.health = player.maxHealth;
-                            } else {
-                                player.health -= dmg;
-                            }
-
-                            player.vx = boss.facingRight ? 15 : -15;
-                            player.vy = -5;
-                            player.state = 'hit';
-                            player.hitStop = 12; 
-                            boss.hitStop = 8; 
-                            setPlayerHealth(player.health);
-                            if (player.health <= 0) {
-                                player.isDead = true;
-                                setGameState(GameState.GAME_OVER);
-                            }
-                        }
-                        setTimeout(() => { if(boss.state === 'attack') boss.state = 'idle'; }, 500);
-                    }
-                }
-                else if (bossBehavior === 'normal') {
-                    if (boss.state === 'standoff') {
-                        const diff = distance - PREFERRED_DISTANCE;
-                        const tolerance = 30; 
-                        if (diff < -tolerance) {
-                            boss.vx = boss.facingRight ? -1.5 : 1.5;
-                            boss.state = 'run'; 
-                        } else if (diff > tolerance) {
-                            boss.vx = boss.facingRight ? 1.0 : -1.0;
-                            boss.state = 'run'; 
-                        } else {
-                            boss.vx = 0;
-                            if (Math.random() < 0.01) boss.state = 'idle'; 
-                        }
-                    }
-                    else if (boss.state !== 'attack') {
-                        if (distance > 350) {
-                            boss.vx += boss.facingRight ? 0.2 : -0.2;
-                            boss.vx = Math.max(Math.min(boss.vx, 2), -2);
-                            boss.state = 'run';
-                        } else {
-                            boss.state = 'standoff';
-                        }
-                    }
-                }
-            } else if (boss.state === 'hit') {
-                boss.vx *= 0.9;
-                if (Math.abs(boss.vx) < 0.1) boss.state = 'idle';
-                if (boss.state === 'hit' && boss.animTimer > 20) {
-                    boss.state = 'idle';
-                }
-            }
-          
-            // Physics Calculation (Moved to else block to freeze on immobilize)
-            if (boss.attackCooldown > 0) boss.attackCooldown--;
-            boss.vy += GRAVITY;
-            boss.pos.x += boss.vx;
-            boss.pos.y += boss.vy;
-            
-            if (boss.pos.y + boss.height > GROUND_Y) {
-                boss.pos.y = GROUND_Y - boss.height;
-                boss.vy = 0;
-            }
-            boss.pos.x = Math.max(0, Math.min(boss.pos.x, 1200 - boss.width));
-
-            // Animation Update (Moved to else block to freeze on immobilize)
-            let bossAnimSpeed = 10;
-            if (boss.state === 'kowtow_attack') bossAnimSpeed = 6; 
-            if (boss.state === 'hit') bossAnimSpeed = 5;
-            if (bossBehavior === 'patrol') bossAnimSpeed = 8;
-            
-            boss.animTimer++;
-            if (boss.animTimer > bossAnimSpeed) {
-                boss.animFrame++;
-                boss.animTimer = 0;
-            }
-      }
-    }
-      
-    if (boss.health <= 0) {
-        if (infiniteHealth) {
-             // Already handled in collision, but safe fallback check
-             boss.health = boss.maxHealth;
-             setBossHealth(boss.maxHealth);
-        } else {
-            boss.isDead = true;
-            setGameState(GameState.VICTORY);
-        }
-    }
-
-    if (boss && !boss.isDead && !player.isDead) {
-        resolveEntityCollision(player, boss);
-    }
-
-    for (let i = particlesRef.current.length - 1; i >= 0; i--) {
-      const p = particlesRef.current[i];
-      p.x += p.vx;
-      p.y += p.vy;
-      p.life -= 0.05;
-      if (p.life <= 0) particlesRef.current.splice(i, 1);
-    }
-
-    if (Math.random() < 0.1) {
-         particlesRef.current.push({
-            x: cameraXRef.current + Math.random() * 800,
-            y: Math.random() * 450,
-            vx: (Math.random() - 0.5) * 0.5,
-            vy: -Math.random() * 1,
-            life: 2.0,
-            color: '#4b5563', 
-            size: Math.random() * 2
-         });
-    }
-
-    let targetCamX = player.pos.x - 150;
-    const VIEWPORT_W = LOGICAL_WIDTH;
-    
-    if (boss && !boss.isDead) {
-        const dist = Math.abs(boss.pos.x - player.pos.x);
-        if (dist < VIEWPORT_W) {
-            const midX = (player.pos.x + boss.pos.x) / 2;
-            const idealCamX = midX - VIEWPORT_W / 2;
-            const MARGIN = 150;
-            const minCamX = player.pos.x - (VIEWPORT_W - MARGIN); 
-            const maxCamX = player.pos.x - MARGIN;                
-            targetCamX = Math.max(minCamX, Math.min(idealCamX, maxCamX));
-        }
-    }
-
-    cameraXRef.current += (targetCamX - cameraXRef.current) * 0.1;
-    cameraXRef.current = Math.max(0, Math.min(cameraXRef.current, 600)); 
-
-  }, [gameState, setGameState, setPlayerHealth, setBossHealth, setStamina, setScore, playSound]);
-
-  // --- Drawing Helpers ---
-  const drawRect = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, color: string) => {
-    ctx.fillStyle = color;
-    ctx.fillRect(Math.round(x), Math.round(y), w, h);
-  };
-
-  const drawPlayer = (ctx: CanvasRenderingContext2D, p: Entity) => {
-    const { width: w, height: h, state, animFrame, comboCount, hitStop } = p;
-    const { 
-        fanFade, fanBrightness, fanDensity, fanOpacity,
-        c3Radius, c3Width, c3Glow, c3Density, c3Opacity, c3Speed,
-        c3BgBrightness, c3BgOpacity, c3BlurSteps, c3BlurFade,
-        c4Length,
-        heavyRange, heavyWidth, heavyGlow, heavyOpacity,
-        kColor,
-        getsuSize, getsuFade
-    } = debugParamsRef.current;
-    
-    // Using speed=1 for combo count 4 to match update logic
-    let speed = 8;
-    if (p.state === 'run') speed = 5;
-    if (p.state === 'attack') {
-        if (p.comboCount === 3) speed = 1; 
-        else if (p.comboCount === 4) speed = 1; 
-        else speed = 3; 
-    }
-    if (p.state === 'heavy_attack') speed = 2;
-    if (p.state === 'dodge') speed = 3;
-    if (p.state === 'hit') speed = 10;
-    if (p.state === 'setsugekka') speed = 2;
-    
-    const smoothT = Math.min(1, p.animTimer / speed);
-    const smoothFrame = animFrame + smoothT;
-
-    ctx.save();
-    
-    let shakeX = 0;
-    let shakeY = 0;
-    if (state === 'hit' && hitStop > 0) {
-        shakeX = (Math.random() - 0.5) * 4;
-        shakeY = (Math.random() - 0.5) * 4;
-    }
-    // Shake during Sheathe charge
-    if (state === 'sheathe_charge') {
-        shakeX = (Math.random() - 0.5) * 1;
-        shakeY = (Math.random() - 0.5) * 1;
-    }
-    
-    ctx.translate(Math.round(p.pos.x + w / 2 + shakeX), Math.round(p.pos.y + h + shakeY));
-    if (!p.facingRight) {
-        ctx.scale(-1, 1);
-    }
-
-    const cFur = '#8d5c2a';
-    const cArmor = '#d97706'; 
-    const cCloth = '#1c1917'; 
-    const cRed = '#dc2626'; 
-    const cSkin = '#fcd34d';
-    const cGold = '#fbbf24'; 
-    const cStaff = '#262626';
+    const cFur = '#8d5c2a';
+    const cArmor = '#d97706'; 
+    const cCloth = '#1c1917'; 
+    const cRed = '#dc2626'; 
+    const cSkin = '#fcd34d';
+    const cGold = '#fbbf24'; 
+    const cStaff = '#262626';
 
     if (state === 'idle') {
         const bob = Math.sin(Date.now() / 200) * 1; 
@@ -2350,6 +1329,61 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         }
         ctx.restore();
     }
+    else if (state === 'rock_solid') {
+        // Turned to stone mid-guard
+        const cStone = '#78716c';
+        const cStoneLight = '#a8a29e';
+        drawRect(ctx, -14, -44, 10, 30, cStone); 
+        drawRect(ctx, -9, -36, 18, 24, cStoneLight); 
+        drawRect(ctx, -6, -46, 14, 12, cStone); 
+        drawRect(ctx, -4, -44, 9, 8, cStoneLight);
+        drawRect(ctx, -6, -14, 6, 14, cStone);
+        drawRect(ctx, 4, -14, 6, 14, cStone);
+        drawRect(ctx, 8, -56, 4, 56, cStone);
+    }
+    else if (state === 'drink') {
+        // Head tipped back, gourd raised to the mouth; glows green while the healing flows
+        const t = p.drinkTimer || 0;
+        const raise = Math.min(1, t / 12);
+        drawRect(ctx, -14, -42, 12, 30, cRed); 
+        drawRect(ctx, -9, -36, 18, 24, cArmor); 
+        drawRect(ctx, -7, -46, 14, 12, cFur); 
+        drawRect(ctx, -5, -45, 9, 8, cSkin);
+        drawRect(ctx, -6, -14, 6, 14, cCloth);
+        drawRect(ctx, 4, -14, 6, 14, cCloth);
+        drawRect(ctx, -22, -34, 16, 4, cStaff); // Staff slung at the side
+
+        const gx = lerp(8, 4, raise);
+        const gy = lerp(-24, -50, raise);
+        if (t >= GOURD_HEAL_START && t < GOURD_HEAL_START + GOURD_HEAL_TICKS) {
+            ctx.shadowColor = '#4ade80';
+            ctx.shadowBlur = 12;
+        }
+        drawRect(ctx, gx, gy, 8, 8, '#b45309'); // Gourd body
+        drawRect(ctx, gx + 2, gy - 5, 4, 5, '#92400e'); // Neck
+        ctx.shadowBlur = 0;
+        drawRect(ctx, gx - 2, gy + 4, 5, 5, cSkin); // Hand
+    }
+    else if (state === 'parry') {
+        // Braced stance, staff held crosswise in front; glows while the deflect window is open
+        const isDeflecting = (p.parryFrame || 0) < debugParamsRef.current.parryWindow;
+        drawRect(ctx, -14, -44, 10, 30, cRed); 
+        drawRect(ctx, -9, -36, 18, 24, cArmor); 
+        drawRect(ctx, -6, -46, 14, 12, cFur); 
+        drawRect(ctx, -4, -44, 9, 8, cSkin);
+        drawRect(ctx, -6, -14, 6, 14, cCloth);
+        drawRect(ctx, 4, -14, 6, 14, cCloth);
+
+        ctx.save();
+        ctx.translate(12, -32);
+        ctx.rotate(-0.25);
+        if (isDeflecting) {
+            ctx.shadowColor = cGold;
+            ctx.shadowBlur = 12;
+        }
+        drawRect(ctx, -2, -28, 4, 56, isDeflecting ? cGold : cStaff);
+        ctx.restore();
+    }
     else if (state === 'run') {
         const cycle = animFrame % 4; 
         const legL = cycle === 0 ? -8 : (cycle === 2 ? 8 : 0);
@@ -2589,6 +1623,58 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
             ctx.fill();
             ctx.restore();
         }
+        else if (comboCount === 4 && p.stance === 'pillar') {
+            // Vault kick: spin up off the planted staff
+            const t = smoothFrame;
+            const radius = debugParamsRef.current.pillarFinisherRadius;
+            drawRect(ctx, 14, -60 + Math.min(20, t * 2), 4, 60, cStaff);
+
+            ctx.save();
+            ctx.translate(0, -25);
+            ctx.rotate(Math.min(1, t / 10) * Math.PI * 2);
+            drawRect(ctx, -14, -23, 8, 30, cRed);
+            drawRect(ctx, -9, -13, 18, 25, cArmor);
+            drawRect(ctx, -7, -23, 14, 12, cFur);
+            drawRect(ctx, 9, 0, 16, 6, cArmor); // Kicking leg
+            ctx.restore();
+
+            if (t >= 5 && t <= 10) {
+                ctx.save();
+                ctx.globalCompositeOperation = 'lighter';
+                ctx.strokeStyle = cGold;
+                ctx.shadowColor = '#f59e0b';
+                ctx.shadowBlur = 15;
+                ctx.globalAlpha = 1 - (t - 5) / 5;
+                ctx.lineWidth = 3;
+                ctx.beginPath();
+                ctx.arc(0, -h / 2, radius, 0, Math.PI * 2);
+                ctx.stroke();
+                ctx.restore();
+            }
+        }
+        else if (comboCount === 4 && p.stance === 'thrust') {
+            // Lunging poke at full extension
+            const t = smoothFrame;
+            const maxLen = debugParamsRef.current.thrustFinisherRange;
+            const len = t < 5 ? lerp(20, 50, t / 5) : t <= 10 ? lerp(50, maxLen, easeOutQuad(Math.min(1, (t - 5) / 2))) : lerp(maxLen, 40, Math.min(1, (t - 10) / 10));
+
+            ctx.save();
+            ctx.rotate(0.35);
+            drawRect(ctx, -18, -45, 10, 30, cRed);
+            drawRect(ctx, -9, -35, 18, 25, cArmor);
+            drawRect(ctx, -5, -45, 14, 12, cFur);
+            drawRect(ctx, -3, -43, 9, 8, cSkin);
+            ctx.restore();
+
+            drawRect(ctx, -10, -30, len, 5, cStaff);
+            if (t >= 5 && t <= 10) {
+                ctx.save();
+                ctx.shadowColor = '#f59e0b';
+                ctx.shadowBlur = 15;
+                drawRect(ctx, len - 16, -31, 16, 7, cGold);
+                ctx.restore();
+            }
+        }
         else if (comboCount === 4) {
             const t = smoothFrame; 
 
@@ -2657,11 +1743,11 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
             }
 
             // Render interpolated trails
-            if (combo4TrailsRef.current.length > 0) {
+            if (world.combo4Trails.length > 0) {
                 // Use 'lighten' composition to prevent ugly dark overlaps
                 ctx.globalCompositeOperation = 'lighten';
                 
-                combo4TrailsRef.current.forEach(trail => {
+                world.combo4Trails.forEach(trail => {
                      ctx.save();
                      ctx.rotate(trail.angle);
                      
@@ -2686,6 +1772,49 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
             ctx.restore();
         }
     }
+    else if (state === 'heavy_attack' && p.stance === 'pillar') {
+        // Crouched on top of the planted staff, then riding it down
+        const dropping = getPillarPhase(p, debugParamsRef.current) === 'drop';
+        const poleLen = Math.max(0, GROUND_Y - (p.pos.y + h));
+        if (!dropping) drawRect(ctx, -2, 0, 4, poleLen, cStaff);
+
+        drawRect(ctx, -14, -36, 10, 26, cRed);
+        drawRect(ctx, -9, -30, 18, 22, cArmor);
+        drawRect(ctx, -7, -40, 14, 12, cFur);
+        drawRect(ctx, -6, -38, 9, 8, cSkin);
+        drawRect(ctx, -3, -12, 6, 12, cStaff);
+
+        if (dropping) {
+            ctx.save();
+            ctx.shadowColor = '#f59e0b';
+            ctx.shadowBlur = 20;
+            drawRect(ctx, -2, -10, 4, 60, cGold);
+            ctx.restore();
+        }
+    }
+    else if (state === 'heavy_attack' && p.stance === 'thrust') {
+        // Long poke: the staff shoots out to full reach and snaps back
+        const t = Math.min(6, smoothFrame);
+        const maxLen = getThrustRange(debugParamsRef.current, p.focusSpent || 0);
+        const len = t < 2 ? lerp(30, 60, t / 2) : t <= 4 ? lerp(60, maxLen, easeOutQuad((t - 2) / 2)) : lerp(maxLen, 40, (t - 4) / 2);
+
+        ctx.save();
+        ctx.rotate(0.3);
+        drawRect(ctx, -14, -46, 10, 30, cRed);
+        drawRect(ctx, -9, -36, 18, 26, cArmor);
+        drawRect(ctx, -7, -46, 14, 12, cFur);
+        drawRect(ctx, -6, -44, 9, 8, cSkin);
+        ctx.restore();
+
+        drawRect(ctx, -10, -33, len, 5, cStaff);
+        ctx.save();
+        ctx.globalCompositeOperation = 'lighter';
+        ctx.shadowColor = '#f59e0b';
+        ctx.shadowBlur = 25 * heavyGlow;
+        ctx.globalAlpha = heavyOpacity;
+        drawRect(ctx, len - 20, -34, 20, 7, cGold);
+        ctx.restore();
+    }
     else if (state === 'heavy_attack') {
         const t = Math.min(8, smoothFrame);
         
@@ -2694,7 +1823,11 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         drawRect(ctx, -10, -38, 20, 38, cArmor);
         ctx.restore();
         
-        const maxLen = heavyRange; // Use debug param for length
+        // Each Focus pip spent lengthens, thickens and brightens the beam
+        const pips = p.focusSpent || 0;
+        const maxLen = getHeavyRange(debugParamsRef.current, pips);
+        const beamWidth = heavyWidth * (1 + pips * 0.25);
+        const beamGlow = heavyGlow * (1 + pips * 0.5);
         let currentLen = 40;
         if (t < 6) currentLen = lerp(40, maxLen, easeOutQuad(t/6)); 
         else currentLen = maxLen;
@@ -2706,13 +1839,13 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         ctx.globalAlpha = heavyOpacity;
         
         // Apply Glow/Brightness via Lighter + Shadow
-        if (heavyGlow > 0) {
-             ctx.shadowBlur = 25 * heavyGlow;
+        if (beamGlow > 0) {
+             ctx.shadowBlur = 25 * beamGlow;
              ctx.fillStyle = '#fbbf24'; 
         }
 
         // Start from center of player and draw
-        drawRect(ctx, 0, -35, currentLen, heavyWidth, cGold);
+        drawRect(ctx, 0, -35, currentLen, beamWidth, cGold);
         
         ctx.globalCompositeOperation = 'source-over';
         ctx.shadowBlur = 0;
@@ -2763,7 +1896,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         // 2. MOON (Vertical Crescent Up) - STATIC WORLD POSITION
         // Draw up until frame 20 + getsuFade
         if (t >= 10 && t <= 20 + getsuFade) {
-            const snapshot = setsuMoonSnapshotRef.current;
+            const snapshot = world.setsuMoonSnapshot;
             if (snapshot) {
                 ctx.save();
                 
@@ -2908,30 +2041,279 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
     ctx.restore();
   };
 
-  // --- Drawing ---
-  const draw = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+  // Bosses are drawn from their BossDefinition: palette, size and move frame data
+  const drawBoss = (ctx: CanvasRenderingContext2D, b: Entity) => {
+    const def = getBossDefinition(b.defId);
+    const palette = getPhasePalette(def, b.phaseIndex || 0);
+    const bx = b.pos.x;
+    const by = b.pos.y;
+    
+    ctx.fillStyle = 'rgba(0,0,0,0.5)';
+    ctx.beginPath();
+    ctx.ellipse(bx + b.width/2, by + b.height, b.width/1.5, 10, 0, 0, Math.PI*2);
+    ctx.fill();
+    
+    let bossShakeX = 0;
+    let bossShakeY = 0;
+    
+    // ALWAYS shake if hitstop is active (visual feedback for impact)
+    if (b.hitStop > 0 && !b.isImmobilized) {
+        bossShakeX = (Math.random() - 0.5) * 6;
+        bossShakeY = (Math.random() - 0.5) * 6;
+    }
 
     ctx.save();
-    ctx.scale(SCALE_FACTOR, SCALE_FACTOR);
-
-    ctx.fillStyle = '#0f0f0f';
-    ctx.fillRect(0, 0, LOGICAL_WIDTH, LOGICAL_HEIGHT);
+    ctx.translate(bossShakeX, bossShakeY);
     
-    const grad = ctx.createLinearGradient(0, 0, 0, LOGICAL_HEIGHT);
-    grad.addColorStop(0, '#050505');
-    grad.addColorStop(1, '#1c1917');
+    const move = getBossMove(def, b.moveId);
+    if (b.state === 'kowtow_attack' && move) {
+         const originX = bx + b.width / 2;
+         const originY = by + b.height;
+         ctx.translate(originX, originY);
+         
+         const dir = b.facingRight ? 1 : -1;
+         
+         // Rear back through most of startup, snap forward just before the hitbox comes out
+         let angle = 0;
+         const { phase, progress } = getMovePhase(move, b.moveTimer || 0);
+         const WINDUP_END = 5 / 6;
+         
+         if (phase === 'startup') {
+             angle = progress < WINDUP_END ? lerp(0, -0.6 * dir, progress / WINDUP_END) : 0.8 * dir;
+         } 
+         else if (phase === 'active') {
+             angle = 1.6 * dir; // Impact
+         }
+         else {
+             angle = lerp(1.6 * dir, 0, progress);
+         }
+         
+         ctx.rotate(angle);
+         ctx.translate(-originX, -originY);
+    }
+    else if (b.state === 'stagger') {
+         // Slumped and swaying while the guard is broken
+         const originX = bx + b.width / 2;
+         const originY = by + b.height;
+         const sway = Math.sin((b.staggerTimer || 0) * 0.15) * 0.08;
+         ctx.translate(originX, originY);
+         ctx.rotate((b.facingRight ? -0.2 : 0.2) + sway);
+         ctx.translate(-originX, -originY);
+    }
+
+    // 1. Determine Colors
+    let bColor = b.state === 'jump_smash' ? palette.airborne : palette.body;
+    let bAccent = palette.accent;
+    
+    if (b.isImmobilized) {
+        bColor = palette.immobilized; 
+        bAccent = palette.immobilizedAccent; 
+        ctx.shadowColor = palette.immobilized;
+        ctx.shadowBlur = 15;
+    }
+    
+    // 2. Draw Base Boss (Normal Rendering)
+    drawRect(ctx, bx, by, b.width, b.height, bColor); 
+    drawRect(ctx, bx - 10, by + 10, 20, 60, bAccent); 
+    drawRect(ctx, bx + b.width - 10, by + 10, 20, 60, bAccent);
+    
+    ctx.shadowBlur = 0;
+    
+    // 3. Draw Details (Eyes/Accents)
+    drawRect(ctx, b.facingRight ? bx + b.width - 30 : bx + 10, by + 20, 10, 5, palette.eyes);
+    if (b.state === 'standoff') {
+        drawRect(ctx, bx + 20, by - 20, 10, 10, palette.eyes); 
+        drawRect(ctx, bx + 40, by - 20, 10, 10, palette.eyes);
+    }
+    if (b.state === 'roar') {
+        // Open maw plus shockwave rings pulsing out from the head
+        const mouthX = b.facingRight ? bx + b.width - 35 : bx + 10;
+        drawRect(ctx, mouthX, by + 32, 25, 12, '#000000');
+        const ring = ((b.moveTimer || 0) % 20) / 20;
+        ctx.strokeStyle = palette.eyes;
+        ctx.globalAlpha = 1 - ring;
+        ctx.lineWidth = 3;
+        ctx.beginPath();
+        ctx.arc(bx + b.width / 2, by + 30, 40 + ring * 120, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.globalAlpha = 1.0;
+    }
+    if (b.state === 'cast') {
+        // Wind gathers in the open maw until the projectile leaves
+        const mouthX = b.facingRight ? bx + b.width - 35 : bx + 10;
+        const charge = Math.min(1, (b.moveTimer || 0) / ((move && move.startup) || 1));
+        drawRect(ctx, mouthX, by + 32, 25, 12, '#000000');
+        ctx.fillStyle = palette.eyes;
+        ctx.shadowColor = palette.eyes;
+        ctx.shadowBlur = 15;
+        ctx.globalAlpha = charge;
+        ctx.beginPath();
+        ctx.arc(mouthX + 12, by + 38, 4 + charge * 10, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.globalAlpha = 1.0;
+        ctx.shadowBlur = 0;
+    }
+    if (b.state === 'stagger') {
+        // Dizzy stars circling the head
+        const orbit = (b.staggerTimer || 0) * 0.1;
+        for (let i = 0; i < 3; i++) {
+            const a = orbit + (i * Math.PI * 2) / 3;
+            drawRect(ctx, bx + b.width / 2 + Math.cos(a) * 35 - 4, by - 15 + Math.sin(a) * 8 - 4, 8, 8, '#fde68a');
+        }
+    }
+
+    // 4. Draw Flash Overlay (White tint with low opacity on top)
+    const isFlashing = !b.isImmobilized && (b.flashTimer && b.flashTimer > 0);
+    if (isFlashing) {
+         ctx.save();
+         ctx.globalAlpha = 0.25; // Intensity ~2.5/10
+         // Redraw the main body shapes in pure white
+         drawRect(ctx, bx, by, b.width, b.height, '#ffffff'); 
+         drawRect(ctx, bx - 10, by + 10, 20, 60, '#ffffff'); 
+         drawRect(ctx, bx + b.width - 10, by + 10, 20, 60, '#ffffff');
+         ctx.restore();
+    }
+    
+    if (b.state === 'jump_smash') {
+         ctx.fillStyle = 'rgba(0,0,0,0.2)';
+         ctx.beginPath();
+         ctx.ellipse(bx + b.width/2, GROUND_Y, b.width/2, 10, 0, 0, Math.PI*2);
+         ctx.fill();
+    }
+
+    if (b.health < b.maxHealth) {
+        drawRect(ctx, bx, by - 20, b.width, 5, '#7f1d1d');
+        drawRect(ctx, bx, by - 20, (b.health/b.maxHealth)*b.width, 5, '#dc2626');
+    }
+    ctx.restore();
+  };
+
+  // Boss attack warnings: the struck floor fills in as the hit approaches, or the boss glints
+  const drawTelegraph = (ctx: CanvasRenderingContext2D, telegraph: ActiveTelegraph, b: Entity, tick: number) => {
+    const blink = Math.sin(tick * (0.3 + telegraph.progress * 0.5)) > 0 ? 1 : 0.6;
+    ctx.save();
+    if (telegraph.indicator === 'ground') {
+        const left = Math.max(0, telegraph.x - telegraph.reach);
+        const right = Math.min(ARENA_WIDTH, telegraph.x + telegraph.reach);
+        const fill = telegraph.reach * telegraph.progress;
+        ctx.globalAlpha = 0.2 * blink;
+        ctx.fillStyle = telegraph.color;
+        ctx.fillRect(left, GROUND_Y - 6, right - left, 6);
+        ctx.globalAlpha = 0.7;
+        ctx.fillRect(Math.max(left, telegraph.x - fill), GROUND_Y - 4, Math.min(right, telegraph.x + fill) - Math.max(left, telegraph.x - fill), 4);
+        ctx.globalAlpha = blink;
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineWidth = 2;
+        ctx.strokeRect(left, GROUND_Y - 6, right - left, 6);
+    } else {
+        ctx.globalAlpha = 0.3 + telegraph.progress * 0.5 * blink;
+        ctx.strokeStyle = telegraph.color;
+        ctx.shadowColor = telegraph.color;
+        ctx.shadowBlur = 20;
+        ctx.lineWidth = 3;
+        ctx.strokeRect(b.pos.x - 6, b.pos.y - 6, b.width + 12, b.height + 12);
+    }
+    // Exclamation over the head, same for every indicator
+    ctx.globalAlpha = blink;
+    drawRect(ctx, b.pos.x + b.width / 2 - 3, b.pos.y - 46, 6, 14, '#fde68a');
+    drawRect(ctx, b.pos.x + b.width / 2 - 3, b.pos.y - 28, 6, 5, '#fde68a');
+    ctx.restore();
+  };
+
+  // Minor enemies: one sprite per silhouette, posed from the attack's phase
+  const drawEnemy = (ctx: CanvasRenderingContext2D, e: Entity) => {
+    const def = getEnemyDefinition(e.defId);
+    if (!def) return;
+    const { body, accent, eyes } = def.palette;
+    const dir = e.facingRight ? 1 : -1;
+    const front = e.facingRight ? e.pos.x + e.width : e.pos.x;
+    const phase = e.state === 'attack' ? getMovePhase(def.attack, e.moveTimer || 0) : null;
+    const shakeX = e.hitStop > 0 && !e.isImmobilized ? (Math.random() - 0.5) * 4 : 0;
+    const ex = e.pos.x + shakeX;
+    const ey = e.pos.y;
+
+    ctx.fillStyle = 'rgba(0,0,0,0.4)';
+    ctx.beginPath();
+    ctx.ellipse(e.pos.x + e.width / 2, GROUND_Y, e.width / 1.6, 6, 0, 0, Math.PI * 2);
+    ctx.fill();
+
+    ctx.save();
+    if (e.isImmobilized) {
+        ctx.shadowColor = '#fbbf24';
+        ctx.shadowBlur = 12;
+    }
+    const bodyColor = e.isImmobilized ? '#fbbf24' : body;
+    drawRect(ctx, ex, ey, e.width, e.height, bodyColor);
+    ctx.shadowBlur = 0;
+
+    if (def.id === 'wolf_scout') {
+        // Head low and forward, tail behind
+        drawRect(ctx, e.facingRight ? ex + e.width - 4 : ex - 10, ey + 4, 14, 14, bodyColor);
+        drawRect(ctx, e.facingRight ? ex - 10 : ex + e.width, ey + 2, 10, 5, accent);
+        drawRect(ctx, e.facingRight ? ex + e.width + 4 : ex - 8, ey + 8, 4, 3, eyes);
+    } else if (def.id === 'archer') {
+        // Bow drawn back through startup
+        const pull = phase && phase.phase === 'startup' ? phase.progress : 0;
+        const bowX = e.facingRight ? ex + e.width + 2 : ex - 6;
+        drawRect(ctx, bowX, ey + 6, 4, 28, accent);
+        ctx.strokeStyle = '#e5e7eb';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(bowX + 2, ey + 6);
+        ctx.lineTo(bowX + 2 - dir * pull * 12, ey + 20);
+        ctx.lineTo(bowX + 2, ey + 34);
+        ctx.stroke();
+        drawRect(ctx, e.facingRight ? ex + e.width - 10 : ex + 4, ey + 8, 6, 4, eyes);
+    } else {
+        // Tower shield held in front, swung out during the bash
+        const bash = phase && phase.phase !== 'startup' ? 10 : 0;
+        drawRect(ctx, front + dir * (2 + bash) - (e.facingRight ? 0 : 12), ey + 4, 12, e.height - 8, accent);
+        drawRect(ctx, e.facingRight ? ex + e.width - 12 : ex + 6, ey + 10, 6, 4, eyes);
+    }
+
+    // Wind-up glint so every attack is readable before it lands
+    if (phase && phase.phase === 'startup' && (e.moveTimer || 0) % 8 < 4) {
+        drawRect(ctx, front + dir * 6 - 3, ey - 8, 6, 6, def.attack.color);
+    }
+
+    if (!e.isImmobilized && e.flashTimer && e.flashTimer > 0) {
+        ctx.globalAlpha = 0.4;
+        drawRect(ctx, ex, ey, e.width, e.height, '#ffffff');
+        ctx.globalAlpha = 1.0;
+    }
+
+    // Health bar over the head
+    const barW = Math.max(30, e.width);
+    const barX = e.pos.x + e.width / 2 - barW / 2;
+    drawRect(ctx, barX, ey - 14, barW, 4, '#1c1917');
+    drawRect(ctx, barX, ey - 14, Math.max(0, e.health / e.maxHealth) * barW, 4, '#dc2626');
+    ctx.restore();
+  };
+
+  // --- Drawing ---
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const world = worldRef.current;
+
+    ctx.save();
+    ctx.scale(SCALE_FACTOR, SCALE_FACTOR);
+
+    ctx.fillStyle = '#0f0f0f';
+    ctx.fillRect(0, 0, LOGICAL_WIDTH, LOGICAL_HEIGHT);
+    
+    const grad = ctx.createLinearGradient(0, 0, 0, LOGICAL_HEIGHT);
+    grad.addColorStop(0, '#050505');
+    grad.addColorStop(1, '#1c1917');
     ctx.fillStyle = grad;
     ctx.fillRect(0, 0, LOGICAL_WIDTH, LOGICAL_HEIGHT);
 
     ctx.save();
     
-    const shakeX = (Math.random() - 0.5) * shakeRef.current;
-    const shakeY = (Math.random() - 0.5) * shakeRef.current;
-    ctx.translate(-cameraXRef.current + shakeX, shakeY);
+    ctx.translate(-world.cameraX + world.shakeOffset.x, world.shakeOffset.y);
 
     ctx.shadowColor = '#f8fafc'; 
     ctx.shadowBlur = 60;
@@ -2941,7 +2323,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
     // Screen Position = World Position - Camera Position
     // For distant objects, Screen Position should change very slowly as Camera moves.
     // WorldPos = Offset + Camera * Factor (where factor < 1.0 close to 1.0)
-    const moonWorldX = 600 + cameraXRef.current * 0.92; 
+    const moonWorldX = 600 + world.cameraX * 0.92; 
 
     ctx.beginPath();
     ctx.arc(moonWorldX, 150, 50, 0, Math.PI * 2);
@@ -2979,110 +2361,104 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         ctx.restore();
     }
 
-    const b = bossRef.current;
-    if (b && !b.isDead) {
-        const bx = b.pos.x;
-        const by = b.pos.y;
-        
-        ctx.fillStyle = 'rgba(0,0,0,0.5)';
+    // Ring of Fire zones burn on the ground behind the fighters
+    world.spellZones.forEach(zone => {
+        const spell = getSpellDefinition(zone.spellId);
+        if (!spell) return;
+        const radius = spell.radius || 0;
+        const flicker = 0.7 + Math.sin(world.tick * 0.5 + zone.x) * 0.15;
+        ctx.save();
+        ctx.globalAlpha = Math.min(1, zone.life / 30) * flicker;
+        ctx.strokeStyle = spell.color;
+        ctx.shadowColor = spell.color;
+        ctx.shadowBlur = 15;
+        ctx.lineWidth = 4;
         ctx.beginPath();
-        ctx.ellipse(bx + b.width/2, by + b.height, b.width/1.5, 10, 0, 0, Math.PI*2);
+        ctx.ellipse(zone.x, GROUND_Y - 2, radius, 14, 0, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.globalAlpha *= 0.25;
+        ctx.fillStyle = spell.color;
         ctx.fill();
-        
-        let bossShakeX = 0;
-        let bossShakeY = 0;
-        
-        // ALWAYS shake if hitstop is active (visual feedback for impact)
-        if (b.hitStop > 0 && !b.isImmobilized) {
-            bossShakeX = (Math.random() - 0.5) * 6;
-            bossShakeY = (Math.random() - 0.5) * 6;
-        }
+        ctx.restore();
+    });
 
-        ctx.save();
-        ctx.translate(bossShakeX, bossShakeY);
-        
-        if (b.state === 'kowtow_attack') {
-             const originX = bx + b.width / 2;
-             const originY = by + b.height;
-             ctx.translate(originX, originY);
-             
-             const dir = b.facingRight ? 1 : -1;
-             
-             let angle = 0;
-             const frame = b.animFrame;
-             
-             if (frame <= 4) {
-                 angle = lerp(0, -0.6 * dir, frame/4);
-             } 
-             else if (frame === 5) {
-                 angle = 0.8 * dir; 
-             }
-             else if (frame === 6) {
-                 angle = 1.6 * dir; // Impact
-             }
-             else {
-                 angle = lerp(1.6 * dir, 0, (frame - 7)/9);
-             }
-             
-             ctx.rotate(angle);
-             ctx.translate(-originX, -originY);
-        }
+    const telegraph = getBossTelegraph(world);
+    if (world.boss && !world.boss.isDead) {
+        if (telegraph && telegraph.indicator === 'ground') drawTelegraph(ctx, telegraph, world.boss, world.tick);
+        drawBoss(ctx, world.boss);
+        if (telegraph && telegraph.indicator === 'flash') drawTelegraph(ctx, telegraph, world.boss, world.tick);
+    }
+    world.enemies.forEach(enemy => {
+        if (enemy.type === 'enemy' && !enemy.isDead) drawEnemy(ctx, enemy);
+    });
 
-        // 1. Determine Colors
-        let bColor = b.state === 'jump_smash' ? '#7e22ce' : '#581c87';
-        let bAccent = '#3b0764';
-        
-        if (b.isImmobilized) {
-            bColor = '#fbbf24'; 
-            bAccent = '#d97706'; 
-            ctx.shadowColor = '#fbbf24';
-            ctx.shadowBlur = 15;
-        }
-        
-        // 2. Draw Base Boss (Normal Rendering)
-        drawRect(ctx, bx, by, b.width, b.height, bColor); 
-        drawRect(ctx, bx - 10, by + 10, 20, 60, bAccent); 
-        drawRect(ctx, bx + b.width - 10, by + 10, 20, 60, bAccent);
-        
-        ctx.shadowBlur = 0;
-        
-        // 3. Draw Details (Eyes/Accents)
-        drawRect(ctx, b.facingRight ? bx + b.width - 30 : bx + 10, by + 20, 10, 5, '#ef4444');
-        if (b.state === 'standoff') {
-            drawRect(ctx, bx + 20, by - 20, 10, 10, '#ef4444'); 
-            drawRect(ctx, bx + 40, by - 20, 10, 10, '#ef4444');
-        }
+    // Will orbs left by defeated enemies, fading out near the end of their life
+    world.drops.forEach(drop => {
+        const pulse = 0.7 + Math.sin(world.tick * 0.2 + drop.x) * 0.3;
+        ctx.save();
+        ctx.globalAlpha = Math.min(1, drop.life / 60) * pulse;
+        ctx.fillStyle = '#fcd34d';
+        ctx.shadowColor = '#f59e0b';
+        ctx.shadowBlur = 10;
+        ctx.beginPath();
+        ctx.arc(drop.x, drop.y, 4, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.restore();
+    });
 
-        // 4. Draw Flash Overlay (White tint with low opacity on top)
-        const isFlashing = !b.isImmobilized && (b.flashTimer && b.flashTimer > 0);
-        if (isFlashing) {
-             ctx.save();
-             ctx.globalAlpha = 0.25; // Intensity ~2.5/10
-             // Redraw the main body shapes in pure white
-             drawRect(ctx, bx, by, b.width, b.height, '#ffffff'); 
-             drawRect(ctx, bx - 10, by + 10, 20, 60, '#ffffff'); 
-             drawRect(ctx, bx + b.width - 10, by + 10, 20, 60, '#ffffff');
-             ctx.restore();
-        }
-        
-        if (b.state === 'jump_smash') {
-             ctx.fillStyle = 'rgba(0,0,0,0.2)';
-             ctx.beginPath();
-             ctx.ellipse(bx + b.width/2, GROUND_Y, 40, 10, 0, 0, Math.PI*2);
-             ctx.fill();
-        }
+    world.projectiles.forEach(projectile => {
+        const def = getProjectileDefinition(projectile.defId);
+        if (!def) return;
+        ctx.save();
+        ctx.translate(projectile.x, projectile.y);
+        PROJECTILE_RENDERERS[def.render](ctx, projectile, def, world.tick);
+        ctx.restore();
+    });
 
-        if (b.health < b.maxHealth) {
-            drawRect(ctx, bx, by - 20, b.width, 5, '#7f1d1d');
-            drawRect(ctx, bx, by - 20, (b.health/b.maxHealth)*b.width, 5, '#dc2626');
-        }
+    // Cloud Step decoy stands where the player vanished
+    if (world.decoy) {
+        ctx.save();
+        ctx.globalAlpha = 0.8;
+        drawPlayer(ctx, { ...world.player, pos: world.decoy.pos, facingRight: world.decoy.facingRight, state: 'idle', animFrame: 0, animTimer: 0, hitStop: 0 }, world);
         ctx.restore();
     }
 
-    drawPlayer(ctx, playerRef.current);
+    // Perfect dodge afterimages: translucent silhouettes where the player evaded
+    world.afterimages.forEach(img => {
+        const e = img.entity;
+        ctx.globalAlpha = img.life * 0.5;
+        drawRect(ctx, e.pos.x, e.pos.y, e.width, e.height, '#38bdf8');
+        drawRect(ctx, e.pos.x + 5, e.pos.y - 10, e.width - 10, 12, '#7dd3fc');
+        ctx.globalAlpha = 1.0;
+    });
+
+    ctx.save();
+    if (world.decoy) ctx.globalAlpha = 0.25; // Invisible to the boss, faint to the player
+    drawPlayer(ctx, world.player, world);
+    ctx.restore();
+
+    // Lock-on reticle: a bobbing diamond over the tracked target
+    const lockTarget = getLockTarget(world);
+    if (lockTarget) {
+        const cx = lockTarget.pos.x + lockTarget.width / 2;
+        const cy = lockTarget.pos.y - 18 + Math.sin(world.tick * 0.15) * 3;
+        ctx.save();
+        ctx.strokeStyle = '#facc15';
+        ctx.shadowColor = '#facc15';
+        ctx.shadowBlur = 8;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(cx, cy - 7);
+        ctx.lineTo(cx + 6, cy);
+        ctx.lineTo(cx, cy + 7);
+        ctx.lineTo(cx - 6, cy);
+        ctx.closePath();
+        ctx.stroke();
+        ctx.restore();
+    }
 
     ctx.globalCompositeOperation = 'lighter';
-    particlesRef.current.forEach(part => {
+    world.particles.forEach(part => {
         ctx.globalAlpha = part.life;
         ctx.fillStyle = part.color;
         ctx.shadowColor = part.color;
@@ -3093,14 +2469,36 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
     });
     ctx.globalCompositeOperation = 'source-over';
 
+    // --- HITBOX DEBUG RENDER ---
+    if (debugParamsRef.current.showHitboxes) {
+        ctx.save();
+        ctx.lineWidth = 1.5;
+        getFrameBoxes(world, debugParamsRef.current).forEach(box => {
+            ctx.strokeStyle = BOX_COLORS[box.type];
+            ctx.fillStyle = BOX_COLORS[box.type];
+            ctx.globalAlpha = 0.2;
+            ctx.beginPath();
+            if (box.shape === 'rect') ctx.rect(box.x, box.y, box.width, box.height);
+            else ctx.arc(box.x, box.y, Math.max(2, box.radius), 0, Math.PI * 2);
+            ctx.fill();
+            ctx.globalAlpha = 0.9;
+            ctx.stroke();
+        });
+        ctx.restore();
+    }
+
     ctx.restore(); 
     ctx.restore(); 
 
+    // Bullet time tint while the boss is slowed by a perfect dodge
+    if (world.boss && world.boss.bulletTime && world.boss.bulletTime > 0) {
+        ctx.fillStyle = `rgba(56, 189, 248, ${0.12 * Math.min(1, world.boss.bulletTime / 20)})`;
+        ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    }
+
   }, []);
 
   useEffect(() => {
-    const FIXED_TIME_STEP = 1000 / 60;
-
     const loop = (timestamp: number) => {
       if (lastTimeRef.current === 0) {
           lastTimeRef.current = timestamp;
@@ -3108,7 +2506,10 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
       const deltaTime = timestamp - lastTimeRef.current;
       lastTimeRef.current = timestamp;
       
-      accumulatorRef.current += deltaTime;
+      // Replay speed scales simulated time; pause stops it while still drawing
+      const { paused, speed } = playbackRef.current;
+      const timeScale = gameState === GameState.REPLAY ? (paused ? 0 : speed) : debugTimeScaleRef.current;
+      accumulatorRef.current += deltaTime * timeScale;
 
       if (accumulatorRef.current > 100) accumulatorRef.current = 100;
 
@@ -3121,7 +2522,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
       reqRef.current = requestAnimationFrame(loop);
     };
 
-    if (gameState === GameState.PLAYING) {
+    if (gameState === GameState.PLAYING || gameState === GameState.REPLAY) {
       lastTimeRef.current = 0;
       accumulatorRef.current = 0;
       reqRef.current = requestAnimationFrame(loop);
@@ -3132,12 +2533,47 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
     return () => cancelAnimationFrame(reqRef.current);
   }, [gameState, update, draw]);
 
-  // Reset Logic
-  const resetHealth = () => {
-      if (playerRef.current) setPlayerHealth(playerRef.current.maxHealth);
-      if (bossRef.current) setBossHealth(bossRef.current.maxHealth);
-      if (playerRef.current) playerRef.current.health = playerRef.current.maxHealth;
-      if (bossRef.current) bossRef.current.health = bossRef.current.maxHealth;
+  // --- Pause & Frame Advance ---
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat) return;
+      if (e.code === 'Escape') {
+          if (gameState === GameState.PLAYING) setGameState(GameState.PAUSED);
+          else if (gameState === GameState.PAUSED) setGameState(GameState.PLAYING);
+      } else if (e.code === 'Period' && IS_DEBUG_BUILD && gameState === GameState.PAUSED) {
+          // Steps one tick with whatever is held, like the replay Step button
+          update();
+          draw();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [gameState, setGameState, update, draw]);
+
+  const changeDebugTimeScale = (scale: number) => {
+      debugTimeScaleRef.current = scale;
+      setDebugTimeScale(scale);
+  };
+
+  // --- Replay Controls ---
+  const stepReplayFrame = () => {
+      if (!playbackRef.current.paused) return;
+      update();
+      setPlayback(prev => ({ ...prev, tick: worldRef.current.tick }));
+  };
+
+  const restartReplay = () => {
+      if (!replay) return;
+      initReplay(replay);
+  };
+
+  // Reset Logic (recorded so the replay resets at the same tick)
+  const resetAllHealth = () => {
+      const world = worldRef.current;
+      if (recordingRef.current) recordAction(recordingRef.current, world.tick, 'reset_health');
+      resetHealth(world);
+      syncHud(world);
   }
 
   return (
@@ -3176,6 +2612,18 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
                             >
                                 Skills
                             </button>
+                            <button 
+                                onClick={() => setDebugTab('ai')}
+                                className={`flex-1 py-2 text-center font-bold tracking-wider uppercase transition-colors ${debugTab === 'ai' ? 'bg-neutral-700/50 text-yellow-500' : 'text-gray-500 hover:bg-gray-800'}`}
+                            >
+                                Boss AI
+                            </button>
+                            <button 
+                                onClick={() => setDebugTab('presets')}
+                                className={`flex-1 py-2 text-center font-bold tracking-wider uppercase transition-colors ${debugTab === 'presets' ? 'bg-neutral-700/50 text-yellow-500' : 'text-gray-500 hover:bg-gray-800'}`}
+                            >
+                                Presets
+                            </button>
                         </div>
 
                         {/* Tab Content */}
@@ -3195,6 +2643,20 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
                                             />
                                             <span>Show Grid</span>
                                         </label>
+                                        <label className="flex items-center gap-2 cursor-pointer p-2 bg-gray-800/30 rounded border border-gray-800 hover:border-gray-600">
+                                            <input 
+                                                type="checkbox"
+                                                checked={debugValues.showHitboxes}
+                                                onChange={(e) => updateDebug('showHitboxes', e.target.checked)}
+                                                className="accent-yellow-600"
+                                            />
+                                            <span>Show Hitboxes</span>
+                                            <span className="ml-auto flex gap-2 text-[10px]">
+                                                {(Object.keys(BOX_COLORS) as BoxType[]).map(type => (
+                                                    <span key={type} style={{ color: BOX_COLORS[type] }}>{type}</span>
+                                                ))}
+                                            </span>
+                                        </label>
                                     </div>
 
                                     <div className="flex flex-col gap-2">
@@ -3226,6 +2688,24 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
                                         </div>
                                     )}
 
+                                    {IS_DEBUG_BUILD && (
+                                        <div className="flex flex-col gap-2">
+                                            <h3 className="font-bold text-gray-400 uppercase text-[10px] tracking-widest mb-1 border-b border-gray-800 pb-1">Time</h3>
+                                            <div className="flex gap-2">
+                                                {DEBUG_TIME_SCALES.map(scale => (
+                                                    <button
+                                                        key={scale}
+                                                        onClick={() => changeDebugTimeScale(scale)}
+                                                        className={`flex-1 py-1 rounded border ${debugTimeScale === scale ? 'border-yellow-600 bg-yellow-900/30 text-yellow-500' : 'border-gray-700 text-gray-400'}`}
+                                                    >
+                                                        {scale}x
+                                                    </button>
+                                                ))}
+                                            </div>
+                                            <span className="text-[10px] text-gray-500">Esc pauses. While paused, . advances one frame.</span>
+                                        </div>
+                                    )}
+
                                     <div className="flex flex-col gap-2">
                                         <h3 className="font-bold text-gray-400 uppercase text-[10px] tracking-widest mb-1 border-b border-gray-800 pb-1">Cheats</h3>
                                         <label className="flex items-center gap-2 cursor-pointer p-2 bg-gray-800/30 rounded border border-gray-800 hover:border-gray-600">
@@ -3250,7 +2730,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
 
                                     <div className="mt-4 pt-4 border-t border-gray-700">
                                          <button 
-                                            onClick={resetHealth}
+                                            onClick={resetAllHealth}
                                             className="w-full py-2 bg-red-900/30 border border-red-800 text-red-400 hover:bg-red-900/50 rounded uppercase tracking-widest font-bold"
                                         >
                                             Reset All Health
@@ -3259,6 +2739,131 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
                                 </div>
                             )}
 
+                            {/* PRESETS TAB */}
+                            {debugTab === 'presets' && (() => {
+                                const paramDiff = diffFromDefaults(debugValues);
+                                const groupedKeys = new Set(DEBUG_SKILL_GROUPS.flatMap(group => group.keys));
+                                const diffGroups = [
+                                    ...DEBUG_SKILL_GROUPS.map(group => ({ id: group.id as string | null, name: group.name, diffs: paramDiff.filter(diff => group.keys.includes(diff.key)) })),
+                                    { id: null, name: 'General', diffs: paramDiff.filter(diff => !groupedKeys.has(diff.key)) }
+                                ].filter(group => group.diffs.length > 0);
+
+                                return (
+                                    <div className="grid grid-cols-2 gap-4">
+                                        {/* Saved Presets */}
+                                        <div className="flex flex-col gap-2">
+                                            <h3 className="font-bold text-gray-400 uppercase text-[10px] tracking-widest mb-1 border-b border-gray-800 pb-1">Saved Presets</h3>
+                                            <div className="flex gap-2">
+                                                <input
+                                                    type="text"
+                                                    value={presetName}
+                                                    onChange={(e) => setPresetName(e.target.value)}
+                                                    onKeyDown={(e) => { e.stopPropagation(); if (e.key === 'Enter') saveCurrentPreset(); }}
+                                                    placeholder="Preset name"
+                                                    className="flex-1 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-200"
+                                                />
+                                                <button
+                                                    onClick={saveCurrentPreset}
+                                                    disabled={!presetName.trim()}
+                                                    className="px-2 py-1 rounded border border-gray-700 hover:border-yellow-600 hover:text-yellow-500 disabled:opacity-40"
+                                                >
+                                                    Save
+                                                </button>
+                                            </div>
+
+                                            <div className="flex flex-col gap-1 max-h-[160px] overflow-y-auto custom-scrollbar">
+                                                {presets.length === 0 && <div className="text-gray-600 italic">No presets saved yet</div>}
+                                                {presets.map(preset => (
+                                                    <div key={preset.name} className="flex items-center gap-1 p-1 bg-gray-800/30 rounded border border-gray-800">
+                                                        <span className="flex-1 truncate" title={`${Object.keys(preset.params).length} changed values`}>{preset.name}</span>
+                                                        <button onClick={() => applyDebugParams(applyPreset(preset))} className="px-1 text-yellow-600 hover:text-yellow-400">Load</button>
+                                                        <button onClick={() => downloadPreset(preset)} className="px-1 text-gray-400 hover:text-white">Export</button>
+                                                        <button onClick={() => copyPreset(preset)} className="px-1 text-gray-400 hover:text-white">Copy</button>
+                                                        <button onClick={() => storePresets(presets.filter(p => p.name !== preset.name))} className="px-1 text-red-500 hover:text-red-300">✕</button>
+                                                    </div>
+                                                ))}
+                                            </div>
+
+                                            <h3 className="font-bold text-gray-400 uppercase text-[10px] tracking-widest mt-2 mb-1 border-b border-gray-800 pb-1">Import</h3>
+                                            <textarea
+                                                value={presetText}
+                                                onChange={(e) => setPresetText(e.target.value)}
+                                                onKeyDown={(e) => e.stopPropagation()}
+                                                placeholder="Paste a copied preset"
+                                                rows={3}
+                                                className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-200 font-mono text-[10px] resize-none"
+                                            />
+                                            <div className="flex gap-2">
+                                                <button
+                                                    onClick={importPresetText}
+                                                    disabled={!presetText.trim()}
+                                                    className="flex-1 py-1 rounded border border-gray-700 hover:border-yellow-600 hover:text-yellow-500 disabled:opacity-40"
+                                                >
+                                                    Import Text
+                                                </button>
+                                                <button
+                                                    onClick={() => presetFileRef.current?.click()}
+                                                    className="flex-1 py-1 rounded border border-gray-700 hover:border-yellow-600 hover:text-yellow-500"
+                                                >
+                                                    Import File
+                                                </button>
+                                                <input
+                                                    ref={presetFileRef}
+                                                    type="file"
+                                                    accept="application/json,.json"
+                                                    className="hidden"
+                                                    onChange={(e) => {
+                                                        const file = e.target.files?.[0];
+                                                        if (file) importPresetFile(file);
+                                                        e.target.value = '';
+                                                    }}
+                                                />
+                                            </div>
+                                            {presetError && <div className="text-red-500">{presetError}</div>}
+                                        </div>
+
+                                        {/* Diff vs Defaults */}
+                                        <div className="flex flex-col gap-2">
+                                            <h3 className="font-bold text-gray-400 uppercase text-[10px] tracking-widest mb-1 border-b border-gray-800 pb-1">Changed from Defaults ({paramDiff.length})</h3>
+                                            <div className="flex flex-col gap-2 max-h-[280px] overflow-y-auto custom-scrollbar pr-1">
+                                                {diffGroups.length === 0 && <div className="text-gray-600 italic">Every value is at its default</div>}
+                                                {diffGroups.map(group => (
+                                                    <div key={group.name} className="bg-gray-800/30 p-2 rounded border border-gray-800">
+                                                        <div className="flex justify-between items-center mb-1">
+                                                            <h5 className="text-yellow-700 font-bold">{group.name}</h5>
+                                                            {group.id && (
+                                                                <button
+                                                                    onClick={() => applyDebugParams(resetSkillParams(debugParamsRef.current, group.id!))}
+                                                                    className="text-[10px] text-gray-500 hover:text-red-400"
+                                                                >
+                                                                    Reset
+                                                                </button>
+                                                            )}
+                                                        </div>
+                                                        {group.diffs.map(diff => (
+                                                            <div key={diff.key} className="flex items-center gap-2 font-mono text-[10px]">
+                                                                <span className="flex-1 truncate text-gray-400">{diff.key}</span>
+                                                                <span className="text-gray-600">{String(diff.defaultValue)}</span>
+                                                                <span className="text-gray-600">→</span>
+                                                                <span className="text-yellow-500">{String(diff.value)}</span>
+                                                                <button onClick={() => updateDebug(diff.key, diff.defaultValue)} className="text-gray-500 hover:text-red-400">↺</button>
+                                                            </div>
+                                                        ))}
+                                                    </div>
+                                                ))}
+                                            </div>
+                                            <button
+                                                onClick={() => applyDebugParams({ ...DEFAULT_DEBUG_PARAMS })}
+                                                disabled={paramDiff.length === 0}
+                                                className="py-1 bg-red-900/30 border border-red-800 text-red-400 hover:bg-red-900/50 rounded uppercase tracking-widest font-bold disabled:opacity-40"
+                                            >
+                                                Reset All to Defaults
+                                            </button>
+                                        </div>
+                                    </div>
+                                );
+                            })()}
+
                             {/* SKILLS TAB */}
                             {debugTab === 'skills' && (
                                 <div className="grid grid-cols-12 gap-4 h-full">
@@ -3284,44 +2889,15 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
                                     <div className="col-span-3 border-r border-gray-700 flex flex-col gap-1 pr-2">
                                         <h4 className="text-[10px] text-gray-500 uppercase tracking-widest mb-2">Skill</h4>
                                         {selectedEntity === 'player' ? (
-                                            <>
+                                            DEBUG_SKILL_GROUPS.map(group => (
                                                 <button 
-                                                    onClick={() => setSelectedSkill('atk1_2')}
-                                                    className={`text-left px-2 py-1 rounded ${selectedSkill === 'atk1_2' ? 'bg-yellow-900/30 text-yellow-500 border-l-2 border-yellow-500' : 'text-gray-400 hover:bg-gray-800'}`}
+                                                    key={group.id}
+                                                    onClick={() => setSelectedSkill(group.id)}
+                                                    className={`text-left px-2 py-1 rounded ${selectedSkill === group.id ? 'bg-yellow-900/30 text-yellow-500 border-l-2 border-yellow-500' : 'text-gray-400 hover:bg-gray-800'}`}
                                                 >
-                                                    Combo 1 & 2
+                                                    {group.name}
                                                 </button>
-                                                <button 
-                                                    onClick={() => setSelectedSkill('atk3')}
-                                                    className={`text-left px-2 py-1 rounded ${selectedSkill === 'atk3' ? 'bg-yellow-900/30 text-yellow-500 border-l-2 border-yellow-500' : 'text-gray-400 hover:bg-gray-800'}`}
-                                                >
-                                                    Attack 3 (Spin)
-                                                </button>
-                                                <button 
-                                                    onClick={() => setSelectedSkill('atk4')}
-                                                    className={`text-left px-2 py-1 rounded ${selectedSkill === 'atk4' ? 'bg-yellow-900/30 text-yellow-500 border-l-2 border-yellow-500' : 'text-gray-400 hover:bg-gray-800'}`}
-                                                >
-                                                    Attack 4 (Fan)
-                                                </button>
-                                                <button 
-                                                    onClick={() => setSelectedSkill('heavy')}
-                                                    className={`text-left px-2 py-1 rounded ${selectedSkill === 'heavy' ? 'bg-yellow-900/30 text-yellow-500 border-l-2 border-yellow-500' : 'text-gray-400 hover:bg-gray-800'}`}
-                                                >
-                                                    Heavy Attack (Charge)
-                                                </button>
-                                                <button 
-                                                    onClick={() => setSelectedSkill('tech')}
-                                                    className={`text-left px-2 py-1 rounded ${selectedSkill === 'tech' ? 'bg-yellow-900/30 text-yellow-500 border-l-2 border-yellow-500' : 'text-gray-400 hover:bg-gray-800'}`}
-                                                >
-                                                    Cloud Strike (K)
-                                                </button>
-                                                <button 
-                                                    onClick={() => setSelectedSkill('setsu')}
-                                                    className={`text-left px-2 py-1 rounded ${selectedSkill === 'setsu' ? 'bg-yellow-900/30 text-yellow-500 border-l-2 border-yellow-500' : 'text-gray-400 hover:bg-gray-800'}`}
-                                                >
-                                                    Setsugekka (N)
-                                                </button>
-                                            </>
+                                            ))
                                         ) : (
                                             <div className="text-gray-600 italic text-xs px-2">No Configurable Skills</div>
                                         )}
@@ -3329,8 +2905,54 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
 
                                     {/* COL 3: Config */}
                                     <div className="col-span-6 overflow-y-auto max-h-[400px] pr-2 custom-scrollbar">
-                                        <h4 className="text-[10px] text-gray-500 uppercase tracking-widest mb-2">Configuration</h4>
-                                        
+                                        <div className="flex justify-between items-center mb-2">
+                                            <h4 className="text-[10px] text-gray-500 uppercase tracking-widest">Configuration</h4>
+                                            {selectedEntity === 'player' && getSkillGroup(selectedSkill) && (
+                                                <button
+                                                    onClick={() => applyDebugParams(resetSkillParams(debugParamsRef.current, selectedSkill))}
+                                                    className="text-[10px] px-2 py-0.5 rounded border border-gray-700 text-gray-400 hover:border-red-800 hover:text-red-400"
+                                                >
+                                                    Reset Skill
+                                                </button>
+                                            )}
+                                        </div>
+
+                                        {/* Frame Data (measured) */}
+                                        {frameData.length > 0 && (
+                                            <div className="bg-gray-800/30 p-2 rounded border border-gray-800 mb-4">
+                                                <h5 className="text-yellow-700 font-bold mb-2">Frame Data</h5>
+                                                <table className="w-full text-right tabular-nums">
+                                                    <thead className="text-gray-500 text-[10px] uppercase">
+                                                        <tr><th className="text-left font-normal">Move</th><th className="font-normal">Start</th><th className="font-normal">Active</th><th className="font-normal">Rec</th><th className="font-normal">Total</th><th className="font-normal">Adv</th></tr>
+                                                    </thead>
+                                                    <tbody>
+                                                        {frameData.map(move => (
+                                                            <tr key={move.id}>
+                                                                <td className="text-left text-gray-300">{move.name}</td>
+                                                                <td>{move.startup}</td>
+                                                                <td className="text-red-400">{move.active}</td>
+                                                                <td>{move.recovery}</td>
+                                                                <td>{move.total}</td>
+                                                                <td className={move.advantage === null ? 'text-gray-600' : move.advantage >= 0 ? 'text-green-500' : 'text-red-500'}>
+                                                                    {move.advantage === null ? '—' : move.advantage > 0 ? `+${move.advantage}` : move.advantage}
+                                                                </td>
+                                                            </tr>
+                                                        ))}
+                                                    </tbody>
+                                                </table>
+                                                {/* One cell per frame */}
+                                                <div className="space-y-1 mt-2">
+                                                    {frameData.map(move => (
+                                                        <div key={move.id} className="flex h-2" title={move.name}>
+                                                            {move.timeline.map((phase, i) => (
+                                                                <div key={i} className="flex-1 border-r border-black/40" style={{ background: FRAME_PHASE_COLORS[phase] }} />
+                                                            ))}
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                        )}
+
                                         {selectedEntity === 'player' && selectedSkill === 'atk1_2' && (
                                              <div className="flex flex-col gap-4">
                                                 <div className="bg-gray-800/30 p-2 rounded border border-gray-800">
@@ -3342,6 +2964,9 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
                                                         <div><div className="flex justify-between"><span>Hit Stop Frames</span><span className="text-yellow-500">{debugValues.c1Stun}</span></div>
                                                         <input type="range" min="0" max="20" step="1" value={debugValues.c1Stun} onChange={(e) => updateDebug('c1Stun', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
 
+                                                        <div><div className="flex justify-between"><span>Poise Damage</span><span className="text-yellow-500">{debugValues.c1Poise}</span></div>
+                                                        <input type="range" min="0" max="50" step="1" value={debugValues.c1Poise} onChange={(e) => updateDebug('c1Poise', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
                                                         <div><div className="flex justify-between"><span>Interrupt Action</span><span className="text-yellow-500">{debugValues.c1Interrupt}</span></div>
                                                         <div className="flex gap-2">
                                                             <button onClick={() => updateDebug('c1Interrupt', 0)} className={`flex-1 py-1 text-xs border rounded ${debugValues.c1Interrupt === 0 ? 'bg-yellow-900/50 border-yellow-600' : 'border-gray-700'}`}>No</button>
@@ -3358,6 +2983,9 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
                                                         <div><div className="flex justify-between"><span>Hit Stop Frames</span><span className="text-yellow-500">{debugValues.c2Stun}</span></div>
                                                         <input type="range" min="0" max="20" step="1" value={debugValues.c2Stun} onChange={(e) => updateDebug('c2Stun', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
 
+                                                        <div><div className="flex justify-between"><span>Poise Damage</span><span className="text-yellow-500">{debugValues.c2Poise}</span></div>
+                                                        <input type="range" min="0" max="50" step="1" value={debugValues.c2Poise} onChange={(e) => updateDebug('c2Poise', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
                                                         <div><div className="flex justify-between"><span>Interrupt Action</span><span className="text-yellow-500">{debugValues.c2Interrupt}</span></div>
                                                         <div className="flex gap-2">
                                                             <button onClick={() => updateDebug('c2Interrupt', 0)} className={`flex-1 py-1 text-xs border rounded ${debugValues.c2Interrupt === 0 ? 'bg-yellow-900/50 border-yellow-600' : 'border-gray-700'}`}>No</button>
@@ -3437,6 +3065,9 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
                                                         <div><div className="flex justify-between"><span>Gravity Scale</span><span className="text-yellow-500">{debugValues.c3GravityScale.toFixed(2)}</span></div>
                                                         <input type="range" min="0" max="2" step="0.05" value={debugValues.c3GravityScale} onChange={(e) => updateDebug('c3GravityScale', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
 
+                                                        <div><div className="flex justify-between"><span>Poise Damage</span><span className="text-yellow-500">{debugValues.c3Poise}</span></div>
+                                                        <input type="range" min="0" max="20" step="1" value={debugValues.c3Poise} onChange={(e) => updateDebug('c3Poise', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
                                                         <div><div className="flex justify-between"><span>Interrupt Action</span><span className="text-yellow-500">{debugValues.c3Interrupt}</span></div>
                                                         <div className="flex gap-2">
                                                             <button onClick={() => updateDebug('c3Interrupt', 0)} className={`flex-1 py-1 text-xs border rounded ${debugValues.c3Interrupt === 0 ? 'bg-yellow-900/50 border-yellow-600' : 'border-gray-700'}`}>No</button>
@@ -3504,6 +3135,9 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
                                                         <div><div className="flex justify-between"><span>Slide Friction</span><span className="text-yellow-500">{debugValues.c4SlideFriction.toFixed(2)}</span></div>
                                                         <input type="range" min="0.5" max="0.99" step="0.01" value={debugValues.c4SlideFriction} onChange={(e) => updateDebug('c4SlideFriction', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
 
+                                                        <div><div className="flex justify-between"><span>Poise Damage</span><span className="text-yellow-500">{debugValues.c4Poise}</span></div>
+                                                        <input type="range" min="0" max="100" step="1" value={debugValues.c4Poise} onChange={(e) => updateDebug('c4Poise', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
                                                         <div><div className="flex justify-between"><span>Interrupt Action</span><span className="text-yellow-500">{debugValues.c4Interrupt}</span></div>
                                                         <div className="flex gap-2">
                                                             <button onClick={() => updateDebug('c4Interrupt', 0)} className={`flex-1 py-1 text-xs border rounded ${debugValues.c4Interrupt === 0 ? 'bg-yellow-900/50 border-yellow-600' : 'border-gray-700'}`}>No</button>
@@ -3550,6 +3184,9 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
                                                         <div><div className="flex justify-between"><span>Target Shake</span><span className="text-yellow-500">{debugValues.heavyShake}</span></div>
                                                         <input type="range" min="0" max="50" step="1" value={debugValues.heavyShake} onChange={(e) => updateDebug('heavyShake', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
 
+                                                        <div><div className="flex justify-between"><span>Poise Damage</span><span className="text-yellow-500">{debugValues.heavyPoise}</span></div>
+                                                        <input type="range" min="0" max="100" step="1" value={debugValues.heavyPoise} onChange={(e) => updateDebug('heavyPoise', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
                                                         <div><div className="flex justify-between"><span>Interrupt Action</span><span className="text-yellow-500">{debugValues.heavyInterrupt}</span></div>
                                                         <div className="flex gap-2">
                                                             <button onClick={() => updateDebug('heavyInterrupt', 0)} className={`flex-1 py-1 text-xs border rounded ${debugValues.heavyInterrupt === 0 ? 'bg-yellow-900/50 border-yellow-600' : 'border-gray-700'}`}>No</button>
@@ -3557,6 +3194,24 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
                                                         </div></div>
                                                     </div>
                                                 </div>
+
+                                                {/* Focus */}
+                                                <div className="bg-gray-800/30 p-2 rounded border border-gray-800">
+                                                    <h5 className="text-yellow-700 font-bold mb-2">Focus Scaling</h5>
+                                                    <div className="space-y-3">
+                                                        <div><div className="flex justify-between"><span>Damage per Pip</span><span className="text-yellow-500">{debugValues.heavyPipDamage.toFixed(2)}</span></div>
+                                                        <input type="range" min="0" max="2" step="0.05" value={debugValues.heavyPipDamage} onChange={(e) => updateDebug('heavyPipDamage', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Range per Pip</span><span className="text-yellow-500">{debugValues.heavyPipRange.toFixed(2)}</span></div>
+                                                        <input type="range" min="0" max="1" step="0.05" value={debugValues.heavyPipRange} onChange={(e) => updateDebug('heavyPipRange', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Focus per Light Hit</span><span className="text-yellow-500">{debugValues.focusPerHit.toFixed(2)}</span></div>
+                                                        <input type="range" min="0" max="1" step="0.05" value={debugValues.focusPerHit} onChange={(e) => updateDebug('focusPerHit', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Focus per Perfect Dodge</span><span className="text-yellow-500">{debugValues.focusPerPerfectDodge.toFixed(2)}</span></div>
+                                                        <input type="range" min="0" max="4" step="0.25" value={debugValues.focusPerPerfectDodge} onChange={(e) => updateDebug('focusPerPerfectDodge', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+                                                    </div>
+                                                </div>
                                              </div>
                                         )}
 
@@ -3579,6 +3234,185 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
 
                                                         <div><div className="flex justify-between"><span>Plunge Speed</span><span className="text-yellow-500">{debugValues.kPlungeSpeed}</span></div>
                                                         <input type="range" min="10" max="40" step="1" value={debugValues.kPlungeSpeed} onChange={(e) => updateDebug('kPlungeSpeed', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Poise Damage</span><span className="text-yellow-500">{debugValues.kPoise}</span></div>
+                                                        <input type="range" min="0" max="100" step="1" value={debugValues.kPoise} onChange={(e) => updateDebug('kPoise', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+                                                    </div>
+                                                </div>
+                                             </div>
+                                        )}
+
+                                        {selectedEntity === 'player' && selectedSkill === 'throw' && (
+                                             <div className="flex flex-col gap-4">
+                                                <div className="bg-gray-800/30 p-2 rounded border border-gray-800">
+                                                    <h5 className="text-yellow-700 font-bold mb-2">Staff Throw (U) Logic</h5>
+                                                    <div className="space-y-3">
+                                                        <div><div className="flex justify-between"><span>Damage</span><span className="text-yellow-500">{debugValues.throwDamage}</span></div>
+                                                        <input type="range" min="5" max="80" step="1" value={debugValues.throwDamage} onChange={(e) => updateDebug('throwDamage', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Throw Speed</span><span className="text-yellow-500">{debugValues.throwSpeed}</span></div>
+                                                        <input type="range" min="4" max="30" step="1" value={debugValues.throwSpeed} onChange={(e) => updateDebug('throwSpeed', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Cooldown (Frames)</span><span className="text-yellow-500">{debugValues.throwCooldown}</span></div>
+                                                        <input type="range" min="0" max="240" step="5" value={debugValues.throwCooldown} onChange={(e) => updateDebug('throwCooldown', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+                                                    </div>
+                                                </div>
+                                             </div>
+                                        )}
+
+                                        {selectedEntity === 'player' && selectedSkill === 'parry' && (
+                                             <div className="flex flex-col gap-4">
+                                                <div className="bg-gray-800/30 p-2 rounded border border-gray-800">
+                                                    <h5 className="text-yellow-700 font-bold mb-2">Deflect Timing</h5>
+                                                    <div className="space-y-3">
+                                                        <div><div className="flex justify-between"><span>Deflect Window (Frames)</span><span className="text-yellow-500">{debugValues.parryWindow}</span></div>
+                                                        <input type="range" min="1" max="30" step="1" value={debugValues.parryWindow} onChange={(e) => updateDebug('parryWindow', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Whiff Recovery</span><span className="text-yellow-500">{debugValues.parryRecovery}</span></div>
+                                                        <input type="range" min="0" max="60" step="1" value={debugValues.parryRecovery} onChange={(e) => updateDebug('parryRecovery', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Cooldown</span><span className="text-yellow-500">{debugValues.parryCooldown}</span></div>
+                                                        <input type="range" min="0" max="120" step="5" value={debugValues.parryCooldown} onChange={(e) => updateDebug('parryCooldown', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Boss Stun Frames</span><span className="text-yellow-500">{debugValues.parryStun}</span></div>
+                                                        <input type="range" min="0" max="120" step="5" value={debugValues.parryStun} onChange={(e) => updateDebug('parryStun', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Poise Damage</span><span className="text-yellow-500">{debugValues.parryPoise}</span></div>
+                                                        <input type="range" min="0" max="100" step="1" value={debugValues.parryPoise} onChange={(e) => updateDebug('parryPoise', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+                                                    </div>
+                                                </div>
+                                                <div className="bg-gray-800/30 p-2 rounded border border-gray-800">
+                                                    <h5 className="text-yellow-700 font-bold mb-2">Counter Attack</h5>
+                                                    <div className="space-y-3">
+                                                        <div><div className="flex justify-between"><span>Counter Window (Frames)</span><span className="text-yellow-500">{debugValues.counterWindow}</span></div>
+                                                        <input type="range" min="10" max="180" step="5" value={debugValues.counterWindow} onChange={(e) => updateDebug('counterWindow', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Damage Multiplier</span><span className="text-yellow-500">{debugValues.counterMultiplier.toFixed(1)}x</span></div>
+                                                        <input type="range" min="1" max="5" step="0.1" value={debugValues.counterMultiplier} onChange={(e) => updateDebug('counterMultiplier', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Deflect Score</span><span className="text-yellow-500">{debugValues.parryScore}</span></div>
+                                                        <input type="range" min="0" max="500" step="10" value={debugValues.parryScore} onChange={(e) => updateDebug('parryScore', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Counter Score</span><span className="text-yellow-500">{debugValues.counterScore}</span></div>
+                                                        <input type="range" min="0" max="500" step="10" value={debugValues.counterScore} onChange={(e) => updateDebug('counterScore', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+                                                    </div>
+                                                </div>
+                                             </div>
+                                        )}
+
+                                        {selectedEntity === 'player' && selectedSkill === 'stances' && (
+                                             <div className="flex flex-col gap-4">
+                                                <div className="bg-gray-800/30 p-2 rounded border border-gray-800">
+                                                    <h5 className="text-yellow-700 font-bold mb-2">Pillar: Heavy (Climb &amp; Drop)</h5>
+                                                    <div className="space-y-3">
+                                                        <div><div className="flex justify-between"><span>Climb Height</span><span className="text-yellow-500">{debugValues.pillarHeight}</span></div>
+                                                        <input type="range" min="40" max="200" step="5" value={debugValues.pillarHeight} onChange={(e) => updateDebug('pillarHeight', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Hold Frames</span><span className="text-yellow-500">{debugValues.pillarHold}</span></div>
+                                                        <input type="range" min="0" max="90" step="1" value={debugValues.pillarHold} onChange={(e) => updateDebug('pillarHold', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Damage</span><span className="text-yellow-500">{debugValues.pillarDamage}</span></div>
+                                                        <input type="range" min="10" max="200" step="5" value={debugValues.pillarDamage} onChange={(e) => updateDebug('pillarDamage', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Shockwave Radius</span><span className="text-yellow-500">{debugValues.pillarRadius}</span></div>
+                                                        <input type="range" min="20" max="250" step="5" value={debugValues.pillarRadius} onChange={(e) => updateDebug('pillarRadius', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Knockback</span><span className="text-yellow-500">{debugValues.pillarKnockback}</span></div>
+                                                        <input type="range" min="0" max="30" step="1" value={debugValues.pillarKnockback} onChange={(e) => updateDebug('pillarKnockback', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Boss Stun Frames</span><span className="text-yellow-500">{debugValues.pillarStun}</span></div>
+                                                        <input type="range" min="0" max="60" step="1" value={debugValues.pillarStun} onChange={(e) => updateDebug('pillarStun', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Screen Shake</span><span className="text-yellow-500">{debugValues.pillarShake}</span></div>
+                                                        <input type="range" min="0" max="50" step="1" value={debugValues.pillarShake} onChange={(e) => updateDebug('pillarShake', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Poise Damage</span><span className="text-yellow-500">{debugValues.pillarPoise}</span></div>
+                                                        <input type="range" min="0" max="100" step="1" value={debugValues.pillarPoise} onChange={(e) => updateDebug('pillarPoise', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+                                                    </div>
+                                                </div>
+                                                <div className="bg-gray-800/30 p-2 rounded border border-gray-800">
+                                                    <h5 className="text-yellow-700 font-bold mb-2">Pillar: Finisher (Vault Kick)</h5>
+                                                    <div className="space-y-3">
+                                                        <div><div className="flex justify-between"><span>Damage</span><span className="text-yellow-500">{debugValues.pillarFinisherDamage}</span></div>
+                                                        <input type="range" min="5" max="150" step="5" value={debugValues.pillarFinisherDamage} onChange={(e) => updateDebug('pillarFinisherDamage', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Radius</span><span className="text-yellow-500">{debugValues.pillarFinisherRadius}</span></div>
+                                                        <input type="range" min="20" max="200" step="5" value={debugValues.pillarFinisherRadius} onChange={(e) => updateDebug('pillarFinisherRadius', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Poise Damage</span><span className="text-yellow-500">{debugValues.pillarFinisherPoise}</span></div>
+                                                        <input type="range" min="0" max="100" step="1" value={debugValues.pillarFinisherPoise} onChange={(e) => updateDebug('pillarFinisherPoise', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+                                                    </div>
+                                                </div>
+                                                <div className="bg-gray-800/30 p-2 rounded border border-gray-800">
+                                                    <h5 className="text-yellow-700 font-bold mb-2">Thrust: Heavy (Poke)</h5>
+                                                    <div className="space-y-3">
+                                                        <div><div className="flex justify-between"><span>Range</span><span className="text-yellow-500">{debugValues.thrustRange}</span></div>
+                                                        <input type="range" min="100" max="500" step="10" value={debugValues.thrustRange} onChange={(e) => updateDebug('thrustRange', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Damage</span><span className="text-yellow-500">{debugValues.thrustDamage}</span></div>
+                                                        <input type="range" min="10" max="200" step="5" value={debugValues.thrustDamage} onChange={(e) => updateDebug('thrustDamage', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Lunge Speed</span><span className="text-yellow-500">{debugValues.thrustLunge}</span></div>
+                                                        <input type="range" min="0" max="30" step="1" value={debugValues.thrustLunge} onChange={(e) => updateDebug('thrustLunge', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Knockback</span><span className="text-yellow-500">{debugValues.thrustKnockback}</span></div>
+                                                        <input type="range" min="0" max="30" step="1" value={debugValues.thrustKnockback} onChange={(e) => updateDebug('thrustKnockback', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Stun Frames</span><span className="text-yellow-500">{debugValues.thrustStun}</span></div>
+                                                        <input type="range" min="0" max="60" step="1" value={debugValues.thrustStun} onChange={(e) => updateDebug('thrustStun', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Screen Shake</span><span className="text-yellow-500">{debugValues.thrustShake}</span></div>
+                                                        <input type="range" min="0" max="50" step="1" value={debugValues.thrustShake} onChange={(e) => updateDebug('thrustShake', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Poise Damage</span><span className="text-yellow-500">{debugValues.thrustPoise}</span></div>
+                                                        <input type="range" min="0" max="100" step="1" value={debugValues.thrustPoise} onChange={(e) => updateDebug('thrustPoise', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+                                                    </div>
+                                                </div>
+                                                <div className="bg-gray-800/30 p-2 rounded border border-gray-800">
+                                                    <h5 className="text-yellow-700 font-bold mb-2">Thrust: Finisher (Lunge)</h5>
+                                                    <div className="space-y-3">
+                                                        <div><div className="flex justify-between"><span>Damage</span><span className="text-yellow-500">{debugValues.thrustFinisherDamage}</span></div>
+                                                        <input type="range" min="5" max="150" step="5" value={debugValues.thrustFinisherDamage} onChange={(e) => updateDebug('thrustFinisherDamage', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Range</span><span className="text-yellow-500">{debugValues.thrustFinisherRange}</span></div>
+                                                        <input type="range" min="50" max="400" step="10" value={debugValues.thrustFinisherRange} onChange={(e) => updateDebug('thrustFinisherRange', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Poise Damage</span><span className="text-yellow-500">{debugValues.thrustFinisherPoise}</span></div>
+                                                        <input type="range" min="0" max="100" step="1" value={debugValues.thrustFinisherPoise} onChange={(e) => updateDebug('thrustFinisherPoise', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+                                                    </div>
+                                                </div>
+                                             </div>
+                                        )}
+
+                                        {selectedEntity === 'player' && selectedSkill === 'spells' && (
+                                             <div className="flex flex-col gap-4">
+                                                <div className="bg-gray-800/30 p-2 rounded border border-gray-800">
+                                                    <h5 className="text-yellow-700 font-bold mb-2">Mana Costs</h5>
+                                                    <div className="space-y-3">
+                                                        <div><div className="flex justify-between"><span>Immobilize</span><span className="text-yellow-500">{debugValues.immobilizeCost}</span></div>
+                                                        <input type="range" min="0" max="100" step="1" value={debugValues.immobilizeCost} onChange={(e) => updateDebug('immobilizeCost', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Cloud Step</span><span className="text-yellow-500">{debugValues.cloudStepCost}</span></div>
+                                                        <input type="range" min="0" max="100" step="1" value={debugValues.cloudStepCost} onChange={(e) => updateDebug('cloudStepCost', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Ring of Fire</span><span className="text-yellow-500">{debugValues.ringOfFireCost}</span></div>
+                                                        <input type="range" min="0" max="100" step="1" value={debugValues.ringOfFireCost} onChange={(e) => updateDebug('ringOfFireCost', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Rock Solid</span><span className="text-yellow-500">{debugValues.rockSolidCost}</span></div>
+                                                        <input type="range" min="0" max="100" step="1" value={debugValues.rockSolidCost} onChange={(e) => updateDebug('rockSolidCost', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Red Tides (T)</span><span className="text-yellow-500">{debugValues.redTidesCost}</span></div>
+                                                        <input type="range" min="0" max="100" step="1" value={debugValues.redTidesCost} onChange={(e) => updateDebug('redTidesCost', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+                                                    </div>
+                                                </div>
+                                                <div className="bg-gray-800/30 p-2 rounded border border-gray-800">
+                                                    <h5 className="text-yellow-700 font-bold mb-2">Mana Recovery</h5>
+                                                    <div className="space-y-3">
+                                                        <div><div className="flex justify-between"><span>Regen (Per Frame)</span><span className="text-yellow-500">{debugValues.manaRegen.toFixed(2)}</span></div>
+                                                        <input type="range" min="0" max="0.5" step="0.01" value={debugValues.manaRegen} onChange={(e) => updateDebug('manaRegen', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Gain Per Hit</span><span className="text-yellow-500">{debugValues.manaPerHit}</span></div>
+                                                        <input type="range" min="0" max="20" step="0.5" value={debugValues.manaPerHit} onChange={(e) => updateDebug('manaPerHit', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
                                                     </div>
                                                 </div>
                                              </div>
@@ -3597,6 +3431,9 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
 
                                                         <div><div className="flex justify-between"><span>Damage</span><span className="text-yellow-500">{debugValues.setsuDamage}</span></div>
                                                         <input type="range" min="5" max="100" step="5" value={debugValues.setsuDamage} onChange={(e) => updateDebug('setsuDamage', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
+
+                                                        <div><div className="flex justify-between"><span>Poise Damage</span><span className="text-yellow-500">{debugValues.setsuPoise}</span></div>
+                                                        <input type="range" min="0" max="100" step="1" value={debugValues.setsuPoise} onChange={(e) => updateDebug('setsuPoise', parseFloat(e.target.value))} className="w-full accent-yellow-600" /></div>
                                                     </div>
                                                 </div>
 
@@ -3654,11 +3491,111 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
                                     </div>
                                 </div>
                             )}
+
+                            {/* BOSS AI TAB */}
+                            {debugTab === 'ai' && (
+                                <div className="flex flex-col gap-2">
+                                    <h3 className="font-bold text-gray-400 uppercase text-[10px] tracking-widest mb-1 border-b border-gray-800 pb-1">Boss</h3>
+                                    <div className="flex gap-2 flex-wrap">
+                                        {getBossIds().map(id => (
+                                            <button
+                                                key={id}
+                                                onClick={() => fightBoss(id)}
+                                                className={`px-2 py-1 rounded border ${bossId === id ? 'border-yellow-600 text-yellow-500' : 'border-gray-700 hover:border-yellow-600 hover:text-yellow-500'}`}
+                                            >
+                                                {getBossDefinition(id).name}
+                                            </button>
+                                        ))}
+                                        <button
+                                            onClick={() => bossFileRef.current?.click()}
+                                            className="px-2 py-1 rounded border border-gray-700 hover:border-yellow-600 hover:text-yellow-500"
+                                        >
+                                            Import JSON
+                                        </button>
+                                        <input
+                                            ref={bossFileRef}
+                                            type="file"
+                                            accept="application/json,.json"
+                                            className="hidden"
+                                            onChange={(e) => {
+                                                const file = e.target.files?.[0];
+                                                if (file) importBossFile(file);
+                                                e.target.value = '';
+                                            }}
+                                        />
+                                    </div>
+                                    {bossError && <div className="text-red-500">{bossError}</div>}
+
+                                    <h3 className="font-bold text-gray-400 uppercase text-[10px] tracking-widest mb-1 border-b border-gray-800 pb-1">Recent Decisions</h3>
+                                    {debugValues.bossBehavior !== 'normal' && (
+                                        <p className="text-gray-500 italic">Decisions are only made with the Normal boss behavior.</p>
+                                    )}
+                                    {bossDecisions.map(d => (
+                                        <div key={d.tick} className="bg-gray-800/30 p-2 rounded border border-gray-800">
+                                            <div className="flex justify-between">
+                                                <span className="text-yellow-500 font-bold">{d.choice}</span>
+                                                <span className="text-gray-600">tick {d.tick}</span>
+                                            </div>
+                                            <div className="text-gray-400">{d.reasons.join(' · ')}</div>
+                                            <div className="flex gap-3 flex-wrap text-[10px] text-gray-500 mt-1">
+                                                {d.options.map(o => (
+                                                    <span key={o.label} className={o.label === d.choice ? 'text-yellow-600' : ''}>{o.label} {o.score.toFixed(2)}</span>
+                                                ))}
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
                         </div>
                     </div>
                 )}
             </>
         )}
+
+        {/* Replay Controls */}
+        {gameState === GameState.REPLAY && replay && (
+            <div className="absolute bottom-2 left-1/2 -translate-x-1/2 bg-neutral-900/90 rounded border border-gray-700 text-xs text-gray-300 px-3 py-2 shadow-xl backdrop-blur z-20 flex items-center gap-3">
+                <span className="text-red-500 font-bold tracking-widest uppercase">Replay</span>
+                <button
+                    onClick={() => updatePlayback({ paused: !playback.paused })}
+                    disabled={playback.tick >= replay.inputs.length}
+                    className="px-2 py-1 rounded border border-gray-700 hover:border-yellow-600 hover:text-yellow-500 disabled:opacity-40"
+                >
+                    {playback.paused ? 'Play' : 'Pause'}
+                </button>
+                <button
+                    onClick={stepReplayFrame}
+                    disabled={!playback.paused || playback.tick >= replay.inputs.length}
+                    className="px-2 py-1 rounded border border-gray-700 hover:border-yellow-600 hover:text-yellow-500 disabled:opacity-40"
+                >
+                    Step
+                </button>
+                <div className="flex gap-1">
+                    {REPLAY_SPEEDS.map(sp => (
+                        <button
+                            key={sp}
+                            onClick={() => updatePlayback({ speed: sp })}
+                            className={`px-2 py-1 rounded border ${playback.speed === sp ? 'border-yellow-600 bg-yellow-900/30 text-yellow-500' : 'border-gray-700 text-gray-400'}`}
+                        >
+                            {sp}x
+                        </button>
+                    ))}
+                </div>
+                <span className="font-mono text-gray-500 w-24 text-right">{playback.tick} / {replay.inputs.length}</span>
+                <button
+                    onClick={restartReplay}
+                    className="px-2 py-1 rounded border border-gray-700 hover:border-yellow-600 hover:text-yellow-500"
+                >
+                    Restart
+                </button>
+                <button
+                    onClick={onExitReplay}
+                    className="px-2 py-1 rounded border border-red-800 text-red-400 hover:bg-red-900/30"
+                >
+                    Exit
+                </button>
+            </div>
+        )}
     </div>
   );
 };
@@ -1,6 +1,7 @@
 
-import React from 'react';
-import { GameState, LevelData } from '../types';
+import React, { useRef } from 'react';
+import { BossPoiseMeter, GameState, LevelData, ManaMeter, SpellSlotHud, StaffStance, StaminaMeter, TransformMeter } from '../types';
+import { FOCUS_MAX_PIPS } from '../game/constants';
 
 interface GameUIProps {
   gameState: GameState;
@@ -8,28 +9,81 @@ interface GameUIProps {
   playerMaxHealth: number;
   bossHealth: number;
   bossMaxHealth: number;
-  stamina: number;
+  bossBarColor: string; // Changes with the boss phase
+  bossPoise: BossPoiseMeter;
+  stamina: StaminaMeter; // Snapshot emitted by the simulation
+  focus: number; // Fractional Focus pips
+  gourdCharges: number;
+  gourdMaxCharges: number;
+  spellSlots: SpellSlotHud[];
+  mana: ManaMeter;
+  manaFailures: number; // Count of fizzled casts; each change flashes the mana bar
+  transform: TransformMeter;
+  stance: StaffStance;
   levelData: LevelData | null;
   score: number;
+  will: number; // Currency banked from defeated enemies
+  loudTelegraphCue: boolean;
+  onToggleLoudTelegraphCue: () => void;
   onStart: () => void;
   onRestart: () => void;
+  onResume: () => void;
+  onQuit: () => void; // Back to the title screen
+  hasReplay: boolean;
+  replayError: string | null;
+  onWatchReplay: () => void;
+  onExportReplay: () => void;
+  onImportReplay: (file: File) => void;
 }
 
+const SPELL_KEYS = ['I', '2', '3', '4', 'T'];
+
+const STANCES: { id: StaffStance; name: string; icon: string }[] = [
+  { id: 'smash', name: 'Smash', icon: '劈' },
+  { id: 'pillar', name: 'Pillar', icon: '立' },
+  { id: 'thrust', name: 'Thrust', icon: '戳' }
+];
+
 const GameUI: React.FC<GameUIProps> = ({
   gameState,
   playerHealth,
   playerMaxHealth,
   bossHealth,
   bossMaxHealth,
+  bossBarColor,
+  bossPoise,
   stamina,
+  focus,
+  gourdCharges,
+  gourdMaxCharges,
+  spellSlots,
+  mana,
+  manaFailures,
+  transform,
+  stance,
   levelData,
   score,
+  will,
+  loudTelegraphCue,
+  onToggleLoudTelegraphCue,
   onStart,
-  onRestart
+  onRestart,
+  onResume,
+  onQuit,
+  hasReplay,
+  replayError,
+  onWatchReplay,
+  onExportReplay,
+  onImportReplay
 }) => {
+  const replayInputRef = useRef<HTMLInputElement>(null);
+
   const healthPercent = Math.max(0, (playerHealth / playerMaxHealth) * 100);
   const bossHealthPercent = Math.max(0, (bossHealth / bossMaxHealth) * 100);
-  const staminaPercent = Math.max(0, stamina); // Assuming stamina is 0-100
+  const bossPoisePercent = bossPoise.staggered ? 100 : Math.max(0, (bossPoise.poise / bossPoise.max) * 100);
+  const staminaPercent = Math.max(0, (stamina.stamina / stamina.max) * 100);
+  const manaPercent = Math.max(0, (mana.mana / mana.max) * 100);
+  const transformPercent = transform.max > 0 ? Math.max(0, (transform.gauge / transform.max) * 100) : 0;
 
   if (gameState === GameState.MENU) {
     return (
@@ -44,6 +98,14 @@ const GameUI: React.FC<GameUIProps> = ({
         >
           Reawaken Destiny
         </button>
+
+        {/* Accessibility */}
+        <button
+          onClick={onToggleLoudTelegraphCue}
+          className="mt-6 px-4 py-2 border border-gray-700 text-gray-400 text-xs hover:text-yellow-500 hover:border-yellow-700 transition-all uppercase tracking-wider"
+        >
+          Loud Attack Warnings: {loudTelegraphCue ? 'On' : 'Off'}
+        </button>
       </div>
     );
   }
@@ -58,6 +120,47 @@ const GameUI: React.FC<GameUIProps> = ({
     );
   }
 
+  if (gameState === GameState.PAUSED) {
+    return (
+      <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/60 z-50">
+        <h2 className="text-5xl font-serif text-yellow-600 mb-8 tracking-widest">PAUSED</h2>
+        <div className="flex flex-col gap-3 w-56">
+          <button
+            onClick={onResume}
+            className="px-8 py-3 border-2 border-yellow-700 text-yellow-600 hover:bg-yellow-900/30 hover:text-yellow-400 transition-all uppercase tracking-wider"
+          >
+            Resume
+          </button>
+          <button
+            onClick={onRestart}
+            className="px-8 py-2 border border-gray-500 text-gray-300 hover:bg-gray-800 transition-all uppercase tracking-wider"
+          >
+            Restart
+          </button>
+        </div>
+
+        {/* Settings */}
+        <div className="flex flex-col items-center gap-2 mt-6 text-xs">
+          <span className="text-gray-500 uppercase tracking-widest">Settings</span>
+          <button
+            onClick={onToggleLoudTelegraphCue}
+            className="px-4 py-2 border border-gray-700 text-gray-400 hover:text-yellow-500 hover:border-yellow-700 transition-all uppercase tracking-wider"
+          >
+            Loud Attack Warnings: {loudTelegraphCue ? 'On' : 'Off'}
+          </button>
+        </div>
+
+        <button
+          onClick={onQuit}
+          className="mt-8 px-4 py-2 border border-red-800 text-red-400 text-xs hover:bg-red-900/30 transition-all uppercase tracking-wider"
+        >
+          Quit to Title
+        </button>
+        <p className="text-gray-600 text-xs mt-4">Esc to resume</p>
+      </div>
+    );
+  }
+
   if (gameState === GameState.GAME_OVER || gameState === GameState.VICTORY) {
     return (
       <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/80 z-50">
@@ -71,6 +174,42 @@ const GameUI: React.FC<GameUIProps> = ({
         >
           Try Again
         </button>
+
+        {/* Replay Options */}
+        <div className="flex gap-3 mt-6 text-xs">
+          <button
+            onClick={onWatchReplay}
+            disabled={!hasReplay}
+            className="px-4 py-2 border border-gray-700 text-gray-400 hover:text-yellow-500 hover:border-yellow-700 transition-all uppercase tracking-wider disabled:opacity-40"
+          >
+            Watch Replay
+          </button>
+          <button
+            onClick={onExportReplay}
+            disabled={!hasReplay}
+            className="px-4 py-2 border border-gray-700 text-gray-400 hover:text-yellow-500 hover:border-yellow-700 transition-all uppercase tracking-wider disabled:opacity-40"
+          >
+            Export
+          </button>
+          <button
+            onClick={() => replayInputRef.current?.click()}
+            className="px-4 py-2 border border-gray-700 text-gray-400 hover:text-yellow-500 hover:border-yellow-700 transition-all uppercase tracking-wider"
+          >
+            Import
+          </button>
+          <input
+            ref={replayInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImportReplay(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        {replayError && <p className="text-red-700 text-xs mt-3">{replayError}</p>}
       </div>
     );
   }
@@ -87,13 +226,70 @@ const GameUI: React.FC<GameUIProps> = ({
               style={{ width: `${healthPercent}%` }}
             />
           </div>
-          {/* Stamina */}
-          <div className="relative h-2 bg-gray-900 border border-gray-700 w-3/4">
+          {/* Stamina + Focus Pips */}
+          <div className="flex items-center gap-2">
+            <div className="relative h-2 bg-gray-900 border border-gray-700 w-3/4">
+              <div
+                className={`h-full transition-all duration-200 ${stamina.exhausted ? 'bg-red-900 animate-pulse' : 'bg-yellow-600'}`}
+                style={{ width: `${staminaPercent}%` }}
+              />
+            </div>
+            <div className="flex gap-1">
+              {Array.from({ length: FOCUS_MAX_PIPS }, (_, i) => {
+                const fill = Math.max(0, Math.min(1, focus - i));
+                return (
+                  <div key={i} className={`relative w-2 h-2 rotate-45 bg-gray-900 border overflow-hidden ${fill >= 1 ? 'border-amber-400' : 'border-gray-700'}`}>
+                    <div className="absolute bottom-0 left-0 right-0 bg-amber-500" style={{ height: `${fill * 100}%` }} />
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+          {/* Mana */}
+          <div
+            key={manaFailures}
+            className={`relative h-2 bg-gray-900 border border-gray-700 w-3/4 ${manaFailures > 0 ? 'animate-[manaFlash_0.4s]' : ''}`}
+          >
             <div
-              className="h-full bg-yellow-600 transition-all duration-200"
-              style={{ width: `${staminaPercent}%` }}
+              className="h-full bg-blue-600 transition-all duration-200"
+              style={{ width: `${manaPercent}%` }}
             />
           </div>
+          {/* Transformation Gauge */}
+          {transform.name && (
+            <div className="flex items-center gap-2">
+              <div className="relative h-2 bg-gray-900 border border-red-900 w-3/4">
+                <div
+                  className={`h-full transition-all duration-200 ${transform.gauge > 0 ? 'bg-gradient-to-r from-red-700 to-orange-500' : 'bg-gray-600 animate-pulse'}`}
+                  style={{ width: `${transformPercent}%` }}
+                />
+              </div>
+              <span className="text-orange-500 text-[10px] font-serif">{transform.name}</span>
+            </div>
+          )}
+          {/* Gourd Charges */}
+          <div className="flex items-center gap-1">
+            {Array.from({ length: gourdMaxCharges }, (_, i) => (
+              <div
+                key={i}
+                className={`w-2 h-3 rounded-full border ${i < gourdCharges ? 'bg-amber-600 border-amber-400' : 'bg-gray-900 border-gray-700'}`}
+              />
+            ))}
+            <span className="text-gray-500 text-[10px] font-serif ml-1">Gourd</span>
+          </div>
+          {/* Staff Stance */}
+          <div className="flex items-center gap-1">
+            {STANCES.map(s => (
+              <div
+                key={s.id}
+                title={s.name}
+                className={`w-5 h-5 flex items-center justify-center border font-serif text-xs ${s.id === stance ? 'border-yellow-500 text-yellow-400 bg-yellow-900/40' : 'border-gray-800 text-gray-600 bg-black/50'}`}
+              >
+                {s.icon}
+              </div>
+            ))}
+            <span className="text-gray-500 text-[10px] font-serif ml-1">{STANCES.find(s => s.id === stance)?.name}</span>
+          </div>
           <div className="text-yellow-700 text-xs font-serif tracking-widest uppercase mt-1">
             Destined One
           </div>
@@ -103,6 +299,7 @@ const GameUI: React.FC<GameUIProps> = ({
         <div className="text-center">
           <h3 className="text-gray-500 text-xs tracking-[0.2em] uppercase">{levelData?.chapterTitle}</h3>
           <div className="text-yellow-900/50 text-4xl font-serif font-bold">{score}</div>
+          <div className="text-amber-300/70 text-xs font-serif tracking-widest">灵蕴 {will}</div>
         </div>
       </div>
 
@@ -115,13 +312,48 @@ const GameUI: React.FC<GameUIProps> = ({
           </div>
           <div className="h-3 bg-gray-900 border border-gray-600">
              <div
-              className="h-full bg-purple-900 transition-all duration-200"
-              style={{ width: `${bossHealthPercent}%` }}
+              className="h-full transition-all duration-200"
+              style={{ width: `${bossHealthPercent}%`, backgroundColor: bossBarColor }}
             />
           </div>
+          {/* Poise */}
+          <div className="relative h-1 mt-1 bg-gray-900 border border-gray-800">
+            <div
+              className={`h-full transition-all duration-200 ${bossPoise.staggered ? 'bg-yellow-300 animate-pulse' : 'bg-yellow-700'}`}
+              style={{ width: `${bossPoisePercent}%` }}
+            />
+          </div>
+          {bossPoise.staggered && (
+            <div className="text-yellow-400 text-xs font-serif tracking-widest uppercase mt-1 animate-pulse">Staggered</div>
+          )}
         </div>
       )}
       
+      {/* Spell Slots */}
+      <div className="absolute bottom-4 left-4 flex gap-2">
+        {spellSlots.map((slot, i) => {
+          const remaining = slot.maxCooldown > 0 ? (slot.cooldown / slot.maxCooldown) * 100 : 0;
+          return (
+            <div key={slot.id} className="flex flex-col items-center gap-1">
+              <div
+                className="relative w-10 h-10 border border-gray-700 bg-black/70 flex items-center justify-center font-serif text-lg"
+                style={{ color: slot.color }}
+                title={slot.name}
+              >
+                {slot.icon}
+                {slot.cooldown > 0 && (
+                  <div
+                    className="absolute inset-0"
+                    style={{ background: `conic-gradient(rgba(0,0,0,0.75) ${remaining}%, transparent ${remaining}%)` }}
+                  />
+                )}
+              </div>
+              <span className="text-gray-500 text-[10px] font-serif">{SPELL_KEYS[i]}</span>
+            </div>
+          );
+        })}
+      </div>
+
       {/* Intro Text Overlay (Fades out) */}
       {gameState === GameState.PLAYING && levelData && score < 10 && (
         <div className="absolute top-1/4 left-0 right-0 flex justify-center animate-[fadeOut_5s_forwards] pointer-events-none">
@@ -141,9 +373,17 @@ const GameUI: React.FC<GameUIProps> = ({
             <div className="flex justify-between gap-4"><span className="text-yellow-700 font-bold">J</span> <span>Attack</span></div>
             <div className="flex justify-between gap-4"><span className="text-yellow-700 font-bold">Hold J</span> <span>Heavy</span></div>
             <div className="flex justify-between gap-4"><span className="text-yellow-700 font-bold">K</span> <span>Cloud Strike</span></div>
+            <div className="flex justify-between gap-4"><span className="text-yellow-700 font-bold">U</span> <span>Throw Staff</span></div>
             <div className="flex justify-between gap-4"><span className="text-yellow-700 font-bold">L / Shift</span> <span>Dodge</span></div>
-            <div className="flex justify-between gap-4"><span className="text-yellow-700 font-bold">I</span> <span>Immobilize</span></div>
+            <div className="flex justify-between gap-4"><span className="text-yellow-700 font-bold">Hold L</span> <span>Sprint</span></div>
+            <div className="flex justify-between gap-4"><span className="text-yellow-700 font-bold">O</span> <span>Deflect</span></div>
+            <div className="flex justify-between gap-4"><span className="text-yellow-700 font-bold">R</span> <span>Drink Gourd</span></div>
+            <div className="flex justify-between gap-4"><span className="text-yellow-700 font-bold">I / 1-4</span> <span>Spells</span></div>
+            <div className="flex justify-between gap-4"><span className="text-yellow-700 font-bold">T</span> <span>Transform</span></div>
+            <div className="flex justify-between gap-4"><span className="text-yellow-700 font-bold">Q</span> <span>Switch Stance</span></div>
+            <div className="flex justify-between gap-4"><span className="text-yellow-700 font-bold">E</span> <span>Lock-On</span></div>
             <div className="flex justify-between gap-4"><span className="text-yellow-700 font-bold">Hold N</span> <span>Setsugekka</span></div>
+            <div className="flex justify-between gap-4"><span className="text-yellow-700 font-bold">Esc</span> <span>Pause</span></div>
         </div>
       </div>
 
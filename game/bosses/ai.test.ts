@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { BLACK_WIND_KING } from './blackWindKing';
+import { BossAIContext, decideBossAction } from './ai';
+
+const context = (overrides: Partial<BossAIContext>): BossAIContext => ({
+    tick: 0,
+    distance: BLACK_WIND_KING.moves[0].hitbox.offsetX,
+    canAttack: true,
+    moveCooldowns: {},
+    healthRatio: 1,
+    player: { attacking: false, dodging: false, airborne: false },
+    moves: BLACK_WIND_KING.moves,
+    movement: BLACK_WIND_KING.movement,
+    profile: { ...BLACK_WIND_KING.ai, randomness: 0 },
+    ...overrides
+});
+
+describe('decideBossAction', () => {
+    it('picks a move that reaches the player', () => {
+        const { choice } = decideBossAction(context({}), () => 0.5);
+        expect(choice).toEqual({ type: 'move', move: BLACK_WIND_KING.moves[0] });
+    });
+
+    it('leaves a move out until its own cooldown has run down', () => {
+        const { decision } = decideBossAction(context({ moveCooldowns: { [BLACK_WIND_KING.moves[0].id]: 10 } }), () => 0.5);
+        expect(decision.options.map(o => o.label)).not.toContain(BLACK_WIND_KING.moves[0].id);
+    });
+
+    it('only moves while the shared attack cooldown is running', () => {
+        const { choice } = decideBossAction(context({ canAttack: false }), () => 0.5);
+        expect(choice.type).toBe('movement');
+    });
+});
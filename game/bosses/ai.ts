@@ -0,0 +1,129 @@
+import { BossAIProfile, BossDecision, BossDecisionOption, BossMoveDefinition, BossMovement, BossMovementAction } from '../../types';
+import { GRAVITY } from '../constants';
+
+// Utility AI for bosses: every option (each attack plus the footwork actions) is
+// scored from what the boss can observe, jittered slightly, and the best one wins.
+// Scores are built from named factors so the debug panel can show why.
+
+export interface BossAIContext {
+  tick: number;
+  distance: number; // Horizontal gap between the boss's and the player's centres
+  canAttack: boolean; // Attack cooldown has elapsed
+  moveCooldowns: Record<string, number>; // Ticks until each move can be picked again, by move id
+  healthRatio: number; // Boss health / max health
+  player: {
+    attacking: boolean;
+    dodging: boolean;
+    airborne: boolean;
+  };
+  moves: BossMoveDefinition[]; // Already re-weighted for the current phase
+  movement: BossMovement;
+  profile: BossAIProfile;
+}
+
+export type BossAIChoice =
+  | { type: 'move'; move: BossMoveDefinition }
+  | { type: 'movement'; action: BossMovementAction };
+
+interface ScoredOption {
+  choice: BossAIChoice;
+  label: string;
+  score: number;
+  reasons: string[];
+}
+
+const LOW_HEALTH = 0.3;
+
+// Ticks before the same move can be picked again, so the best scoring move can't
+// come out every time the shared attack cooldown opens
+export const getRepeatCooldown = (move: BossMoveDefinition): number => move.repeatCooldown ?? move.cooldown * 2;
+
+// Horizontal distance from the player to where the move's hitbox will be centred
+const predictStrikeGap = (move: BossMoveDefinition, distance: number): number => {
+    if (move.kind === 'leap' && move.leap) {
+        const airTime = (2 * Math.abs(move.leap.vy)) / GRAVITY;
+        return Math.abs(distance - move.leap.vx * airTime - move.hitbox.offsetX);
+    }
+    return Math.abs(distance - move.hitbox.offsetX);
+};
+
+const scoreMove = (ctx: BossAIContext, move: BossMoveDefinition): ScoredOption => {
+    const reasons: string[] = [`weight ${move.weight}`];
+    let score = move.weight * ctx.profile.aggression;
+
+    if (predictStrikeGap(move, ctx.distance) < move.hitbox.reach) {
+        score *= 1.5;
+        reasons.push('hitbox reaches');
+    } else {
+        score *= 0.2;
+        reasons.push('out of reach');
+    }
+    if (ctx.player.attacking && move.kind === 'slam') {
+        score *= 1.5;
+        reasons.push('punish attack');
+    }
+    if (ctx.player.dodging) {
+        score *= 0.3;
+        reasons.push('player dodging');
+    }
+    if (ctx.player.airborne && move.hitbox.height < 40) {
+        score *= 0.4;
+        reasons.push('player airborne');
+    }
+    if (ctx.healthRatio < LOW_HEALTH) {
+        score *= 1.3;
+        reasons.push('desperate');
+    }
+
+    return { choice: { type: 'move', move }, label: move.id, score, reasons };
+};
+
+const scoreMovement = (ctx: BossAIContext): ScoredOption[] => {
+    const { distance, movement, profile } = ctx;
+    const diff = distance - movement.preferredDistance;
+    const option = (action: BossMovementAction, score: number, reasons: string[]): ScoredOption =>
+        ({ choice: { type: 'movement', action }, label: action, score, reasons });
+
+    const approach = diff > movement.tolerance
+        ? option('approach', 0.5 + Math.min(2, diff / 100), ['too far'])
+        : option('approach', 0.05, ['close enough']);
+
+    let retreat = diff < -movement.tolerance
+        ? option('retreat', 0.5 + (-diff / 100) * profile.caution, ['too close'])
+        : option('retreat', 0.05, ['not crowded']);
+    if (ctx.player.attacking && diff < movement.tolerance) {
+        retreat = { ...retreat, score: retreat.score + profile.caution, reasons: [...retreat.reasons, 'avoid attack'] };
+    }
+
+    const hold = Math.abs(diff) <= movement.tolerance
+        ? option('hold', 0.8, ['at preferred distance'])
+        : option('hold', 0.2, ['off preferred distance']);
+
+    // A breather now and then, but never when cornered or losing
+    const idle = option('idle', ctx.healthRatio < LOW_HEALTH ? 0 : 0.1, ['catch breath']);
+
+    return [approach, retreat, hold, idle];
+};
+
+export const decideBossAction = (ctx: BossAIContext, random: () => number): { choice: BossAIChoice; decision: BossDecision } => {
+    const options: ScoredOption[] = scoreMovement(ctx);
+    if (ctx.canAttack) {
+        for (const move of ctx.moves) {
+            if (move.weight <= 0 || ctx.distance < move.range.min || ctx.distance > move.range.max) continue;
+            if ((ctx.moveCooldowns[move.id] || 0) > 0) continue;
+            options.push(scoreMove(ctx, move));
+        }
+    }
+
+    for (const option of options) {
+        option.score *= 1 + (random() - 0.5) * ctx.profile.randomness;
+    }
+    options.sort((a, b) => b.score - a.score);
+
+    const best = options[0];
+    const decisionOptions: BossDecisionOption[] = options.map(o => ({ label: o.label, score: Math.round(o.score * 100) / 100 }));
+    return {
+        choice: best.choice,
+        decision: { tick: ctx.tick, choice: best.label, reasons: best.reasons, options: decisionOptions }
+    };
+};
@@ -0,0 +1,138 @@
+import { BossDefinition } from '../../types';
+
+// The original chapter boss: a heavy kowtow slam up close and a leaping smash to close distance.
+// Below half health he roars, speeds up, adds a wide sweeping gust to the slam and hurls black wind orbs.
+export const BLACK_WIND_KING: BossDefinition = {
+    id: 'black_wind_king',
+    name: '黑风大王',
+    health: 1200,
+    width: 80,
+    height: 100,
+    spawn: { x: 600, y: 200 },
+    initialCooldown: 60,
+    barColor: '#581c87',
+    palette: {
+        body: '#581c87',
+        accent: '#3b0764',
+        eyes: '#ef4444',
+        airborne: '#7e22ce',
+        immobilized: '#fbbf24',
+        immobilizedAccent: '#d97706'
+    },
+    movement: {
+        preferredDistance: 220,
+        tolerance: 30,
+        retreatSpeed: 1.5,
+        approachSpeed: 1.0,
+        runAcceleration: 0.2,
+        maxRunSpeed: 2,
+        engageDistance: 350
+    },
+    poise: {
+        max: 100,
+        recoveryDelay: 90,
+        recoveryRate: 0.3,
+        staggerDuration: 180,
+        staggerDamageMultiplier: 1.5
+    },
+    ai: {
+        decisionInterval: 12,
+        aggression: 1,
+        caution: 1,
+        randomness: 0.3
+    },
+    moves: [
+        {
+            id: 'kowtow',
+            kind: 'slam',
+            startup: 42,
+            active: 1,
+            recovery: 76,
+            animSpeed: 6,
+            damage: 25,
+            knockback: { x: 8, y: -10 },
+            hitStop: 15,
+            shake: 15,
+            cooldown: 180,
+            weight: 3,
+            range: { min: 0, max: 1200 },
+            hitbox: { offsetX: 80, reach: 150, height: 40 },
+            telegraph: { warning: 30, indicator: 'ground' },
+            impactColor: '#a855f7'
+        },
+        {
+            id: 'jump_smash',
+            kind: 'leap',
+            startup: 0,
+            active: 1,
+            recovery: 30,
+            animSpeed: 10,
+            damage: 22.5,
+            knockback: { x: 15, y: -5 },
+            hitStop: 12,
+            bossHitStop: 8,
+            shake: 10,
+            cooldown: 150,
+            weight: 1,
+            range: { min: 250, max: 450 },
+            hitbox: { offsetX: 0, reach: 150, height: 20 },
+            leap: { vx: 8, vy: -15 },
+            telegraph: { warning: 30, indicator: 'ground' },
+            impactColor: '#581c87'
+        }
+    ],
+    phases: [
+        {
+            id: 'black_wind',
+            healthThreshold: 0.5,
+            speedMultiplier: 1.3,
+            moveWeights: { kowtow: 2, jump_smash: 2 },
+            addMoves: [
+                {
+                    id: 'wind_sweep',
+                    kind: 'slam',
+                    startup: 30,
+                    active: 4,
+                    recovery: 50,
+                    animSpeed: 5,
+                    damage: 30,
+                    knockback: { x: 12, y: -8 },
+                    hitStop: 15,
+                    shake: 18,
+                    cooldown: 140,
+                    weight: 2,
+                    range: { min: 0, max: 300 },
+                    hitbox: { offsetX: 60, reach: 200, height: 60 },
+                    hitboxFrames: [ // The gust rolls outward across the active window
+                        { from: 0, to: 1, offsetX: 60, reach: 120, height: 60 },
+                        { from: 2, to: 3, offsetX: 60, reach: 200, height: 60 }
+                    ],
+                    telegraph: { warning: 24, indicator: 'ground' },
+                    impactColor: '#1e1b4b'
+                },
+                {
+                    id: 'black_wind_orb',
+                    kind: 'projectile',
+                    startup: 36,
+                    active: 1,
+                    recovery: 40,
+                    animSpeed: 6,
+                    damage: 18,
+                    knockback: { x: 8, y: -6 },
+                    hitStop: 12,
+                    shake: 4,
+                    cooldown: 160,
+                    weight: 2,
+                    range: { min: 300, max: 900 },
+                    hitbox: { offsetX: 450, reach: 400, height: 40 }, // Where the orb is worth throwing, for the AI
+                    projectile: 'black_wind_orb',
+                    telegraph: { warning: 24, indicator: 'flash' },
+                    impactColor: '#f97316'
+                }
+            ],
+            transitionDuration: 90,
+            barColor: '#991b1b',
+            palette: { body: '#3b0764', accent: '#1e1b4b', airborne: '#581c87', eyes: '#f97316' }
+        }
+    ]
+};
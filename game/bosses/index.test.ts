@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { BLACK_WIND_KING } from './blackWindKing';
+import { getBossDefinition, getBossIds, parseBossDefinition, registerBossDefinition } from '.';
+
+describe('parseBossDefinition', () => {
+    it('reads back a built-in boss written out as JSON', () => {
+        expect(parseBossDefinition(JSON.stringify(BLACK_WIND_KING))).toEqual(BLACK_WIND_KING);
+    });
+
+    it('fills the optional blocks from the default boss', () => {
+        const { palette, movement, poise, ai, initialCooldown, barColor, ...required } = BLACK_WIND_KING;
+        const def = parseBossDefinition(JSON.stringify({ ...required, id: 'lesser_wolf', palette: { body: '#123456', glow: 3 } }));
+        expect(def.palette).toEqual({ ...palette, body: '#123456' });
+        expect(def.movement).toEqual(movement);
+        expect(def.ai).toEqual(ai);
+    });
+
+    it('names the field that is wrong', () => {
+        const broken = { ...BLACK_WIND_KING, moves: [{ ...BLACK_WIND_KING.moves[0], range: { min: 0, max: 'far' } }] };
+        expect(() => parseBossDefinition(JSON.stringify(broken))).toThrow('"moves[0].range.max"');
+        expect(() => parseBossDefinition(JSON.stringify({ ...BLACK_WIND_KING, poise: { max: '10' } }))).toThrow('"poise.max"');
+        expect(() => parseBossDefinition('[]')).toThrow('Boss definition is empty');
+    });
+
+    it('points at a phase move by its full path', () => {
+        const [phase] = BLACK_WIND_KING.phases!;
+        const brokenMove = { ...phase.addMoves![1], damage: 'lots' };
+        const broken = { ...BLACK_WIND_KING, phases: [{ ...phase, addMoves: [phase.addMoves![0], brokenMove] }] };
+        expect(() => parseBossDefinition(JSON.stringify(broken))).toThrow('"phases[0].addMoves[1].damage"');
+    });
+});
+
+describe('registerBossDefinition', () => {
+    it('makes an imported boss spawnable by id', () => {
+        const def = parseBossDefinition(JSON.stringify({ ...BLACK_WIND_KING, id: 'imported', name: 'Imported' }));
+        registerBossDefinition(def);
+        expect(getBossIds()).toContain('imported');
+        expect(getBossDefinition('imported').name).toBe('Imported');
+    });
+
+    it('refuses to replace a built-in boss', () => {
+        const def = parseBossDefinition(JSON.stringify({ ...BLACK_WIND_KING, name: 'Impostor' }));
+        expect(() => registerBossDefinition(def)).toThrow('built-in boss');
+        expect(getBossDefinition(BLACK_WIND_KING.id).name).toBe(BLACK_WIND_KING.name);
+    });
+});
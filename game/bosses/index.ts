@@ -0,0 +1,303 @@
+import { BossDefinition, BossHitbox, BossHitboxFrame, BossMoveDefinition, BossMovement, BossPalette, BossPhaseDefinition, BossTelegraph, Entity } from '../../types';
+import { BLACK_WIND_KING } from './blackWindKing';
+import { hasProjectileDefinition } from '../projectiles';
+
+// Registry of every boss the simulation can spawn. New yaoguai are added by
+// authoring a BossDefinition (TS object or JSON) and registering it here.
+// JSON definitions can also be imported at runtime from the debug panel's AI tab.
+
+export const DEFAULT_BOSS_ID = BLACK_WIND_KING.id;
+
+const BOSSES: Record<string, BossDefinition> = {
+    [BLACK_WIND_KING.id]: BLACK_WIND_KING
+};
+
+const BUILT_IN_BOSS_IDS = Object.keys(BOSSES);
+
+// Shipped with the game, so replays against them play back in any session
+export const isBuiltInBoss = (id: string): boolean => BUILT_IN_BOSS_IDS.includes(id);
+
+// Imported bosses live for the session; they may replace each other but never a shipped boss
+export const registerBossDefinition = (def: BossDefinition) => {
+    if (isBuiltInBoss(def.id)) throw new Error(`Boss id "${def.id}" is taken by a built-in boss`);
+    BOSSES[def.id] = def;
+};
+
+export const getBossIds = (): string[] => Object.keys(BOSSES);
+
+export const hasBossDefinition = (id: string): boolean => id in BOSSES;
+
+// Falls back to the default boss so old saves and replays keep working
+export const getBossDefinition = (id: string | undefined): BossDefinition =>
+    (id && BOSSES[id]) || BOSSES[DEFAULT_BOSS_ID];
+
+// Looks through the base moves and every phase's unlocks
+export const getBossMove = (def: BossDefinition, moveId: string | undefined): BossMoveDefinition | undefined =>
+    def.moves.find(move => move.id === moveId) ||
+    (def.phases || []).flatMap(phase => phase.addMoves || []).find(move => move.id === moveId);
+
+// --- Phases ---
+// Phase 0 is the definition itself; phase n applies phases[0..n-1] on top of it
+const getAppliedPhases = (def: BossDefinition, phaseIndex: number): BossPhaseDefinition[] =>
+    (def.phases || []).slice(0, Math.max(0, phaseIndex));
+
+export const getBossPhase = (def: BossDefinition, phaseIndex: number): BossPhaseDefinition | null =>
+    phaseIndex > 0 ? (def.phases || [])[phaseIndex - 1] || null : null;
+
+// The phase the boss should be in but hasn't transitioned to yet, if any
+export const getPendingPhase = (def: BossDefinition, boss: Entity): number | null => {
+    const current = boss.phaseIndex || 0;
+    const next = (def.phases || [])[current];
+    if (!next || boss.health > boss.maxHealth * next.healthThreshold) return null;
+    return current + 1;
+};
+
+export const getPhaseMoves = (def: BossDefinition, phaseIndex: number): BossMoveDefinition[] => {
+    let moves = def.moves;
+    for (const phase of getAppliedPhases(def, phaseIndex)) {
+        const weights = phase.moveWeights || {};
+        moves = [...moves, ...(phase.addMoves || [])].map(move =>
+            move.id in weights ? { ...move, weight: weights[move.id] } : move
+        );
+    }
+    return moves;
+};
+
+export const getPhaseSpeed = (def: BossDefinition, phaseIndex: number): number =>
+    getAppliedPhases(def, phaseIndex).reduce((speed, phase) => speed * phase.speedMultiplier, 1);
+
+export const getPhaseMovement = (def: BossDefinition, phaseIndex: number): BossMovement => {
+    const speed = getPhaseSpeed(def, phaseIndex);
+    const movement = def.movement;
+    return {
+        ...movement,
+        retreatSpeed: movement.retreatSpeed * speed,
+        approachSpeed: movement.approachSpeed * speed,
+        runAcceleration: movement.runAcceleration * speed,
+        maxRunSpeed: movement.maxRunSpeed * speed
+    };
+};
+
+export const getPhasePalette = (def: BossDefinition, phaseIndex: number): BossPalette =>
+    getAppliedPhases(def, phaseIndex).reduce((palette, phase) => ({ ...palette, ...(phase.palette || {}) }), def.palette);
+
+export const getPhaseBarColor = (def: BossDefinition, phaseIndex: number): string =>
+    getBossPhase(def, phaseIndex)?.barColor || def.barColor;
+
+// Where the boss is within its current move, for both the AI and the renderer.
+// Transformed player moves share the same startup/active/recovery layout
+export type MovePhase = 'startup' | 'active' | 'recovery';
+
+export const getMovePhase = (move: Pick<BossMoveDefinition, 'startup' | 'active' | 'recovery'>, moveTimer: number): { phase: MovePhase; progress: number } => {
+    if (moveTimer < move.startup) return { phase: 'startup', progress: moveTimer / Math.max(1, move.startup) };
+    const activeTime = moveTimer - move.startup;
+    if (activeTime < move.active) return { phase: 'active', progress: activeTime / Math.max(1, move.active) };
+    return { phase: 'recovery', progress: Math.min(1, (activeTime - move.active) / Math.max(1, move.recovery)) };
+};
+
+export const createBossFromDefinition = (def: BossDefinition): Entity => ({
+    id: 'boss',
+    defId: def.id,
+    pos: { ...def.spawn },
+    width: def.width,
+    height: def.height,
+    vx: 0,
+    vy: 0,
+    color: def.palette.body,
+    health: def.health,
+    maxHealth: def.health,
+    isDead: false,
+    facingRight: false,
+    type: 'boss',
+    state: 'idle',
+    attackCooldown: def.initialCooldown,
+    dodgeCooldown: 0,
+    chargeTimer: 0,
+    comboCount: 0,
+    comboWindow: 0,
+    animFrame: 0,
+    animTimer: 0,
+    hitStop: 0,
+    flashTimer: 0,
+    isImmobilized: false,
+    immobilizeTimer: 0,
+    immobilizeDamageTaken: 0,
+    moveTimer: 0,
+    phaseIndex: 0,
+    isInvulnerable: false,
+    poise: 0,
+    poiseRecoveryDelay: 0,
+    staggerTimer: 0,
+    moveCooldowns: {}
+});
+
+// --- JSON Loading ---
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const requireObject = (value: unknown, field: string): JsonObject => {
+    if (!isObject(value)) throw new Error(`Boss definition field "${field}" must be an object`);
+    return value;
+};
+
+const requireNumber = (value: unknown, field: string): number => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`Boss definition field "${field}" must be a number`);
+    return value;
+};
+
+const requireString = (value: unknown, field: string): string => {
+    if (typeof value !== 'string' || !value) throw new Error(`Boss definition field "${field}" must be a string`);
+    return value;
+};
+
+const optionalNumber = (value: unknown, field: string): number | undefined =>
+    value === undefined ? undefined : requireNumber(value, field);
+
+// Overrides for a block the default boss already fills in. Unknown keys are dropped; known ones must keep their type
+const parseOverrides = <T extends object>(data: unknown, defaults: T, field: string): Partial<T> => {
+    if (data === undefined) return {};
+    const overrides: JsonObject = {};
+    for (const [key, value] of Object.entries(requireObject(data, field))) {
+        if (!(key in defaults)) continue;
+        const expected = typeof defaults[key as keyof T];
+        if (expected === 'number') overrides[key] = requireNumber(value, `${field}.${key}`);
+        else if (expected === 'string') overrides[key] = requireString(value, `${field}.${key}`);
+    }
+    return overrides as Partial<T>;
+};
+
+const parseTelegraph = (value: unknown, field: (name: string) => string): BossTelegraph => {
+    const data = requireObject(value, field('telegraph'));
+    if (data.indicator !== 'ground' && data.indicator !== 'flash') throw new Error(`Boss definition ${field('telegraph.indicator')} must be "ground" or "flash"`);
+    return {
+        warning: requireNumber(data.warning, field('telegraph.warning')),
+        indicator: data.indicator,
+        color: data.color === undefined ? undefined : requireString(data.color, field('telegraph.color'))
+    };
+};
+
+const parseHitbox = (value: unknown, field: (name: string) => string, prefix: string): BossHitbox => {
+    const data = requireObject(value, field(prefix));
+    return {
+        offsetX: requireNumber(data.offsetX, field(`${prefix}.offsetX`)),
+        reach: requireNumber(data.reach, field(`${prefix}.reach`)),
+        height: requireNumber(data.height, field(`${prefix}.height`))
+    };
+};
+
+const parseHitboxFrame = (value: unknown, field: (name: string) => string, prefix: string): BossHitboxFrame => {
+    const data = requireObject(value, field(prefix));
+    return {
+        from: requireNumber(data.from, field(`${prefix}.from`)),
+        to: requireNumber(data.to, field(`${prefix}.to`)),
+        ...parseHitbox(data, field, prefix)
+    };
+};
+
+// `path` locates the move in the file, e.g. "moves[0]" or "phases[1].addMoves[0]"
+const parseMove = (value: unknown, path: string): BossMoveDefinition => {
+    const field = (name: string) => `${path}.${name}`;
+    if (!isObject(value)) throw new Error(`Boss definition ${path} is not an object`);
+    const data = value;
+    if (data.kind !== 'slam' && data.kind !== 'leap' && data.kind !== 'projectile') throw new Error(`Boss definition ${field('kind')} must be "slam", "leap" or "projectile"`);
+    if (data.kind === 'leap' && !data.leap) throw new Error(`Boss definition ${field('leap')} is required for leap moves`);
+    if (data.kind === 'projectile' && (typeof data.projectile !== 'string' || !hasProjectileDefinition(data.projectile))) {
+        throw new Error(`Boss definition ${field('projectile')} must name a known projectile`);
+    }
+
+    const knockback = requireObject(data.knockback, field('knockback'));
+    const range = requireObject(data.range, field('range'));
+    const leap = data.leap === undefined ? undefined : requireObject(data.leap, field('leap'));
+
+    return {
+        id: requireString(data.id, field('id')),
+        kind: data.kind,
+        startup: requireNumber(data.startup, field('startup')),
+        active: requireNumber(data.active, field('active')),
+        recovery: requireNumber(data.recovery, field('recovery')),
+        animSpeed: requireNumber(data.animSpeed, field('animSpeed')),
+        damage: requireNumber(data.damage, field('damage')),
+        knockback: {
+            x: requireNumber(knockback.x, field('knockback.x')),
+            y: requireNumber(knockback.y, field('knockback.y'))
+        },
+        hitStop: requireNumber(data.hitStop, field('hitStop')),
+        bossHitStop: optionalNumber(data.bossHitStop, field('bossHitStop')),
+        shake: requireNumber(data.shake, field('shake')),
+        cooldown: requireNumber(data.cooldown, field('cooldown')),
+        repeatCooldown: optionalNumber(data.repeatCooldown, field('repeatCooldown')),
+        weight: requireNumber(data.weight, field('weight')),
+        range: {
+            min: requireNumber(range.min, field('range.min')),
+            max: requireNumber(range.max, field('range.max'))
+        },
+        hitbox: parseHitbox(data.hitbox, field, 'hitbox'),
+        hitboxFrames: Array.isArray(data.hitboxFrames)
+            ? data.hitboxFrames.map((frame: unknown, i: number) => parseHitboxFrame(frame, field, `hitboxFrames[${i}]`))
+            : undefined,
+        leap: leap ? {
+            vx: requireNumber(leap.vx, field('leap.vx')),
+            vy: requireNumber(leap.vy, field('leap.vy'))
+        } : undefined,
+        projectile: data.kind === 'projectile' ? data.projectile as string : undefined,
+        telegraph: data.telegraph ? parseTelegraph(data.telegraph, field) : undefined,
+        impactColor: requireString(data.impactColor, field('impactColor'))
+    };
+};
+
+const parseMoveWeights = (value: unknown, field: string): Record<string, number> | undefined => {
+    if (value === undefined) return undefined;
+    return Object.fromEntries(Object.entries(requireObject(value, field)).map(([id, weight]) => [id, requireNumber(weight, `${field}.${id}`)]));
+};
+
+const parsePhase = (value: unknown, index: number): BossPhaseDefinition => {
+    const field = (name: string) => `phases[${index}].${name}`;
+    if (!isObject(value)) throw new Error(`Boss definition phases[${index}] is not an object`);
+    const data = value;
+
+    return {
+        id: requireString(data.id, field('id')),
+        healthThreshold: requireNumber(data.healthThreshold, field('healthThreshold')),
+        speedMultiplier: requireNumber(data.speedMultiplier ?? 1, field('speedMultiplier')),
+        moveWeights: parseMoveWeights(data.moveWeights, field('moveWeights')),
+        addMoves: Array.isArray(data.addMoves) ? data.addMoves.map((move: unknown, i: number) => parseMove(move, field(`addMoves[${i}]`))) : undefined,
+        transitionDuration: requireNumber(data.transitionDuration ?? 0, field('transitionDuration')),
+        barColor: requireString(data.barColor, field('barColor')),
+        palette: data.palette === undefined ? undefined : parseOverrides(data.palette, BLACK_WIND_KING.palette, field('palette'))
+    };
+};
+
+// Validates a JSON boss definition. Palette, movement, poise and AI fall back to the default boss
+export const parseBossDefinition = (text: string): BossDefinition => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error("Boss definition is not valid JSON");
+    }
+
+    if (!isObject(data)) throw new Error("Boss definition is empty");
+    if (!Array.isArray(data.moves) || data.moves.length === 0) throw new Error("Boss definition needs at least one move");
+    const spawn = requireObject(data.spawn, 'spawn');
+
+    return {
+        id: requireString(data.id, 'id'),
+        name: requireString(data.name, 'name'),
+        health: requireNumber(data.health, 'health'),
+        width: requireNumber(data.width, 'width'),
+        height: requireNumber(data.height, 'height'),
+        spawn: {
+            x: requireNumber(spawn.x, 'spawn.x'),
+            y: requireNumber(spawn.y, 'spawn.y')
+        },
+        initialCooldown: requireNumber(data.initialCooldown ?? BLACK_WIND_KING.initialCooldown, 'initialCooldown'),
+        barColor: requireString(data.barColor ?? BLACK_WIND_KING.barColor, 'barColor'),
+        palette: { ...BLACK_WIND_KING.palette, ...parseOverrides(data.palette, BLACK_WIND_KING.palette, 'palette') },
+        movement: { ...BLACK_WIND_KING.movement, ...parseOverrides(data.movement, BLACK_WIND_KING.movement, 'movement') },
+        poise: { ...BLACK_WIND_KING.poise, ...parseOverrides(data.poise, BLACK_WIND_KING.poise, 'poise') },
+        ai: { ...BLACK_WIND_KING.ai, ...parseOverrides(data.ai, BLACK_WIND_KING.ai, 'ai') },
+        moves: data.moves.map((move: unknown, i: number) => parseMove(move, `moves[${i}]`)),
+        phases: Array.isArray(data.phases) ? data.phases.map(parsePhase) : undefined
+    };
+};
@@ -0,0 +1,23 @@
+import { ChapterDefinition } from '../../types';
+
+// Two skirmishes on the way up the mountain before the Black Wind King's arena
+export const BLACK_WIND_MOUNTAIN: ChapterDefinition = {
+    id: 'black_wind_mountain',
+    sections: [
+        {
+            id: 'forest_path',
+            spawns: [
+                { enemyId: 'wolf_scout', x: 650 },
+                { enemyId: 'wolf_scout', x: 900 }
+            ]
+        },
+        {
+            id: 'temple_steps',
+            spawns: [
+                { enemyId: 'shield_bearer', x: 700 },
+                { enemyId: 'archer', x: 1050 },
+                { enemyId: 'wolf_scout', x: 20 }
+            ]
+        }
+    ]
+};
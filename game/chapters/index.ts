@@ -0,0 +1,16 @@
+import { ChapterDefinition } from '../../types';
+import { BLACK_WIND_MOUNTAIN } from './blackWindMountain';
+
+// Registry of chapter layouts. LevelData names one by id; the simulation spawns its
+// sections in order and brings in the boss once the last one is cleared.
+
+export const DEFAULT_CHAPTER_ID = BLACK_WIND_MOUNTAIN.id;
+
+const CHAPTERS: Record<string, ChapterDefinition> = {
+    [BLACK_WIND_MOUNTAIN.id]: BLACK_WIND_MOUNTAIN
+};
+
+export const hasChapterDefinition = (id: string): boolean => id in CHAPTERS;
+
+export const getChapterDefinition = (id: string | null | undefined): ChapterDefinition | undefined =>
+    id ? CHAPTERS[id] : undefined;
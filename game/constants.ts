@@ -0,0 +1,73 @@
+// --- Game Constants ---
+export const GRAVITY = 0.6;
+export const FRICTION = 0.80;
+export const MOVE_SPEED = 1.2;
+export const MAX_SPEED = 5;
+export const JUMP_FORCE = -13;
+export const GROUND_Y = 400;
+
+// Attack Constants are now largely dynamic via Debug Params
+// Keeping defaults for reference or fallback
+export const AIR_ATTACK_DAMAGE = 8; 
+
+export const DODGE_SPEED = 18; 
+export const DODGE_COOLDOWN = 40;
+export const DODGE_STAMINA_COST = 20;
+export const DODGE_PERFECT_WINDOW = 8; // Ticks after a dodge starts in which an incoming hit counts as perfect
+export const DODGE_PERFECT_BULLET_TIME = 60; // Ticks of boss slow motion on a perfect dodge
+export const DODGE_PERFECT_TIME_SCALE = 3; // The boss advances one tick in every N during bullet time
+export const DODGE_PERFECT_STAMINA_REFUND = DODGE_STAMINA_COST;
+
+export const PLAYER_MAX_STAMINA = 100;
+export const STAMINA_REGEN_RATE = 0.5; // Per tick once the regen delay has passed
+export const STAMINA_REGEN_DELAY = 30; // Ticks after spending before stamina starts refilling
+export const STAMINA_EXHAUSTED_REGEN_RATE = 0.2; // Slower refill after running dry
+export const STAMINA_EXHAUSTED_RECOVERY = 50; // Exhaustion lifts once stamina is back above this
+export const ATTACK_STAMINA_COST = 8; // Light combo swings 1-3
+export const FINISHER_STAMINA_COST = 15; // Combo 4 / air slam
+export const TECH_STAMINA_COST = 25; // Cloud Strike
+export const HEAVY_STAMINA_COST = 30; // Charged heavy, checked before the charge builds
+export const STAFF_THROW_STAMINA_COST = 20;
+export const SPRINT_STAMINA_COST = 0.4; // Per tick
+export const SPRINT_MAX_SPEED = 8;
+
+export const PLAYER_MAX_MANA = 100;
+export const SPELL_FAIL_COOLDOWN = 30; // Ticks a slot is locked after a cast fails for lack of mana
+
+export const GOURD_CHARGES = 3; // Refilled on restart
+export const GOURD_DRINK_TIME = 60; // Ticks the player is committed to drinking
+export const GOURD_HEAL_START = 24; // Tick of the drink at which healing begins
+export const GOURD_HEAL_TICKS = 20; // Healing is spread over this many ticks
+export const GOURD_HEAL_AMOUNT = 40;
+
+export const CHARGE_THRESHOLD = 20; 
+export const FOCUS_MAX_PIPS = 4;
+export const FOCUS_PIP_CHARGE_TIME = 25; // Extra ticks of holding J per Focus pip poured into a heavy attack
+export const COMBO_WINDOW_FRAMES = 50; 
+export const STANCE_SWITCH_COOLDOWN = 20;
+export const PILLAR_CLIMB_TIME = 10; // Ticks to scale the staff in the Pillar heavy
+export const PILLAR_DROP_SPEED = 16; // Minimum fall speed off the top of the staff
+
+export const LOCK_ON_RANGE = 700; // Horizontal reach for acquiring and keeping a target
+export const LOCK_ON_COOLDOWN = 15;
+
+export const SECTION_INTERLUDE = 120; // Ticks of calm between a cleared section and the next wave (or the boss)
+export const WILL_ORB_VALUE = 5; // Will per orb dropped by a defeated enemy
+export const WILL_DROP_LIFE = 900;
+export const WILL_MAGNET_RADIUS = 140; // Orbs drift toward the player inside this distance
+export const WILL_PICKUP_RADIUS = 30;
+
+export const IMMOBILIZE_BREAK_THRESHOLD = 80; 
+
+export const SETSUGEKKA_CHARGE_TIME = 60; // 1 second @ 60fps
+export const SETSU_DAMAGE = 20;
+export const GETSU_DAMAGE = 35;
+export const KA_DAMAGE = 60;
+
+// Physics world size (the canvas renders it scaled down)
+export const LOGICAL_WIDTH = 800;
+export const LOGICAL_HEIGHT = 450;
+export const ARENA_WIDTH = 1200; // Walls of the fight; the camera scrolls across it
+
+// Simulation rate
+export const FIXED_TIME_STEP = 1000 / 60;
@@ -0,0 +1,183 @@
+import { CLOUD_STEP, IMMOBILIZE, RED_TIDES_SPELL, RING_OF_FIRE, ROCK_SOLID } from './spells/definitions';
+
+export type BossBehavior = 'normal' | 'idle' | 'kowtow' | 'patrol' | 'jump_loop';
+
+// --- DEBUG PARAMS ---
+// Tuning values read by the simulation every tick (and by the renderer for visuals)
+export const DEFAULT_DEBUG_PARAMS = {
+    showGrid: true, // Default Grid ON
+    showHitboxes: false, // Collision boxes for the current frame, coloured by type
+
+    // Combo 1 Logic
+    c1Damage: 12,
+    c1Stun: 4,
+    c1Shake: 2,
+    c1Interrupt: 0, // 0 = No, 1 = Yes
+    c1Poise: 6, // Poise damage dealt to the boss
+
+    // Combo 2 Logic
+    c2Damage: 18,
+    c2Stun: 6,
+    c2Shake: 4,
+    c2Interrupt: 0,
+    c2Poise: 8,
+
+    // Attack 4 (Fan) Visuals
+    trailDecay: 0.2,
+    trailStep: 0.2,
+    fanFade: 0.2,
+    fanBrightness: 1.0, // Glow Intensity
+    fanDensity: 0.3,    // Concentration (Backing opacity)
+    fanOpacity: 0.1,    // Master Opacity
+    
+    // Attack 4 (Fan) Logic
+    c4Length: 150,
+    c4Damage: 45,
+    c4Knockback: 8,
+    c4Stun: 12,
+    c4Shake: 20,
+    c4SlideSpeed: 8, // Initial Burst Speed
+    c4SlideFriction: 0.85, // How much it slows down per frame
+    c4Interrupt: 1,
+    c4Poise: 25,
+    
+    // Heavy Attack (Charge) Visuals
+    heavyWidth: 12,
+    heavyGlow: 1.0,
+    heavyOpacity: 1.0,
+
+    // Heavy Attack (Charge) Logic
+    heavyDamage: 60,
+    heavyRange: 300,
+    heavyKnockback: 12,
+    heavyStun: 15,
+    heavyShake: 15, // Default matches Stun
+    heavyInterrupt: 1,
+    heavyPoise: 35,
+    heavyPipDamage: 0.5, // Extra damage per Focus pip spent (x base)
+    heavyPipRange: 0.25, // Extra range per Focus pip spent (x base)
+
+    // Pillar Stance: the heavy climbs the staff out of reach of ground attacks, then drops
+    pillarHeight: 90,
+    pillarHold: 24, // Ticks perched on top before the drop
+    pillarDamage: 50,
+    pillarRadius: 90, // Landing shockwave reach
+    pillarKnockback: 6,
+    pillarStun: 12,
+    pillarShake: 12,
+    pillarPoise: 30,
+    pillarFinisherDamage: 40, // Combo finisher: vault kick off the staff
+    pillarFinisherRadius: 90,
+    pillarFinisherPoise: 20,
+
+    // Thrust Stance: the heavy is a long-range poke
+    thrustRange: 260,
+    thrustDamage: 45,
+    thrustLunge: 14,
+    thrustKnockback: 10,
+    thrustStun: 8,
+    thrustShake: 8,
+    thrustPoise: 20,
+    thrustFinisherDamage: 35,
+    thrustFinisherRange: 200,
+    thrustFinisherPoise: 18,
+
+    // Focus
+    focusPerHit: 0.25, // Pips gained per light combo hit
+    focusPerPerfectDodge: 1,
+
+    // Attack 3 (Spin Cross) Visuals
+    c3Radius: 100,      
+    c3Width: 12,        
+    c3Glow: 1.5,        
+    c3Density: 0.4,     
+    c3Opacity: 0.3,     
+    
+    // Attack 3 Compensation / Blur
+    c3BlurSteps: 1,     
+    c3BlurFade: 0.1,    
+
+    // Attack 3 Background (Disc)
+    c3BgBrightness: 0.1, 
+    c3BgOpacity: 0,      
+
+    // Attack 3 (Spin Cross) Logic
+    c3Rotations: 2,     
+    c3Speed: 50,        
+    c3ExtraHits: 5, 
+    c3TotalDamage: 45,  
+    c3Stun: 3,
+    c3Interrupt: 0,
+    c3Poise: 2, // Per hit
+    c3JumpForce: -5.5, 
+    c3GravityScale: 0.25, 
+
+    // Tech Attack (K) - Cloud Strike Logic
+    kDamage: 35,
+    kStun: 20,
+    kRadius: 60,
+    kJumpForce: -16,
+    kPlungeSpeed: 25,
+    kColor: '#0ea5e9', // Sky Blue
+    kPoise: 20,
+
+    // Staff Throw (U)
+    throwDamage: 20,
+    throwSpeed: 14,
+    throwCooldown: 90,
+
+    // Setsugekka (N)
+    setsuDist: 7, // Snow displacement (Short & Sharp)
+    setsuChargeFriction: 0.96, // Snow Charge Slide Friction (Increased to allow more slide)
+    setsuDamage: 20,
+    getsuDamage: 35,
+    getsuJumpHeight: -10,
+    getsuSize: 1.4, // Scale of the moon
+    getsuFade: 25, // Extended for Atmosphere Window (Previously 12)
+    getsuHits: 2, // New: Number of hits during Moon phase
+    getsuStun: 0, // New: Hitstop duration (0 for smooth flow)
+    kaDamage: 60,
+    kaStun: 2, // Flower Hit Stop
+    kaPlungeSpeed: 20,
+    kaParticleCount: 8, // Per frame burst during plunge
+    kaTurbulence: 4,
+    kaSlideForce: 15,
+    kaSlideFriction: 0.90, // Increased slightly to allow longer glide
+    setsuPoise: 15, // Per stage hit
+
+    // Parry / Deflect (O)
+    parryWindow: 10, // Frames at the start of a parry that deflect a hit
+    parryRecovery: 20, // Frames stuck in the parry pose after the window closes
+    parryCooldown: 30,
+    parryStun: 40, // Boss hitstop on a successful deflect
+    parryScore: 50,
+    counterWindow: 60, // Frames after a deflect in which the next hit counts as a counter
+    counterMultiplier: 2.0,
+    counterScore: 100,
+    parryPoise: 30,
+
+    // Spells / Mana
+    manaRegen: 0.05, // Per tick
+    manaPerHit: 3, // Refilled for every hit dealt
+    immobilizeCost: IMMOBILIZE.manaCost,
+    cloudStepCost: CLOUD_STEP.manaCost,
+    ringOfFireCost: RING_OF_FIRE.manaCost,
+    rockSolidCost: ROCK_SOLID.manaCost,
+    redTidesCost: RED_TIDES_SPELL.manaCost,
+
+    bossBehavior: 'normal' as BossBehavior, // normal, idle, kowtow, patrol, jump_loop
+    bossPatrolRange: 200,
+    bossPatrolSpeed: 1.5,
+
+    infiniteHealth: false,
+    infinitePlayerHealth: false
+};
+
+export type DebugParams = typeof DEFAULT_DEBUG_PARAMS;
+
+// Whether a value read from a file can stand in for a param: the key must exist and the
+// value must have the same type as its default
+export const isDebugParamValue = (key: string, value: unknown): key is keyof DebugParams =>
+    key in DEFAULT_DEBUG_PARAMS &&
+    typeof value === typeof DEFAULT_DEBUG_PARAMS[key as keyof DebugParams] &&
+    (typeof value !== 'number' || Number.isFinite(value));
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_DEBUG_PARAMS } from './debugParams';
+import { applyPreset, createPreset, parsePreset, resetSkillParams, serializePreset } from './debugPresets';
+
+describe('resetSkillParams', () => {
+    it('only puts back the params of that skill', () => {
+        const tuned = { ...DEFAULT_DEBUG_PARAMS, c1Damage: 99, kDamage: 99 };
+        const reset = resetSkillParams(tuned, 'atk1_2');
+        expect(reset.c1Damage).toBe(DEFAULT_DEBUG_PARAMS.c1Damage);
+        expect(reset.kDamage).toBe(99);
+        expect(tuned.c1Damage).toBe(99);
+    });
+});
+
+describe('parsePreset', () => {
+    it('reads back a saved preset', () => {
+        const preset = createPreset('Glass cannon', { ...DEFAULT_DEBUG_PARAMS, c1Damage: 99 });
+        const parsed = parsePreset(serializePreset(preset));
+        expect(parsed).toEqual(preset);
+        expect(applyPreset(parsed).c1Damage).toBe(99);
+    });
+
+    it('drops unknown params and rejects mistyped ones', () => {
+        const base = { version: 1, name: 'Test', savedAt: '' };
+        expect(parsePreset(JSON.stringify({ ...base, params: { fromTheFuture: 1 } })).params).toEqual({});
+        expect(() => parsePreset(JSON.stringify({ ...base, params: { c1Damage: '99' } }))).toThrow('"c1Damage" must be a number');
+        expect(() => parsePreset(JSON.stringify({ ...base, version: 2 }))).toThrow('Unsupported preset version: 2');
+        expect(() => parsePreset('null')).toThrow('Preset is empty');
+    });
+});
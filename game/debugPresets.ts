@@ -0,0 +1,110 @@
+import { DebugParams, DEFAULT_DEBUG_PARAMS } from './debugParams';
+
+// A preset is a named set of tuning values. Only the values that differ from
+// DEFAULT_DEBUG_PARAMS are stored, so presets pick up new defaults and new
+// params automatically.
+
+export const PRESET_VERSION = 1;
+
+export type DebugParamKey = keyof DebugParams;
+
+export interface DebugPreset {
+  version: number;
+  name: string;
+  params: Partial<DebugParams>; // Overrides on top of the defaults
+  savedAt: string;
+}
+
+export interface ParamDiff {
+  key: DebugParamKey;
+  value: DebugParams[DebugParamKey];
+  defaultValue: DebugParams[DebugParamKey];
+}
+
+// --- Skill Groups ---
+// Mirrors the Skills tab of the debug panel, for per-skill resets and the grouped diff
+export interface DebugSkillGroup {
+  id: string;
+  name: string;
+  keys: DebugParamKey[];
+}
+
+export const DEBUG_SKILL_GROUPS: DebugSkillGroup[] = [
+  { id: 'atk1_2', name: 'Combo 1 & 2', keys: ['c1Damage', 'c1Stun', 'c1Shake', 'c1Interrupt', 'c1Poise', 'c2Damage', 'c2Stun', 'c2Shake', 'c2Interrupt', 'c2Poise'] },
+  { id: 'atk3', name: 'Attack 3 (Spin)', keys: ['c3Radius', 'c3Width', 'c3Glow', 'c3Density', 'c3Opacity', 'c3BlurSteps', 'c3BlurFade', 'c3BgBrightness', 'c3BgOpacity', 'c3Rotations', 'c3Speed', 'c3ExtraHits', 'c3TotalDamage', 'c3Stun', 'c3Interrupt', 'c3Poise', 'c3JumpForce', 'c3GravityScale'] },
+  { id: 'atk4', name: 'Attack 4 (Fan)', keys: ['trailDecay', 'trailStep', 'fanFade', 'fanBrightness', 'fanDensity', 'fanOpacity', 'c4Length', 'c4Damage', 'c4Knockback', 'c4Stun', 'c4Shake', 'c4SlideSpeed', 'c4SlideFriction', 'c4Interrupt', 'c4Poise'] },
+  { id: 'heavy', name: 'Heavy Attack (Charge)', keys: ['heavyWidth', 'heavyGlow', 'heavyOpacity', 'heavyDamage', 'heavyRange', 'heavyKnockback', 'heavyStun', 'heavyShake', 'heavyInterrupt', 'heavyPoise', 'heavyPipDamage', 'heavyPipRange', 'focusPerHit', 'focusPerPerfectDodge'] },
+  { id: 'tech', name: 'Cloud Strike (K)', keys: ['kDamage', 'kStun', 'kRadius', 'kJumpForce', 'kPlungeSpeed', 'kColor', 'kPoise'] },
+  { id: 'throw', name: 'Staff Throw (U)', keys: ['throwDamage', 'throwSpeed', 'throwCooldown'] },
+  { id: 'setsu', name: 'Setsugekka (N)', keys: ['setsuDist', 'setsuChargeFriction', 'setsuDamage', 'getsuDamage', 'getsuJumpHeight', 'getsuSize', 'getsuFade', 'getsuHits', 'getsuStun', 'kaDamage', 'kaStun', 'kaPlungeSpeed', 'kaParticleCount', 'kaTurbulence', 'kaSlideForce', 'kaSlideFriction', 'setsuPoise'] },
+  { id: 'parry', name: 'Deflect (O)', keys: ['parryWindow', 'parryRecovery', 'parryCooldown', 'parryStun', 'parryScore', 'counterWindow', 'counterMultiplier', 'counterScore', 'parryPoise'] },
+  { id: 'stances', name: 'Stances (Q)', keys: ['pillarHeight', 'pillarHold', 'pillarDamage', 'pillarRadius', 'pillarKnockback', 'pillarStun', 'pillarShake', 'pillarPoise', 'pillarFinisherDamage', 'pillarFinisherRadius', 'pillarFinisherPoise', 'thrustRange', 'thrustDamage', 'thrustLunge', 'thrustKnockback', 'thrustStun', 'thrustShake', 'thrustPoise', 'thrustFinisherDamage', 'thrustFinisherRange', 'thrustFinisherPoise'] },
+  { id: 'spells', name: 'Spells (I / 1-4 / T)', keys: ['manaRegen', 'manaPerHit', 'immobilizeCost', 'cloudStepCost', 'ringOfFireCost', 'rockSolidCost', 'redTidesCost'] }
+];
+
+export const getSkillGroup = (id: string): DebugSkillGroup | undefined =>
+    DEBUG_SKILL_GROUPS.find(group => group.id === id);
+
+const pickDefaults = (keys: DebugParamKey[]): Partial<DebugParams> =>
+    Object.fromEntries(keys.map(key => [key, DEFAULT_DEBUG_PARAMS[key]]));
+
+// Puts every param of one skill back to its default
+export const resetSkillParams = (params: DebugParams, skillId: string): DebugParams => {
+    const group = getSkillGroup(skillId);
+    if (!group) return params;
+    return { ...params, ...pickDefaults(group.keys) };
+};
+
+// --- Diff ---
+export const diffFromDefaults = (params: DebugParams): ParamDiff[] =>
+    (Object.keys(DEFAULT_DEBUG_PARAMS) as DebugParamKey[])
+        .filter(key => params[key] !== DEFAULT_DEBUG_PARAMS[key])
+        .map(key => ({ key, value: params[key], defaultValue: DEFAULT_DEBUG_PARAMS[key] }));
+
+// --- Presets ---
+export const createPreset = (name: string, params: DebugParams): DebugPreset => ({
+    version: PRESET_VERSION,
+    name,
+    params: Object.fromEntries(diffFromDefaults(params).map(diff => [diff.key, diff.value])),
+    savedAt: new Date().toISOString()
+});
+
+export const applyPreset = (preset: DebugPreset): DebugParams => ({ ...DEFAULT_DEBUG_PARAMS, ...preset.params });
+
+// --- Serialization ---
+export const serializePreset = (preset: DebugPreset): string => JSON.stringify(preset, null, 2);
+
+// Unknown params are dropped (they may come from a newer build); known ones must keep their type
+const parsePresetParams = (data: unknown): Partial<DebugParams> => {
+    if (!data || typeof data !== 'object') throw new Error("Preset has no params");
+    const params: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(data)) {
+        if (!(key in DEFAULT_DEBUG_PARAMS)) continue;
+        const expected = typeof DEFAULT_DEBUG_PARAMS[key as DebugParamKey];
+        if (typeof value !== expected) throw new Error(`Preset param "${key}" must be a ${expected}`);
+        if (typeof value === 'number' && !Number.isFinite(value)) throw new Error(`Preset param "${key}" must be a finite number`);
+        params[key] = value;
+    }
+    return params as Partial<DebugParams>;
+};
+
+export const parsePreset = (text: string): DebugPreset => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error("Preset is not valid JSON");
+    }
+
+    if (!data || typeof data !== 'object') throw new Error("Preset is empty");
+    const preset = data as Record<string, unknown>;
+    if (preset.version !== PRESET_VERSION) throw new Error(`Unsupported preset version: ${preset.version}`);
+    if (typeof preset.name !== 'string' || !preset.name.trim()) throw new Error("Preset is missing its name");
+
+    return {
+        version: PRESET_VERSION,
+        name: preset.name.trim(),
+        params: parsePresetParams(preset.params),
+        savedAt: typeof preset.savedAt === 'string' ? preset.savedAt : ''
+    };
+};
@@ -0,0 +1,85 @@
+import { EnemyDefinition } from '../../types';
+
+// Fast and fragile: closes the gap and snaps with a short lunging bite
+export const WOLF_SCOUT: EnemyDefinition = {
+    id: 'wolf_scout',
+    name: 'Wolf Scout',
+    health: 60,
+    width: 44,
+    height: 30,
+    palette: { body: '#57534e', accent: '#a8a29e', eyes: '#facc15' },
+    moveSpeed: 2.6,
+    aggroRange: 700,
+    preferredDistance: 60,
+    tolerance: 15,
+    attack: {
+        startup: 18,
+        active: 6,
+        recovery: 24,
+        damage: 8,
+        knockback: { x: 4, y: -3 },
+        hitStop: 6,
+        cooldown: 70,
+        range: 110,
+        lunge: 7,
+        hitbox: { offsetX: 30, reach: 45, height: 20 },
+        color: '#fde68a'
+    },
+    will: 15
+};
+
+// Keeps its distance and looses slow-drawn arrows along the ground; jump or deflect them
+export const ARCHER: EnemyDefinition = {
+    id: 'archer',
+    name: 'Rat Archer',
+    health: 50,
+    width: 26,
+    height: 44,
+    palette: { body: '#78350f', accent: '#d6d3d1', eyes: '#ef4444' },
+    moveSpeed: 1.4,
+    aggroRange: 800,
+    preferredDistance: 300,
+    tolerance: 60,
+    attack: {
+        startup: 40,
+        active: 3,
+        recovery: 30,
+        damage: 10,
+        knockback: { x: 5, y: -4 },
+        hitStop: 8,
+        cooldown: 120,
+        range: 380,
+        projectile: 'arrow',
+        color: '#e5e7eb'
+    },
+    will: 20
+};
+
+// Slow, and its shield soaks hits from the front; get behind it or catch it mid-bash
+export const SHIELD_BEARER: EnemyDefinition = {
+    id: 'shield_bearer',
+    name: 'Shield Bearer',
+    health: 140,
+    width: 36,
+    height: 56,
+    palette: { body: '#365314', accent: '#a16207', eyes: '#f97316' },
+    moveSpeed: 0.8,
+    aggroRange: 600,
+    preferredDistance: 70,
+    tolerance: 20,
+    attack: {
+        startup: 30,
+        active: 4,
+        recovery: 36,
+        damage: 14,
+        knockback: { x: 9, y: -5 },
+        hitStop: 10,
+        cooldown: 110,
+        range: 100,
+        lunge: 4,
+        hitbox: { offsetX: 45, reach: 55, height: 30 },
+        color: '#fbbf24'
+    },
+    guardMultiplier: 0.25,
+    will: 30
+};
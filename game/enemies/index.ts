@@ -0,0 +1,50 @@
+import { EnemyDefinition, Entity } from '../../types';
+import { GROUND_Y } from '../constants';
+import { ARCHER, SHIELD_BEARER, WOLF_SCOUT } from './definitions';
+
+// Registry of the minor yaoguai chapters can spawn between bosses. Their AI is
+// simple enough to live in the simulation; the numbers live here.
+
+const ENEMIES: Record<string, EnemyDefinition> = {
+    [WOLF_SCOUT.id]: WOLF_SCOUT,
+    [ARCHER.id]: ARCHER,
+    [SHIELD_BEARER.id]: SHIELD_BEARER
+};
+
+export const getEnemyIds = (): string[] => Object.keys(ENEMIES);
+
+export const hasEnemyDefinition = (id: string): boolean => id in ENEMIES;
+
+export const getEnemyDefinition = (id: string | undefined): EnemyDefinition | undefined =>
+    id ? ENEMIES[id] : undefined;
+
+export const createEnemyFromDefinition = (def: EnemyDefinition, id: string, x: number): Entity => ({
+    id,
+    defId: def.id,
+    pos: { x, y: GROUND_Y - def.height },
+    width: def.width,
+    height: def.height,
+    vx: 0,
+    vy: 0,
+    color: def.palette.body,
+    health: def.health,
+    maxHealth: def.health,
+    isDead: false,
+    facingRight: false,
+    type: 'enemy',
+    state: 'idle',
+    attackCooldown: def.attack.cooldown,
+    dodgeCooldown: 0,
+    chargeTimer: 0,
+    comboCount: 0,
+    comboWindow: 0,
+    animFrame: 0,
+    animTimer: 0,
+    hitStop: 0,
+    flashTimer: 0,
+    isImmobilized: false,
+    immobilizeTimer: 0,
+    immobilizeDamageTaken: 0,
+    moveTimer: 0,
+    isInvulnerable: false
+});
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_DEBUG_PARAMS } from './debugParams';
+import { measureFrameData } from './frameData';
+
+describe('measureFrameData', () => {
+    it('times every scripted move', () => {
+        const moves = measureFrameData(DEFAULT_DEBUG_PARAMS);
+        expect(moves.length).toBeGreaterThan(0);
+        for (const move of moves) {
+            expect(move.active, move.id).toBeGreaterThan(0);
+            expect(move.startup + move.active + move.recovery).toBe(move.total);
+            expect(move.timeline).toHaveLength(move.total);
+        }
+    });
+
+    it('follows the tuning', () => {
+        const [base] = measureFrameData(DEFAULT_DEBUG_PARAMS, 'atk3');
+        const [slower] = measureFrameData({ ...DEFAULT_DEBUG_PARAMS, c3Speed: DEFAULT_DEBUG_PARAMS.c3Speed / 2 }, 'atk3');
+        expect(slower.active).toBeGreaterThan(base.active);
+    });
+});
@@ -0,0 +1,126 @@
+import { Entity, InputFrame, StaffStance } from '../types';
+import { ARENA_WIDTH, CHARGE_THRESHOLD } from './constants';
+import { DebugParams } from './debugParams';
+import { EMPTY_INPUT } from './input';
+import { MovePhase } from './bosses';
+import { createWorld, stepWorld } from './simulation';
+
+// --- Frame Data ---
+// Each move is performed in a throwaway world and timed tick by tick, so the numbers always
+// match the current tuning: once against nothing (startup/active/recovery) and once against
+// an idle boss standing in reach (advantage on hit).
+
+export interface MoveFrameData {
+    id: string;
+    name: string;
+    skill: string; // Debug panel skill the move is tuned under
+    startup: number; // Frames before the first active frame
+    active: number; // First to last active frame, including any gaps between hits
+    recovery: number; // Frames after the last active frame until the player can act again
+    total: number;
+    advantage: number | null; // Frames the player is free before the target on hit; null if it never connects
+    timeline: MovePhase[]; // One entry per frame; gaps between hits count as recovery
+}
+
+interface MoveScript {
+    id: string;
+    name: string;
+    skill: string;
+    stance?: StaffStance;
+    input: (tick: number) => Partial<InputFrame>; // Held until the move begins
+    begins: (player: Entity) => boolean;
+}
+
+const MAX_TICKS = 400;
+const SETTLE_TICKS = 30; // Let both fighters land before the script starts
+const READY_STATES: Entity['state'][] = ['idle', 'run'];
+const STUN_STATES: Entity['state'][] = ['hit', 'stagger'];
+
+// Releasing every other tick chains the light combo as fast as it allows
+const tapAttack = (tick: number): Partial<InputFrame> => ({ attack: tick % 2 === 0 });
+const comboStep = (step: number) => (player: Entity) => player.state === 'attack' && player.comboCount === step;
+const holdHeavy = (tick: number): Partial<InputFrame> => ({ attack: tick <= CHARGE_THRESHOLD + 1 });
+const isHeavy = (player: Entity) => player.state === 'heavy_attack';
+
+const MOVE_SCRIPTS: MoveScript[] = [
+    { id: 'combo_1', name: 'Combo 1', skill: 'atk1_2', input: tapAttack, begins: comboStep(1) },
+    { id: 'combo_2', name: 'Combo 2', skill: 'atk1_2', input: tapAttack, begins: comboStep(2) },
+    { id: 'combo_3', name: 'Combo 3 (Spin)', skill: 'atk3', input: tapAttack, begins: comboStep(3) },
+    { id: 'combo_4', name: 'Combo 4 (Fan)', skill: 'atk4', input: tapAttack, begins: comboStep(4) },
+    { id: 'heavy_smash', name: 'Heavy (Smash)', skill: 'heavy', stance: 'smash', input: holdHeavy, begins: isHeavy },
+    { id: 'heavy_pillar', name: 'Heavy (Pillar)', skill: 'heavy', stance: 'pillar', input: holdHeavy, begins: isHeavy },
+    { id: 'heavy_thrust', name: 'Heavy (Thrust)', skill: 'heavy', stance: 'thrust', input: holdHeavy, begins: isHeavy },
+    { id: 'cloud_strike', name: 'Cloud Strike', skill: 'tech', input: tick => ({ tech: tick === 0 }), begins: player => player.state === 'plunge' },
+    { id: 'setsugekka', name: 'Setsugekka', skill: 'setsu', input: () => ({ setsu: true }), begins: player => player.state === 'setsugekka' }
+];
+
+interface MoveTrace {
+    active: boolean[]; // Per frame from the first frame of the move until the player is free
+    connected: boolean;
+    targetFreeFrame: number; // Frame the target is out of hitstun, counted like `active`
+}
+
+const traceMove = (script: MoveScript, params: DebugParams, withTarget: boolean): MoveTrace => {
+    const world = createWorld(1);
+    const { player } = world;
+    const dummy = world.boss!;
+    if (script.stance) player.stance = script.stance;
+    // Without a target the dummy waits against the far wall, out of reach of every move
+    dummy.pos.x = withTarget ? player.pos.x + player.width + 20 : ARENA_WIDTH - dummy.width;
+
+    for (let i = 0; i < SETTLE_TICKS; i++) stepWorld(world, EMPTY_INPUT, params);
+
+    const trace: MoveTrace = { active: [], connected: false, targetFreeFrame: 0 };
+    let frame = 0; // 0 until the move begins
+    let playerFree = false;
+    for (let tick = 0; tick < MAX_TICKS; tick++) {
+        const input = frame === 0 ? { ...EMPTY_INPUT, ...script.input(tick) } : EMPTY_INPUT;
+        const { events } = stepWorld(world, input, params);
+
+        if (frame === 0) {
+            if (!script.begins(player)) continue;
+            // Earlier combo steps may have hit the dummy: measure the move from a clean slate
+            Object.assign(dummy, { hitStop: 0, state: 'idle', poise: 0, staggerTimer: 0, health: dummy.maxHealth });
+        }
+        frame++;
+
+        if (!playerFree && frame > 1 && READY_STATES.includes(player.state) && player.hitStop <= 0) playerFree = true;
+        if (!playerFree) trace.active.push(events.some(e => e.type === 'active_frame'));
+        if (events.some(e => e.type === 'damage' && e.target !== 'player')) trace.connected = true;
+
+        const targetStunned = dummy.hitStop > 0 || STUN_STATES.includes(dummy.state);
+        if (targetStunned) trace.targetFreeFrame = frame + 1;
+        if (playerFree && !targetStunned) break;
+    }
+    return trace;
+};
+
+const measureMove = (script: MoveScript, params: DebugParams): MoveFrameData => {
+    const whiff = traceMove(script, params, false);
+    const first = whiff.active.indexOf(true);
+    const last = whiff.active.lastIndexOf(true);
+    const total = whiff.active.length;
+    const startup = first < 0 ? total : first;
+    const active = first < 0 ? 0 : last - first + 1;
+
+    const onHit = traceMove(script, params, true);
+    const playerFreeFrame = onHit.active.length + 1;
+
+    return {
+        id: script.id,
+        name: script.name,
+        skill: script.skill,
+        startup,
+        active,
+        recovery: total - startup - active,
+        total,
+        advantage: onHit.connected ? onHit.targetFreeFrame - playerFreeFrame : null,
+        timeline: whiff.active.map((isActive, i) => isActive ? 'active' : i < startup ? 'startup' : 'recovery')
+    };
+};
+
+// Measures the scripted moves (optionally just one skill's) under the given tuning, with the boss held idle and nobody able to die
+export const measureFrameData = (params: DebugParams, skill?: string): MoveFrameData[] => {
+    const harnessParams: DebugParams = { ...params, bossBehavior: 'idle', infiniteHealth: true, infinitePlayerHealth: true };
+    return MOVE_SCRIPTS.filter(script => !skill || script.skill === skill).map(script => measureMove(script, harnessParams));
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { GROUND_Y } from './constants';
+import { DEFAULT_DEBUG_PARAMS } from './debugParams';
+import { boxesOverlap, circleBox, findContact, getBossHitboxes, getHurtboxes, getPlayerHitboxes, rectBox } from './hitboxes';
+import { getBossDefinition, getBossMove } from './bosses';
+import { createWorld } from './simulation';
+
+describe('boxesOverlap', () => {
+    it('finds the middle of two overlapping rects', () => {
+        expect(boxesOverlap(rectBox('hit', 0, 0, 10, 10), rectBox('hurt', 5, 5, 10, 10))).toEqual({ x: 7.5, y: 7.5 });
+    });
+
+    it('treats touching edges as a miss', () => {
+        expect(boxesOverlap(rectBox('hit', 0, 0, 10, 10), rectBox('hurt', 10, 0, 10, 10))).toBeNull();
+    });
+
+    it('tests circles and points against rects from either side', () => {
+        const body = rectBox('hurt', 0, 0, 10, 10);
+        expect(boxesOverlap(circleBox('area', 15, 5, 6), body)).toEqual({ x: 10, y: 5 });
+        expect(boxesOverlap(body, circleBox('area', 15, 5, 4))).toBeNull();
+        expect(boxesOverlap(circleBox('hit', 5, 5, 0), body)).toEqual({ x: 5, y: 5 });
+    });
+});
+
+describe('hurtboxes', () => {
+    it('drop out while dead or invulnerable', () => {
+        const { player } = createWorld(1);
+        expect(getHurtboxes(player)).toHaveLength(1);
+        expect(getHurtboxes({ ...player, isInvulnerable: true })).toEqual([]);
+        expect(getHurtboxes({ ...player, isDead: true })).toEqual([]);
+    });
+
+    it('shrink to the lower body while rolling', () => {
+        const { player } = createWorld(1);
+        const [box] = getHurtboxes({ ...player, state: 'dodge', dodgeFrame: 5 });
+        expect(box).toMatchObject({ shape: 'rect', y: player.pos.y + player.height / 2, height: player.height / 2 });
+    });
+});
+
+describe('strike boxes', () => {
+    it('only exist on active frames', () => {
+        const { player } = createWorld(1);
+        const combo1 = { ...player, state: 'attack' as const, comboCount: 1 };
+        expect(getPlayerHitboxes({ ...combo1, animFrame: 0 }, DEFAULT_DEBUG_PARAMS)).toEqual([]);
+        expect(getPlayerHitboxes({ ...combo1, animFrame: 1 }, DEFAULT_DEBUG_PARAMS)).toHaveLength(1);
+    });
+
+    it('reach the player by centre distance for boss moves', () => {
+        const world = createWorld(1);
+        const boss = world.boss!;
+        const move = getBossMove(getBossDefinition(boss.defId), 'kowtow')!;
+        const slamming = { ...boss, state: 'kowtow_attack' as const, moveId: move.id, moveTimer: move.startup, facingRight: false };
+        const strikeX = slamming.pos.x + slamming.width / 2 - move.hitbox.offsetX;
+
+        const at = (centreX: number) => ({ ...world.player, pos: { x: centreX - world.player.width / 2, y: GROUND_Y - world.player.height } });
+        const strike = getBossHitboxes(slamming, move, world.player);
+        expect(findContact(strike, getHurtboxes(at(strikeX - move.hitbox.reach + 1)))).not.toBeNull();
+        expect(findContact(strike, getHurtboxes(at(strikeX - move.hitbox.reach - 1)))).toBeNull();
+    });
+});
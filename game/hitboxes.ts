@@ -0,0 +1,322 @@
+import { BossHitbox, BossMoveDefinition, BoxType, EnemyAttackDefinition, Entity, FrameBox, Projectile, ProjectileDefinition, WorldState } from '../types';
+import { GROUND_Y } from './constants';
+import { DebugParams } from './debugParams';
+import { easeOutQuad, getCombo4AngleFromT, lerp } from './math';
+import { MovePhase, getBossDefinition, getBossMove, getMovePhase } from './bosses';
+import { getEnemyDefinition } from './enemies';
+import { getProjectileDefinition } from './projectiles';
+import { getTransformation, getTransformMove } from './transformations';
+
+// --- Hitboxes & Hurtboxes ---
+// Every strike in the game is described as boxes for the current frame and resolved by findContact.
+// Player attacks come from PLAYER_HITBOXES; boss, enemy and transformation moves from their BossHitbox layout;
+// bodies from the hurtbox tables. The simulation and the debug overlay read the same functions.
+
+const ARENA_TOP = -1000; // Above the highest leap, so columns reach anything airborne
+
+export const rectBox = (type: BoxType, x: number, y: number, width: number, height: number): FrameBox =>
+    ({ type, shape: 'rect', x, y, width, height });
+
+export const circleBox = (type: BoxType, x: number, y: number, radius: number): FrameBox =>
+    ({ type, shape: 'circle', x, y, radius });
+
+// Everything within `halfWidth` of x horizontally, at any height
+export const columnBox = (type: BoxType, x: number, halfWidth: number): FrameBox =>
+    rectBox(type, x - halfWidth, ARENA_TOP, halfWidth * 2, GROUND_Y - ARENA_TOP);
+
+// A column that touches `target`'s body once its centre is within `reach` of x (Cloud Strike landing)
+export const centreReachColumn = (type: BoxType, x: number, reach: number, target: Entity): FrameBox =>
+    columnBox(type, x, Math.max(0, reach - target.width / 2));
+
+// --- Overlap ---
+type Point = { x: number; y: number };
+type RectBox = Extract<FrameBox, { shape: 'rect' }>;
+type CircleBox = Extract<FrameBox, { shape: 'circle' }>;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(value, max));
+
+const overlapRects = (a: RectBox, b: RectBox): Point | null => {
+    if (a.x >= b.x + b.width || a.x + a.width <= b.x || a.y >= b.y + b.height || a.y + a.height <= b.y) return null;
+    const left = Math.max(a.x, b.x);
+    const top = Math.max(a.y, b.y);
+    return { x: (left + Math.min(a.x + a.width, b.x + b.width)) / 2, y: (top + Math.min(a.y + a.height, b.y + b.height)) / 2 };
+};
+
+const overlapCircleRect = (c: CircleBox, r: RectBox): Point | null => {
+    const x = clamp(c.x, r.x, r.x + r.width);
+    const y = clamp(c.y, r.y, r.y + r.height);
+    return (c.x - x) ** 2 + (c.y - y) ** 2 <= c.radius ** 2 ? { x, y } : null;
+};
+
+const overlapCircles = (a: CircleBox, b: CircleBox): Point | null => {
+    const dist = Math.hypot(a.x - b.x, a.y - b.y);
+    if (dist > a.radius + b.radius) return null;
+    const t = dist > 0 ? a.radius / (a.radius + b.radius || 1) : 0;
+    return { x: lerp(a.x, b.x, t), y: lerp(a.y, b.y, t) };
+};
+
+export const boxesOverlap = (a: FrameBox, b: FrameBox): Point | null => {
+    if (a.shape === 'rect') return b.shape === 'rect' ? overlapRects(a, b) : overlapCircleRect(b, a);
+    return b.shape === 'rect' ? overlapCircleRect(a, b) : overlapCircles(a, b);
+};
+
+// The shared resolver: where the first of `hitboxes` touches any of `hurtboxes`, or null on a miss
+export const findContact = (hitboxes: FrameBox[], hurtboxes: FrameBox[]): Point | null => {
+    for (const hit of hitboxes) {
+        for (const hurt of hurtboxes) {
+            const contact = boxesOverlap(hit, hurt);
+            if (contact) return contact;
+        }
+    }
+    return null;
+};
+
+// --- Hurtboxes ---
+// Bodies change shape per state, and per frame inside a state where the pose changes.
+// States without an entry are struck on the whole body; dead and invulnerable entities can't be struck at all
+
+// One run of frames (inclusive) inside a state
+interface HurtWindow {
+    from: number;
+    to: number;
+    boxes: (entity: Entity) => FrameBox[];
+}
+
+const wholeState = (boxes: HurtWindow['boxes']): HurtWindow[] => [{ from: 0, to: Infinity, boxes }];
+
+const bodyBox = (e: Entity): FrameBox => rectBox('hurt', e.pos.x, e.pos.y, e.width, e.height);
+
+// The lower `fraction` of the body: crouches, rolls, kneels
+const lowBody = (e: Entity, fraction: number, shiftForward: number = 0): FrameBox => {
+    const height = e.height * fraction;
+    const x = e.pos.x + (e.facingRight ? shiftForward : -shiftForward);
+    return rectBox('hurt', x, e.pos.y + e.height - height, e.width, height);
+};
+
+// The body pulled in by `inset` on each side and stretched up by `rise`
+const narrowBody = (e: Entity, inset: number, rise: number = 0): FrameBox =>
+    rectBox('hurt', e.pos.x + inset, e.pos.y - rise, e.width - inset * 2, e.height + rise);
+
+// Keyed by getPlayerHurtKey; frames count dodgeFrame while dodging, the animation frame otherwise
+const PLAYER_HURTBOXES: Record<string, HurtWindow[]> = {
+    dodge: [
+        { from: 0, to: 2, boxes: p => [lowBody(p, 0.7)] }, // Tucking in
+        { from: 3, to: Infinity, boxes: p => [lowBody(p, 0.5)] } // Rolling
+    ],
+    heavy_pillar: wholeState(p => [lowBody(p, 0.6)]), // Crouched on top of the staff
+    plunge: wholeState(p => [narrowBody(p, 5)]) // Diving staff-first
+};
+
+// Minor yaoguai keep their whole body; the boss reshapes in its big poses
+const BOSS_HURTBOXES: Partial<Record<Entity['state'], HurtWindow[]>> = {
+    jump_smash: wholeState(b => [narrowBody(b, 10)]), // Tucked in the air
+    stagger: wholeState(b => [lowBody(b, 0.6)]), // Knocked to its knees
+    roar: wholeState(b => [narrowBody(b, 10, 20)]) // Reared up
+};
+
+// Boss moves reshape the body by phase instead, since every move has its own frame data
+const BOSS_MOVE_HURTBOXES: Partial<Record<Entity['state'], Partial<Record<MovePhase, (boss: Entity) => FrameBox[]>>>> = {
+    kowtow_attack: { // Slams: rear back, then bow forward into the ground
+        startup: b => [narrowBody(b, 10, 20)],
+        active: b => [lowBody(b, 0.6, 20)],
+        recovery: b => [lowBody(b, 0.6, 20)]
+    },
+    attack: { // Leap landing: crouched from the impact
+        active: b => [lowBody(b, 0.7)],
+        recovery: b => [lowBody(b, 0.7)]
+    }
+};
+
+const getPlayerHurtKey = (player: Entity): string =>
+    player.state === 'heavy_attack' && player.stance === 'pillar' ? 'heavy_pillar' : player.state;
+
+const findHurtWindow = (windows: HurtWindow[] | undefined, frame: number): HurtWindow | undefined =>
+    windows && windows.find(w => frame >= w.from && frame <= w.to);
+
+export const getHurtboxes = (entity: Entity): FrameBox[] => {
+    if (entity.isDead || entity.isInvulnerable) return [];
+
+    if (entity.type === 'player') {
+        const frame = entity.state === 'dodge' ? entity.dodgeFrame || 0 : entity.animFrame;
+        const window = findHurtWindow(PLAYER_HURTBOXES[getPlayerHurtKey(entity)], frame);
+        return window ? window.boxes(entity) : [bodyBox(entity)];
+    }
+
+    if (entity.type === 'boss') {
+        const move = getBossMove(getBossDefinition(entity.defId), entity.moveId);
+        const byPhase = BOSS_MOVE_HURTBOXES[entity.state];
+        const phaseBoxes = move && byPhase && byPhase[getMovePhase(move, entity.moveTimer || 0).phase];
+        if (phaseBoxes) return phaseBoxes(entity);
+        const window = findHurtWindow(BOSS_HURTBOXES[entity.state], entity.animFrame);
+        if (window) return window.boxes(entity);
+    }
+    return [bodyBox(entity)];
+};
+
+// --- Move Layout Hitboxes ---
+// Boss, enemy and transformation moves: `reach` either side of a point offset in front of the body,
+// from the ground up to `height`. Boss and enemy reach is measured to the victim's centre, so their
+// boxes stop `victimWidth / 2` short; transformed strikes reach the body edge like the player's own attacks
+export const getStrikeBox = (entity: Entity, hitbox: BossHitbox, victimWidth: number = 0): FrameBox => {
+    const dir = entity.facingRight ? 1 : -1;
+    const strikeX = entity.pos.x + entity.width / 2 + dir * hitbox.offsetX;
+    const halfWidth = Math.max(0, hitbox.reach - victimWidth / 2);
+    return rectBox('hit', strikeX - halfWidth, GROUND_Y - hitbox.height, halfWidth * 2, hitbox.height);
+};
+
+type StrikeLayout = Pick<BossMoveDefinition, 'startup' | 'active' | 'recovery' | 'hitbox' | 'hitboxFrames'>;
+
+// The layout struck on one frame of the active window: its hitboxFrames entry, or the whole footprint
+export const getHitboxForFrame = (layout: StrikeLayout, activeFrame: number): BossHitbox | null => {
+    if (!layout.hitboxFrames) return layout.hitbox;
+    const frame = layout.hitboxFrames.find(w => activeFrame >= w.from && activeFrame <= w.to);
+    return frame || null;
+};
+
+// What the entity strikes with on its current moveTimer, or nothing outside the active window
+const getLayoutHitboxes = (entity: Entity, layout: StrikeLayout, victimWidth: number = 0): FrameBox[] => {
+    const moveTimer = entity.moveTimer || 0;
+    if (getMovePhase(layout, moveTimer).phase !== 'active') return [];
+    const hitbox = getHitboxForFrame(layout, moveTimer - layout.startup);
+    return hitbox ? [getStrikeBox(entity, hitbox, victimWidth)] : [];
+};
+
+// The boss's strike while its current move is in its active frames (leaps strike once landed)
+export const getBossHitboxes = (boss: Entity, move: BossMoveDefinition | undefined, victim: Entity): FrameBox[] => {
+    if (!move || move.kind === 'projectile' || boss.state === 'jump_smash') return [];
+    return getLayoutHitboxes(boss, move, victim.width);
+};
+
+// A minor yaoguai's melee strike (ranged attacks go through projectiles)
+export const getEnemyHitboxes = (enemy: Entity, attack: EnemyAttackDefinition | undefined, victim: Entity): FrameBox[] => {
+    if (enemy.state !== 'attack' || !attack || !attack.hitbox) return [];
+    return getLayoutHitboxes(enemy, { ...attack, hitbox: attack.hitbox }, victim.width);
+};
+
+// The transformed player's current move
+export const getTransformHitboxes = (player: Entity): FrameBox[] => {
+    if (player.state !== 'transform_attack') return [];
+    const form = getTransformation(player.transformId);
+    const move = form && getTransformMove(form, player.moveId);
+    return move ? getLayoutHitboxes(player, move) : [];
+};
+
+export const getProjectileBox = (projectile: Projectile, def: ProjectileDefinition): FrameBox =>
+    rectBox('projectile', projectile.x - def.width / 2, projectile.y - def.height / 2, def.width, def.height);
+
+// --- Player Hitboxes ---
+// Heavy attack reach for the given number of spent pips (shared with the renderer)
+export const getHeavyRange = (params: DebugParams, pips: number): number =>
+    params.heavyRange * (1 + pips * params.heavyPipRange);
+
+// Thrust heavy reach for the given number of spent pips (shared with the renderer)
+export const getThrustRange = (params: DebugParams, pips: number): number =>
+    params.thrustRange * (1 + pips * params.heavyPipRange);
+
+// Combo 3 spins for as long as its rotations take at the tuned speed
+export const getCombo3Frames = (params: DebugParams): number =>
+    Math.ceil((params.c3Rotations * 360) / params.c3Speed);
+
+// The smash heavy grows out to full reach, matching the visual lerp(40, maxLen, easeOutQuad(t/6))
+const getSmashHeavyReach = (player: Entity, params: DebugParams): number => {
+    const maxReach = getHeavyRange(params, player.focusSpent || 0);
+    const t = player.animFrame + player.animTimer / 2;
+    return t < 6 ? lerp(40, maxReach, easeOutQuad(Math.max(0, t / 6))) : maxReach;
+};
+
+const centreX = (p: Entity) => p.pos.x + p.width / 2;
+
+// Full-height box from the leading edge of the body
+const forwardBox = (p: Entity, range: number, y: number = p.pos.y, height: number = p.height): FrameBox =>
+    rectBox('hit', p.facingRight ? p.pos.x + p.width : p.pos.x - range, y, range, height);
+
+// Narrow box along the staff, from the centre of the body outward
+const staffBox = (p: Entity, range: number, height: number = 50): FrameBox =>
+    rectBox('hit', p.facingRight ? centreX(p) : centreX(p) - range, p.pos.y + p.height - 35 - height / 2, range, height);
+
+// Combo 4 smash: points along the staff, swept from last tick's angle to this one's
+const getCombo4Sweep = (p: Entity, params: DebugParams): FrameBox[] => {
+    const currentT = p.animFrame + p.animTimer;
+    const prevT = Math.max(5, currentT - 1.0);
+    const sweepSteps = 6;
+    const dir = p.facingRight ? 1 : -1;
+    const pivotY = p.pos.y + p.height - 35;
+    const checkPoints = [0.3, 0.6, 0.9, 1].map(f => params.c4Length * f);
+
+    const points: FrameBox[] = [];
+    for (let s = 0; s <= sweepSteps; s++) {
+        const angle = getCombo4AngleFromT(lerp(prevT, currentT, s / sweepSteps));
+        for (const r of checkPoints) {
+            points.push(circleBox('hit', centreX(p) + Math.cos(angle) * r * dir, pivotY + Math.sin(angle) * r, 0));
+        }
+    }
+    return points;
+};
+
+// One run of active frames (inclusive) inside a move
+interface FrameWindow {
+    from: number;
+    to: number | ((params: DebugParams) => number);
+    boxes: (player: Entity, params: DebugParams) => FrameBox[];
+}
+
+// Active frames and boxes for every player move that hits on its own animation.
+// Pillar heavy, Cloud Strike and transformed moves strike on landing or through their move layout instead.
+const PLAYER_HITBOXES: Record<string, FrameWindow[]> = {
+    combo_1: [{ from: 1, to: 2, boxes: p => [forwardBox(p, 90)] }],
+    combo_2: [{ from: 1, to: 2, boxes: p => [forwardBox(p, 110)] }],
+    combo_3: [{ from: 0, to: getCombo3Frames, boxes: (p, params) => [circleBox('area', centreX(p), p.pos.y + p.height / 2, params.c3Radius)] }],
+    combo_4_smash: [{ from: 5, to: 10, boxes: getCombo4Sweep }],
+    combo_4_pillar: [{ from: 5, to: 10, boxes: (p, params) => [circleBox('area', centreX(p), p.pos.y + p.height / 2, params.pillarFinisherRadius)] }],
+    combo_4_thrust: [{ from: 5, to: 10, boxes: (p, params) => [staffBox(p, params.thrustFinisherRange)] }],
+    heavy_smash: [{ from: 2, to: 6, boxes: (p, params) => [staffBox(p, getSmashHeavyReach(p, params))] }],
+    heavy_thrust: [{ from: 2, to: 4, boxes: (p, params) => [staffBox(p, getThrustRange(params, p.focusSpent || 0))] }],
+    setsugekka: [
+        // Snow: horizontal slash growing out from the centre like the visual lerp(20, 150)
+        { from: 0, to: 7, boxes: p => [staffBox(p, lerp(20, 150, easeOutQuad(Math.min(1, p.animFrame / 6))))] },
+        // Moon: the first frame still slashes at body height, then the hit follows the jump
+        { from: 10, to: 10, boxes: p => [forwardBox(p, 120)] },
+        { from: 11, to: 20, boxes: p => [forwardBox(p, 120, p.pos.y - 50, p.height + 100)] },
+        // Flower
+        { from: 22, to: 32, boxes: p => [forwardBox(p, 180, p.pos.y - 50, p.height + 100)] }
+    ]
+};
+
+// Which PLAYER_HITBOXES entry the player's state and combo step are using, if any
+export const getPlayerMoveKey = (player: Entity): string | null => {
+    const stance = player.stance || 'smash';
+    if (player.state === 'attack') return player.comboCount === 4 ? `combo_4_${stance}` : `combo_${player.comboCount}`;
+    if (player.state === 'heavy_attack') return `heavy_${stance}`;
+    if (player.state === 'setsugekka') return 'setsugekka';
+    return null;
+};
+
+export const getPlayerHitboxes = (player: Entity, params: DebugParams): FrameBox[] => {
+    const key = getPlayerMoveKey(player);
+    const windows = key ? PLAYER_HITBOXES[key] : undefined;
+    if (!windows) return [];
+    const frame = player.animFrame;
+    const window = windows.find(w => frame >= w.from && frame <= (typeof w.to === 'number' ? w.to : w.to(params)));
+    return window ? window.boxes(player, params) : [];
+};
+
+// --- Debug Overlay ---
+// Every box in play this tick: hurtboxes first so strikes draw over them
+export const getFrameBoxes = (world: WorldState, params: DebugParams): FrameBox[] => {
+    const { player } = world;
+    const boxes: FrameBox[] = [...getHurtboxes(player)];
+    world.enemies.forEach(enemy => boxes.push(...getHurtboxes(enemy)));
+
+    boxes.push(...getPlayerHitboxes(player, params), ...getTransformHitboxes(player));
+    for (const enemy of world.enemies) {
+        if (enemy.isDead) continue;
+        if (enemy.type === 'boss') boxes.push(...getBossHitboxes(enemy, getBossMove(getBossDefinition(enemy.defId), enemy.moveId), player));
+        else boxes.push(...getEnemyHitboxes(enemy, getEnemyDefinition(enemy.defId)?.attack, player));
+    }
+
+    world.projectiles.forEach(projectile => {
+        const def = getProjectileDefinition(projectile.defId);
+        if (def) boxes.push(getProjectileBox(projectile, def));
+    });
+    return boxes;
+};
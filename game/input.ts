@@ -0,0 +1,55 @@
+import { InputFrame } from '../types';
+
+export const EMPTY_INPUT: InputFrame = {
+    left: false,
+    right: false,
+    jump: false,
+    attack: false,
+    dodge: false,
+    spell: false,
+    tech: false,
+    setsu: false,
+    parry: false,
+    heal: false,
+    spell2: false,
+    spell3: false,
+    spell4: false,
+    transform: false,
+    stance: false,
+    lockOn: false,
+    throwStaff: false
+};
+
+// Maps the raw keyboard state (KeyboardEvent.code -> pressed) to one tick of intent
+export const readInput = (keys: { [key: string]: boolean }): InputFrame => ({
+    left: !!(keys['ArrowLeft'] || keys['KeyA']),
+    right: !!(keys['ArrowRight'] || keys['KeyD']),
+    jump: !!keys['Space'],
+    attack: !!keys['KeyJ'],
+    dodge: !!(keys['ShiftLeft'] || keys['KeyL']),
+    spell: !!(keys['KeyI'] || keys['Digit1']),
+    tech: !!keys['KeyK'],
+    setsu: !!keys['KeyN'],
+    parry: !!keys['KeyO'],
+    heal: !!keys['KeyR'],
+    spell2: !!keys['Digit2'],
+    spell3: !!keys['Digit3'],
+    spell4: !!keys['Digit4'],
+    transform: !!keys['KeyT'],
+    stance: !!keys['KeyQ'],
+    lockOn: !!keys['KeyE'],
+    throwStaff: !!keys['KeyU']
+});
+
+// Bit order for the compact per-tick encoding used by replays. Append only:
+// reordering would break previously exported replay files.
+export const INPUT_BITS: (keyof InputFrame)[] = ['left', 'right', 'jump', 'attack', 'dodge', 'spell', 'tech', 'setsu', 'parry', 'heal', 'spell2', 'spell3', 'spell4', 'transform', 'stance', 'lockOn', 'throwStaff'];
+
+export const encodeInput = (input: InputFrame): number =>
+    INPUT_BITS.reduce((bits, key, i) => (input[key] ? bits | (1 << i) : bits), 0);
+
+export const decodeInput = (bits: number): InputFrame => {
+    const input = { ...EMPTY_INPUT };
+    INPUT_BITS.forEach((key, i) => { input[key] = (bits & (1 << i)) !== 0; });
+    return input;
+};
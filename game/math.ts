@@ -0,0 +1,25 @@
+// --- Math Helpers (Shared between Simulation and Draw) ---
+export const lerp = (start: number, end: number, t: number) => start * (1 - t) + end * t;
+export const easeOutQuad = (t: number) => t * (2 - t);
+export const easeInOutQuad = (t: number) => t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t;
+export const easeInCubic = (t: number) => t * t * t;
+export const easeOutBack = (x: number): number => {
+    const c1 = 1.70158;
+    const c3 = c1 + 1;
+    return 1 + c3 * Math.pow(x - 1, 3) + c1 * Math.pow(x - 1, 2);
+};
+
+// Combo 4 Configuration
+export const C4_START_ANGLE = -2.5;
+export const C4_END_ANGLE = 1.8;
+
+// Shared logic to get current staff angle based on Continuous Time (t)
+export const getCombo4AngleFromT = (t: number) => {
+    // Active swing is frames 5 to 10
+    if (t <= 5) return C4_START_ANGLE; 
+    if (t >= 10) return C4_END_ANGLE; 
+    
+    const progress = (t - 5) / 5; 
+    const ease = easeInCubic(progress); 
+    return lerp(C4_START_ANGLE, C4_END_ANGLE, ease);
+};
@@ -0,0 +1,51 @@
+import { ProjectileDefinition } from '../../types';
+
+// Rat Archer shot: fast with a slight drop, low enough to jump over
+export const ARROW: ProjectileDefinition = {
+    id: 'arrow',
+    speed: 9,
+    gravity: 0.02,
+    life: 90,
+    width: 16,
+    height: 4,
+    damage: 10,
+    knockback: { x: 5, y: -4 },
+    hitStop: 8,
+    piercing: false,
+    color: '#e5e7eb',
+    render: 'arrow'
+};
+
+// Black Wind King's second-phase orb: slow and large, meant to be jumped or deflected
+export const BLACK_WIND_ORB: ProjectileDefinition = {
+    id: 'black_wind_orb',
+    speed: 6,
+    gravity: 0,
+    life: 150,
+    width: 24,
+    height: 24,
+    damage: 18,
+    knockback: { x: 8, y: -6 },
+    hitStop: 12,
+    piercing: false,
+    color: '#f97316',
+    render: 'fireball'
+};
+
+// Thrown staff (U): spins out through everything in its path, then comes back
+export const THROWN_STAFF: ProjectileDefinition = {
+    id: 'thrown_staff',
+    speed: 14,
+    gravity: 0,
+    life: 60,
+    width: 40,
+    height: 10,
+    damage: 20,
+    knockback: { x: 6, y: -2 },
+    hitStop: 6,
+    poise: 10,
+    piercing: true,
+    returnAfter: 20,
+    color: '#fbbf24',
+    render: 'staff'
+};
@@ -0,0 +1,19 @@
+import { ProjectileDefinition } from '../../types';
+import { ARROW, BLACK_WIND_ORB, THROWN_STAFF } from './definitions';
+
+// Registry of everything that can be fired. Flight and hit resolution live in the
+// simulation; the renderer picks a draw routine by ProjectileDefinition.render.
+
+// Fired by the staff-throw skill (U)
+export const STAFF_THROW_PROJECTILE = THROWN_STAFF.id;
+
+const PROJECTILES: Record<string, ProjectileDefinition> = {
+    [ARROW.id]: ARROW,
+    [BLACK_WIND_ORB.id]: BLACK_WIND_ORB,
+    [THROWN_STAFF.id]: THROWN_STAFF
+};
+
+export const hasProjectileDefinition = (id: string): boolean => id in PROJECTILES;
+
+export const getProjectileDefinition = (id: string | undefined): ProjectileDefinition | undefined =>
+    id ? PROJECTILES[id] : undefined;
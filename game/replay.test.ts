@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_DEBUG_PARAMS } from './debugParams';
+import { EMPTY_INPUT, decodeInput, encodeInput } from './input';
+import { createReplay, parseReplay, recordAction, recordParamChange, runReplay, serializeReplay } from './replay';
+import { SIM_VERSION, createWorld, resetHealth, stepWorld } from './simulation';
+import { mashInputs } from './testInputs';
+
+// Walks into the boss swinging, with a tuning change and a health reset on the way
+const recordFight = () => {
+    const world = createWorld(123);
+    const replay = createReplay(world.rng.seed, world.bossId, world.chapterId, DEFAULT_DEBUG_PARAMS);
+    let params = DEFAULT_DEBUG_PARAMS;
+
+    for (let tick = 0; tick < 2000; tick++) {
+        if (tick === 600) {
+            params = { ...params, c1Damage: 40 };
+            recordParamChange(replay, world.tick, 'c1Damage', 40);
+        }
+        if (tick === 1200) {
+            recordAction(replay, world.tick, 'reset_health');
+            resetHealth(world);
+        }
+        const bits = encodeInput({ ...EMPTY_INPUT, right: true, attack: tick % 4 < 2 });
+        replay.inputs.push(bits);
+        stepWorld(world, decodeInput(bits), params);
+    }
+    return { world, replay };
+};
+
+describe('replays', () => {
+    it('play back to the same world after a save and load', () => {
+        const { world, replay } = recordFight();
+        const loaded = parseReplay(serializeReplay(replay));
+
+        expect(JSON.stringify(runReplay(loaded))).toBe(JSON.stringify(world));
+    });
+
+    it('play back a button-mashed fight, every input included', () => {
+        const world = createWorld(77);
+        const replay = createReplay(world.rng.seed, world.bossId, world.chapterId, DEFAULT_DEBUG_PARAMS);
+        for (const bits of mashInputs(31, 3000)) {
+            replay.inputs.push(bits);
+            stepWorld(world, decodeInput(bits), DEFAULT_DEBUG_PARAMS);
+        }
+
+        expect(JSON.stringify(runReplay(parseReplay(serializeReplay(replay))))).toBe(JSON.stringify(world));
+    });
+
+    it('refuse files recorded on another simulation version', () => {
+        const { replay } = recordFight();
+        const outdated = serializeReplay({ ...replay, simVersion: SIM_VERSION - 1 });
+
+        expect(() => parseReplay(outdated)).toThrow(/simulation version/);
+    });
+
+    it('reject malformed files', () => {
+        expect(() => parseReplay('not json')).toThrow(/not valid JSON/);
+        expect(() => parseReplay(JSON.stringify({ version: 1 }))).toThrow(/Unsupported replay version/);
+    });
+
+    it('drop tuning changes this build cannot apply', () => {
+        const { replay } = recordFight();
+        const tampered = {
+            ...replay,
+            params: { ...replay.params, c1Damage: 'lots' },
+            paramChanges: [
+                ...replay.paramChanges,
+                { tick: 10, key: 'notAParam', value: 1 },
+                { tick: 20, key: 'c2Damage', value: { amount: 99 } },
+                { tick: 'soon', key: 'c2Damage', value: 99 }
+            ]
+        };
+        const loaded = parseReplay(JSON.stringify(tampered));
+
+        expect(loaded.params.c1Damage).toBe(DEFAULT_DEBUG_PARAMS.c1Damage);
+        expect(loaded.paramChanges).toEqual(replay.paramChanges);
+    });
+});
@@ -0,0 +1,149 @@
+import { GameState, WorldState } from '../types';
+import { DebugParams, DEFAULT_DEBUG_PARAMS, isDebugParamValue } from './debugParams';
+import { decodeInput } from './input';
+import { SIM_VERSION, createWorld, resetHealth, stepWorld } from './simulation';
+import { hasBossDefinition } from './bosses';
+import { hasChapterDefinition } from './chapters';
+
+// A replay is the session seed, the tuning values in effect and one encoded
+// InputFrame per fixed tick. Because the simulation is deterministic for a
+// given seed, feeding the same inputs back reproduces the fight exactly - on
+// the same SIM_VERSION, so that is stored too.
+
+export const REPLAY_VERSION = 3;
+
+export interface ParamChange {
+  tick: number; // Applied before this tick is simulated
+  key: keyof DebugParams;
+  value: DebugParams[keyof DebugParams];
+}
+
+// Debug panel actions that change the world directly rather than through input
+export interface ReplayAction {
+  tick: number; // Applied before this tick is simulated
+  type: 'reset_health';
+}
+
+export interface Replay {
+  version: number;
+  simVersion: number; // SIM_VERSION the fight was recorded on
+  seed: number;
+  bossId: string; // BossDefinition the fight was recorded against
+  chapterId: string | null; // ChapterDefinition whose sections preceded the boss
+  params: DebugParams;
+  paramChanges: ParamChange[]; // Debug panel tweaks made mid-fight
+  actions: ReplayAction[];
+  inputs: number[]; // encodeInput() bitmask per tick
+  outcome: GameState.VICTORY | GameState.GAME_OVER | null;
+  recordedAt: string;
+}
+
+// --- Recording ---
+export const createReplay = (seed: number, bossId: string, chapterId: string | null, params: DebugParams): Replay => ({
+    version: REPLAY_VERSION,
+    simVersion: SIM_VERSION,
+    seed,
+    bossId,
+    chapterId,
+    params: { ...params },
+    paramChanges: [],
+    actions: [],
+    inputs: [],
+    outcome: null,
+    recordedAt: new Date().toISOString()
+});
+
+export const recordParamChange = <K extends keyof DebugParams>(replay: Replay, tick: number, key: K, value: DebugParams[K]) => {
+    replay.paramChanges.push({ tick, key, value });
+};
+
+export const recordAction = (replay: Replay, tick: number, type: ReplayAction['type']) => {
+    replay.actions.push({ tick, type });
+};
+
+// --- Playback ---
+// Returns the tuning values to use for `tick`, applying any changes recorded for it
+export const applyParamChanges = (replay: Replay, tick: number, params: DebugParams): DebugParams => {
+    let next = params;
+    for (const change of replay.paramChanges) {
+        if (change.tick === tick) next = { ...next, [change.key]: change.value };
+    }
+    return next;
+};
+
+// Applies the actions recorded for `tick` to the world; true if there were any
+export const applyActions = (replay: Replay, tick: number, world: WorldState): boolean => {
+    const actions = replay.actions.filter(action => action.tick === tick);
+    for (const action of actions) {
+        if (action.type === 'reset_health') resetHealth(world);
+    }
+    return actions.length > 0;
+};
+
+// Runs a whole replay headlessly (tests, tools) and returns the final world
+export const runReplay = (replay: Replay): WorldState => {
+    const world = createWorld(replay.seed, replay.bossId, replay.chapterId);
+    let params = { ...replay.params };
+    for (let tick = 0; tick < replay.inputs.length; tick++) {
+        params = applyParamChanges(replay, tick, params);
+        applyActions(replay, tick, world);
+        stepWorld(world, decodeInput(replay.inputs[tick]), params);
+    }
+    return world;
+};
+
+// --- Serialization ---
+export const serializeReplay = (replay: Replay): string => JSON.stringify(replay);
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Keeps the recorded tuning values this build still knows, with the type it expects
+const parseParams = (data: unknown): Partial<DebugParams> =>
+    isObject(data) ? Object.fromEntries(Object.entries(data).filter(([key, value]) => isDebugParamValue(key, value))) : {};
+
+const isParamChange = (change: unknown): change is ParamChange =>
+    isObject(change) &&
+    typeof change.tick === 'number' && Number.isFinite(change.tick) &&
+    typeof change.key === 'string' && isDebugParamValue(change.key, change.value);
+
+const isReplayAction = (action: unknown): action is ReplayAction =>
+    isObject(action) && typeof action.tick === 'number' && Number.isFinite(action.tick) && action.type === 'reset_health';
+
+export const parseReplay = (text: string): Replay => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error("Replay file is not valid JSON");
+    }
+
+    if (!isObject(data)) throw new Error("Replay file is empty");
+    if (data.version !== REPLAY_VERSION) throw new Error(`Unsupported replay version: ${data.version}`);
+    if (data.simVersion !== SIM_VERSION) throw new Error(`Replay was recorded on simulation version ${data.simVersion} and would play out differently on version ${SIM_VERSION}`);
+    if (typeof data.seed !== 'number') throw new Error("Replay is missing its seed");
+    if (typeof data.bossId !== 'string' || !hasBossDefinition(data.bossId)) throw new Error(`Replay uses an unknown boss: ${data.bossId}`);
+    // Replays recorded before chapters were a straight boss duel
+    const chapterId = typeof data.chapterId === 'string' ? data.chapterId : null;
+    if (data.chapterId != null && (chapterId === null || !hasChapterDefinition(chapterId))) throw new Error(`Replay uses an unknown chapter: ${data.chapterId}`);
+    if (!Array.isArray(data.inputs) || data.inputs.some((bits: unknown) => typeof bits !== 'number')) {
+        throw new Error("Replay inputs are malformed");
+    }
+
+    return {
+        version: REPLAY_VERSION,
+        simVersion: SIM_VERSION,
+        seed: data.seed >>> 0,
+        bossId: data.bossId,
+        chapterId,
+        // Fill in tuning values added after the replay was recorded
+        params: { ...DEFAULT_DEBUG_PARAMS, ...parseParams(data.params) },
+        // Changes to params this build doesn't have, or with the wrong type, are dropped
+        paramChanges: Array.isArray(data.paramChanges) ? data.paramChanges.filter(isParamChange) : [],
+        actions: Array.isArray(data.actions) ? data.actions.filter(isReplayAction) : [],
+        inputs: data.inputs,
+        outcome: data.outcome === GameState.VICTORY || data.outcome === GameState.GAME_OVER ? data.outcome : null,
+        recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : ''
+    };
+};
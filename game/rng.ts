@@ -0,0 +1,36 @@
+import { RngState } from '../types';
+
+// Seedable PRNG (mulberry32). State is a plain number per stream so the whole
+// WorldState stays serializable and a seed + input sequence replays exactly.
+//
+// - gameplay: anything that can change the outcome of a fight (AI rolls)
+// - cosmetic: particles, screen shake and other presentation-only noise
+// Keeping them apart means adding a particle effect never shifts the boss AI.
+export type RngStream = 'gameplay' | 'cosmetic';
+
+// Derives an independent starting state per stream from the session seed
+const mixSeed = (seed: number, salt: number): number => {
+    let h = (seed ^ salt) >>> 0;
+    h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+    h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+    return (h ^ (h >>> 16)) >>> 0;
+};
+
+export const createRng = (seed: number): RngState => ({
+    seed: seed >>> 0,
+    gameplay: mixSeed(seed, 0x9e3779b9),
+    cosmetic: mixSeed(seed, 0x7f4a7c15)
+});
+
+// Returns a float in [0, 1) and advances the given stream
+export const nextRandom = (rng: RngState, stream: RngStream): number => {
+    const state = (rng[stream] + 0x6d2b79f5) >>> 0;
+    rng[stream] = state;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Fresh seed for a new session (the only place wall-clock randomness is allowed)
+export const randomSeed = (): number => (Math.random() * 0x100000000) >>> 0;
@@ -0,0 +1,38 @@
+import { Entity, ScheduledTimer, TimerAction, WorldState } from '../types';
+import { DODGE_PERFECT_TIME_SCALE } from './constants';
+
+// Frame-counted scheduler for delayed state changes. Timers only advance when
+// the simulation steps, so pause, slow motion and replay speed all stay in sync,
+// and they live on the WorldState so a restart discards them with the world.
+
+export const scheduleTimer = (
+    world: WorldState,
+    frames: number,
+    action: TimerAction,
+    owner: ScheduledTimer['owner'] = null
+) => {
+    world.timers.push({ remaining: frames, owner, action });
+};
+
+// Bullet time lets an entity advance only one tick in every DODGE_PERFECT_TIME_SCALE
+export const isTimeSlowed = (entity: Entity) =>
+    !!entity.bulletTime && entity.bulletTime % DODGE_PERFECT_TIME_SCALE !== 0;
+
+// An owner in hitStop, Immobilize or a slowed tick is frozen in time, and so are its timers
+const isFrozen = (entity: Entity | null) =>
+    !!entity && (entity.hitStop > 0 || !!entity.isImmobilized || isTimeSlowed(entity));
+
+// Counts every live timer down by one frame and returns the actions now due, in schedule order
+export const tickTimers = (world: WorldState): TimerAction[] => {
+    const due: TimerAction[] = [];
+    world.timers = world.timers.filter(timer => {
+        const owner = timer.owner === 'player' ? world.player : timer.owner === 'boss' ? world.boss : null;
+        if (isFrozen(owner)) return true;
+
+        timer.remaining--;
+        if (timer.remaining > 0) return true;
+        due.push(timer.action);
+        return false;
+    });
+    return due;
+};
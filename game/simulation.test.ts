@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { CHARGE_THRESHOLD, HEAVY_STAMINA_COST, IMMOBILIZE_BREAK_THRESHOLD } from './constants';
+import { DEFAULT_DEBUG_PARAMS } from './debugParams';
+import { EMPTY_INPUT, decodeInput } from './input';
+import { createWorld, stepWorld } from './simulation';
+import { mashInputs } from './testInputs';
+
+const runFight = (seed: number, inputs: number[]) => {
+    const world = createWorld(seed);
+    for (const bits of inputs) stepWorld(world, decodeInput(bits), DEFAULT_DEBUG_PARAMS);
+    return world;
+};
+
+describe('stepWorld', () => {
+    it('is fed every button by the mashed inputs', () => {
+        const pressed = mashInputs(99, 3000).reduce((all, bits) => all | bits, 0);
+        expect(decodeInput(pressed)).toEqual(Object.fromEntries(Object.keys(EMPTY_INPUT).map(key => [key, true])));
+    });
+
+    it('reproduces a fight exactly from the same seed and inputs', () => {
+        const inputs = mashInputs(99, 3000);
+        const first = runFight(7, inputs);
+        const second = runFight(7, inputs);
+
+        expect(first.tick).toBe(3000);
+        expect(JSON.stringify(second)).toBe(JSON.stringify(first));
+    });
+
+    it('plays out differently from another seed', () => {
+        const inputs = mashInputs(99, 3000);
+        expect(JSON.stringify(runFight(8, inputs))).not.toBe(JSON.stringify(runFight(7, inputs)));
+    });
+});
+
+describe('heavy attack', () => {
+    // A lone player, so nothing interrupts the charge
+    const chargeHeavy = (stamina: number) => {
+        const world = createWorld(1);
+        world.boss = null;
+        world.enemies = [];
+        world.player.stamina = stamina;
+        world.player.staminaRegenDelay = 100; // Hold the bar where the test put it
+        for (let tick = 0; tick <= CHARGE_THRESHOLD + 5; tick++) stepWorld(world, { ...EMPTY_INPUT, attack: true }, DEFAULT_DEBUG_PARAMS);
+        stepWorld(world, EMPTY_INPUT, DEFAULT_DEBUG_PARAMS);
+        return world.player;
+    };
+
+    it('costs its own stamina instead of the whole bar', () => {
+        const player = chargeHeavy(100);
+        expect(player.state).toBe('heavy_attack');
+        expect(player.stamina).toBe(100 - HEAVY_STAMINA_COST);
+        expect(player.isExhausted).toBe(false);
+    });
+
+    it('falls back to a light swing when the stamina is short', () => {
+        const player = chargeHeavy(HEAVY_STAMINA_COST - 1);
+        expect(player.state).toBe('attack');
+        expect(player.comboCount).toBe(1);
+    });
+});
+
+describe('boss phases', () => {
+    it('let a stagger play out before the phase roar', () => {
+        const world = createWorld(1);
+        const boss = world.boss!;
+        boss.health = boss.maxHealth * 0.4;
+        boss.state = 'stagger';
+        boss.staggerTimer = 10;
+        boss.poise = 100;
+
+        const states: string[] = [];
+        for (let tick = 0; tick < 12; tick++) {
+            stepWorld(world, EMPTY_INPUT, DEFAULT_DEBUG_PARAMS);
+            states.push(boss.state);
+        }
+
+        expect(states.slice(0, 9)).toEqual(Array(9).fill('stagger'));
+        expect(states).toContain('roar');
+        expect(boss.phaseIndex).toBe(1);
+        expect(boss.poise).toBe(0);
+    });
+});
+
+describe('transformations', () => {
+    it('report the gauge only when the shown percent moves', () => {
+        const world = createWorld(1);
+        world.boss = null;
+        world.enemies = [];
+        world.player.transformId = 'red_tides';
+        world.player.transformGauge = 600;
+
+        let updates = 0;
+        for (let tick = 0; tick < 60; tick++) {
+            updates += stepWorld(world, EMPTY_INPUT, DEFAULT_DEBUG_PARAMS).events.filter(event => event.type === 'transform').length;
+        }
+
+        expect(world.player.transformGauge).toBe(540);
+        expect(updates).toBe(10);
+    });
+});
+
+describe('hits on opponents', () => {
+    it('break Immobilize the same way whatever lands them', () => {
+        const world = createWorld(1);
+        const boss = world.boss!;
+        Object.assign(boss, { isImmobilized: true, immobilizeTimer: 100, immobilizeDamageTaken: IMMOBILIZE_BREAK_THRESHOLD });
+        world.spellZones.push({ spellId: 'ring_of_fire', x: boss.pos.x + boss.width / 2, life: 10, pulseTimer: 0 });
+        world.player.mana = 0;
+
+        stepWorld(world, EMPTY_INPUT, DEFAULT_DEBUG_PARAMS);
+
+        expect(boss).toMatchObject({ isImmobilized: false, immobilizeTimer: 0, immobilizeDamageTaken: 0 });
+        expect(boss.health).toBeLessThan(boss.maxHealth);
+        expect(world.player.mana).toBeLessThan(DEFAULT_DEBUG_PARAMS.manaPerHit); // Spell damage doesn't refill mana
+    });
+});
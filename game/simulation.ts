@@ -0,0 +1,2853 @@
+import { ActiveTelegraph, GameState, BossDefinition, BossMoveDefinition, BossMoveKind, BossMovement, ArenaSection, EnemyAttackDefinition, EnemyDefinition, Entity, FrameBox, InputFrame, Particle, Projectile, ProjectileDefinition, SimEvent, SoundType, SpellDefinition, StaffStance, TransformationDefinition, TransformMoveDefinition, WorldState } from '../types';
+import {
+    GRAVITY, FRICTION, MOVE_SPEED, MAX_SPEED, JUMP_FORCE, GROUND_Y, ARENA_WIDTH,
+    DODGE_SPEED, DODGE_COOLDOWN, DODGE_STAMINA_COST,
+    DODGE_PERFECT_WINDOW, DODGE_PERFECT_BULLET_TIME, DODGE_PERFECT_STAMINA_REFUND,
+    PLAYER_MAX_STAMINA, STAMINA_REGEN_RATE, STAMINA_REGEN_DELAY, STAMINA_EXHAUSTED_REGEN_RATE, STAMINA_EXHAUSTED_RECOVERY,
+    PLAYER_MAX_MANA, SPELL_FAIL_COOLDOWN,
+    ATTACK_STAMINA_COST, FINISHER_STAMINA_COST, HEAVY_STAMINA_COST, TECH_STAMINA_COST, STAFF_THROW_STAMINA_COST, SPRINT_STAMINA_COST, SPRINT_MAX_SPEED,
+    GOURD_CHARGES, GOURD_DRINK_TIME, GOURD_HEAL_START, GOURD_HEAL_TICKS, GOURD_HEAL_AMOUNT,
+    CHARGE_THRESHOLD, COMBO_WINDOW_FRAMES, FOCUS_MAX_PIPS, FOCUS_PIP_CHARGE_TIME,
+    STANCE_SWITCH_COOLDOWN, PILLAR_CLIMB_TIME, PILLAR_DROP_SPEED, LOCK_ON_RANGE, LOCK_ON_COOLDOWN,
+    SECTION_INTERLUDE, WILL_ORB_VALUE, WILL_DROP_LIFE, WILL_MAGNET_RADIUS, WILL_PICKUP_RADIUS,
+    IMMOBILIZE_BREAK_THRESHOLD, SETSUGEKKA_CHARGE_TIME,
+    LOGICAL_WIDTH, FIXED_TIME_STEP
+} from './constants';
+import { easeOutQuad, getCombo4AngleFromT } from './math';
+import { DebugParams } from './debugParams';
+import { createRng, nextRandom } from './rng';
+import { isTimeSlowed, scheduleTimer, tickTimers } from './scheduler';
+import { decideBossAction, getRepeatCooldown } from './bosses/ai';
+import { DEFAULT_SPELL_LOADOUT, DEFAULT_TRANSFORM_SPELL, SPELL_SLOT_COUNT, getSpellCooldown, getSpellDefinition, getSpellManaCost, getSpellSlots } from './spells';
+import {
+    DEFAULT_BOSS_ID, createBossFromDefinition, getBossDefinition, getBossMove, getMovePhase,
+    getBossPhase, getPendingPhase, getPhaseMoves, getPhaseSpeed, getPhaseMovement, getPhasePalette, getPhaseBarColor
+} from './bosses';
+import { getTransformation, getTransformMove } from './transformations';
+import { createEnemyFromDefinition, getEnemyDefinition } from './enemies';
+import { getChapterDefinition } from './chapters';
+import { STAFF_THROW_PROJECTILE, getProjectileDefinition } from './projectiles';
+import { centreReachColumn, columnBox, findContact, getBossHitboxes, getCombo3Frames, getEnemyHitboxes, getHurtboxes, getPlayerHitboxes, getProjectileBox, getTransformHitboxes } from './hitboxes';
+
+// Headless combat simulation: advances a WorldState by one fixed tick from an InputFrame.
+// Nothing in here touches React, the canvas or the audio context - side effects are
+// reported back as SimEvents for the driver (GameCanvas, tests, tools) to act on.
+
+// Bump whenever stepWorld's behaviour changes: replays only play back on the version they were recorded with
+export const SIM_VERSION = 5;
+
+export interface StepResult {
+  world: WorldState;
+  events: SimEvent[];
+}
+
+// Per-tick context shared by the update phases
+interface SimContext {
+  world: WorldState;
+  input: InputFrame;
+  params: DebugParams;
+  events: SimEvent[];
+}
+
+// --- Initialization ---
+export const createPlayer = (): Entity => ({
+    id: 'player',
+    pos: { x: 100, y: 200 },
+    width: 30,
+    height: 50,
+    vx: 0,
+    vy: 0,
+    color: '#fbbf24', 
+    health: 100,
+    maxHealth: 100,
+    isDead: false,
+    facingRight: true,
+    type: 'player',
+    state: 'idle',
+    attackCooldown: 0,
+    dodgeCooldown: 0,
+    chargeTimer: 0,
+    comboCount: 0,
+    comboWindow: 0,
+    animFrame: 0,
+    animTimer: 0,
+    hasHitInAir: false,
+    hasDealtDamage: false,
+    hitStop: 0,
+    flashTimer: 0,
+    spellLoadout: [...DEFAULT_SPELL_LOADOUT],
+    spellCooldowns: {},
+    rockSolidTimer: 0,
+    mana: PLAYER_MAX_MANA,
+    maxMana: PLAYER_MAX_MANA,
+    stance: 'smash',
+    stanceCooldown: 0,
+    pillarTimer: 0,
+    lockTargetId: null,
+    lockOnCooldown: 0,
+    throwCooldown: 0,
+    transformSpell: DEFAULT_TRANSFORM_SPELL,
+    transformId: null,
+    transformGauge: 0,
+    techCooldown: 0,
+    sheatheTimer: 0,
+    stamina: PLAYER_MAX_STAMINA,
+    maxStamina: PLAYER_MAX_STAMINA,
+    staminaRegenDelay: 0,
+    isExhausted: false,
+    isSprinting: false,
+    gourdCharges: GOURD_CHARGES,
+    maxGourdCharges: GOURD_CHARGES,
+    drinkTimer: 0,
+    focus: 0,
+    focusSpent: 0
+});
+
+export const createBoss = (bossId: string = DEFAULT_BOSS_ID): Entity =>
+    createBossFromDefinition(getBossDefinition(bossId));
+
+export const createWorld = (seed: number, bossId: string = DEFAULT_BOSS_ID, chapterId: string | null = null): WorldState => {
+    // A chapter with sections holds the boss back until they are cleared
+    const chapter = getChapterDefinition(chapterId);
+    const boss = chapter && chapter.sections.length > 0 ? null : createBoss(bossId);
+    return {
+        tick: 0,
+        rng: createRng(seed),
+        player: createPlayer(),
+        boss,
+        enemies: boss ? [boss] : [],
+        bossId,
+        chapterId: chapter ? chapter.id : null,
+        sectionIndex: 0,
+        sectionTimer: 0,
+        drops: [],
+        will: 0,
+        projectiles: [],
+        particles: [],
+        afterimages: [],
+        spellZones: [],
+        decoy: null,
+        combo4Trails: [],
+        prevCombo4Time: null,
+        c3Hits: 0,
+        setsuMoonSnapshot: null,
+        cameraX: 0,
+        shake: 0,
+        shakeOffset: { x: 0, y: 0 },
+        score: 0,
+        timers: [],
+        outcome: null
+    };
+};
+
+// Debug panel "Reset All Health"; recorded in replays so playback stays in sync
+export const resetHealth = (world: WorldState) => {
+    world.player.health = world.player.maxHealth;
+    if (world.boss) world.boss.health = world.boss.maxHealth;
+};
+
+// --- Helpers ---
+const gameplayRandom = (world: WorldState) => nextRandom(world.rng, 'gameplay');
+const cosmeticRandom = (world: WorldState) => nextRandom(world.rng, 'cosmetic');
+
+const playSound = (sim: SimContext, sound: SoundType) => {
+    sim.events.push({ type: 'sound', sound });
+};
+
+const addScore = (sim: SimContext, amount: number) => {
+    sim.world.score += amount;
+    sim.events.push({ type: 'score', amount, total: sim.world.score });
+};
+
+const setOutcome = (sim: SimContext, outcome: GameState.VICTORY | GameState.GAME_OVER) => {
+    sim.world.outcome = outcome;
+    sim.events.push({ type: 'state', state: outcome });
+};
+
+export const createParticles = (world: WorldState, x: number, y: number, color: string, count: number, speed: number = 10) => {
+    for (let i = 0; i < count; i++) {
+      world.particles.push({
+        x, y,
+        vx: (cosmeticRandom(world) - 0.5) * speed,
+        vy: (cosmeticRandom(world) - 0.5) * speed,
+        life: 1.0,
+        color,
+        size: cosmeticRandom(world) * 3 + 2
+      });
+    }
+};
+
+// --- Collision Resolution ---
+const resolveEntityCollision = (e1: Entity, e2: Entity) => {
+    if (e1.state === 'dodge' || e2.state === 'dodge') return;
+    
+    const p1Frozen = e1.hitStop > 0 && !e1.isImmobilized;
+    const p2Frozen = e2.hitStop > 0 && !e2.isImmobilized;
+    if (p1Frozen || p2Frozen) return;
+
+    if (
+        e1.pos.x < e2.pos.x + e2.width &&
+        e1.pos.x + e1.width > e2.pos.x &&
+        e1.pos.y < e2.pos.y + e2.height &&
+        e1.pos.y + e1.height > e2.pos.y
+    ) {
+        const center1 = e1.pos.x + e1.width / 2;
+        const center2 = e2.pos.x + e2.width / 2;
+        const pushForce = 2; 
+
+        if (center1 < center2) {
+            e1.pos.x -= pushForce;
+            if (e2.type === 'boss') {
+                if (!e2.isImmobilized && e2.state !== 'kowtow_attack') e2.vx = 0;
+            } else {
+                e2.pos.x += pushForce;
+            }
+            if (e1.vx > 0) e1.vx = 0;
+        } else {
+            e1.pos.x += pushForce;
+            if (e2.type === 'boss') {
+                if (!e2.isImmobilized && e2.state !== 'kowtow_attack') e2.vx = 0;
+            } else {
+                e2.pos.x -= pushForce;
+            }
+            if (e1.vx < 0) e1.vx = 0;
+        }
+    }
+};
+
+// --- 0. Scheduled Actions ---
+const runTimers = (world: WorldState) => {
+    for (const action of tickTimers(world)) {
+        switch (action.type) {
+            case 'end_state': {
+                const target = action.target === 'player' ? world.player : world.boss;
+                if (target && target.state === action.from) target.state = action.to;
+                break;
+            }
+        }
+    }
+};
+
+// --- Targets & Lock-On ---
+const LOCK_FACING_STATES: Entity['state'][] = ['idle', 'run', 'jump', 'fall', 'sheathe_charge'];
+
+const isTargetable = (enemy: Entity) => !enemy.isDead && !enemy.isInvulnerable;
+const damageTarget = (enemy: Entity): 'boss' | 'enemy' => enemy.type === 'boss' ? 'boss' : 'enemy';
+const horizontalDistance = (a: Entity, b: Entity) => Math.abs((a.pos.x + a.width/2) - (b.pos.x + b.width/2));
+
+export const getLockTarget = (world: WorldState): Entity | null => {
+    const id = world.player.lockTargetId;
+    return id ? world.enemies.find(e => e.id === id && !e.isDead) || null : null;
+};
+
+// Opponents the player's attacks can connect with, the locked-on one first
+const getTargets = (world: WorldState): Entity[] => {
+    const lock = getLockTarget(world);
+    const targets = world.enemies.filter(isTargetable);
+    return lock ? targets.sort((a, b) => Number(b === lock) - Number(a === lock)) : targets;
+};
+
+const faceTarget = (player: Entity, target: Entity) => {
+    const dx = (target.pos.x + target.width/2) - (player.pos.x + player.width/2);
+    if (dx !== 0) player.facingRight = dx > 0;
+};
+
+// Steps through the opponents in reach, nearest first; stepping past the last one releases the lock
+const cycleLockOn = (sim: SimContext, player: Entity) => {
+    const candidates = sim.world.enemies
+        .filter(e => !e.isDead && horizontalDistance(player, e) <= LOCK_ON_RANGE)
+        .sort((a, b) => horizontalDistance(player, a) - horizontalDistance(player, b));
+    const next = candidates[candidates.findIndex(e => e.id === player.lockTargetId) + 1];
+    player.lockTargetId = next ? next.id : null;
+    player.lockOnCooldown = LOCK_ON_COOLDOWN;
+    if (next) playSound(sim, 'lock_on');
+};
+
+const updateLockOn = (sim: SimContext, player: Entity) => {
+    if (player.lockOnCooldown && player.lockOnCooldown > 0) player.lockOnCooldown--;
+
+    const target = getLockTarget(sim.world);
+    if (player.lockTargetId && (!target || horizontalDistance(player, target) > LOCK_ON_RANGE)) {
+        player.lockTargetId = null;
+    }
+    if (sim.input.lockOn && !player.lockOnCooldown) cycleLockOn(sim, player);
+};
+
+// --- Poise ---
+const emitPoise = (sim: SimContext, boss: Entity) => {
+    const max = getBossDefinition(boss.defId).poise.max;
+    sim.events.push({ type: 'poise', poise: boss.poise || 0, max, staggered: boss.state === 'stagger' });
+};
+
+// Broken poise: the boss drops whatever it was doing and reels for a long window
+const startStagger = (sim: SimContext, boss: Entity) => {
+    const { world } = sim;
+    boss.state = 'stagger';
+    boss.staggerTimer = getBossDefinition(boss.defId).poise.staggerDuration;
+    boss.isImmobilized = false;
+    boss.immobilizeTimer = 0;
+    boss.moveId = undefined;
+    boss.vx = 0;
+    boss.animFrame = 0;
+    boss.animTimer = 0;
+
+    playSound(sim, 'poise_break');
+    world.shake = 20;
+    createParticles(world, boss.pos.x + boss.width / 2, boss.pos.y + boss.height / 3, '#fde68a', 25, 12);
+};
+
+// Only bosses have poise; minor enemies just flinch
+const applyPoiseDamage = (sim: SimContext, boss: Entity, amount: number) => {
+    if (boss.type !== 'boss' || amount <= 0 || boss.state === 'stagger' || boss.isInvulnerable) return;
+    const config = getBossDefinition(boss.defId).poise;
+    boss.poise = Math.min(config.max, (boss.poise || 0) + amount);
+    boss.poiseRecoveryDelay = config.recoveryDelay;
+    if (boss.poise >= config.max) startStagger(sim, boss);
+    emitPoise(sim, boss);
+};
+
+// Staggered bosses take extra damage from everything; shield bearers soak hits from the front
+const scaleDamageTaken = (world: WorldState, target: Entity, damage: number) => {
+    if (target.type === 'boss') {
+        return target.state === 'stagger' ? damage * getBossDefinition(target.defId).poise.staggerDamageMultiplier : damage;
+    }
+    const guard = getEnemyDefinition(target.defId)?.guardMultiplier;
+    const fromFront = target.facingRight === (world.player.pos.x + world.player.width/2 > target.pos.x + target.width/2);
+    return guard !== undefined && fromFront && target.state !== 'attack' ? damage * guard : damage;
+};
+
+// --- Hits on Opponents ---
+// What Immobilize made of a hit: the binding soaked it, broke under it, or wasn't there
+type HitOutcome = 'hit' | 'held' | 'freed';
+
+// Every player hit on an opponent goes through here, so health, Immobilize, poise, mana and
+// score follow the same rules for every attack. Knockback only moves a target the binding no
+// longer holds (null leaves its momentum alone); spells don't refill the mana they run on
+const applyHitToEnemy = (sim: SimContext, target: Entity, damage: number, poise: number, knockback: number | null, source: 'strike' | 'spell' = 'strike'): { damage: number; outcome: HitOutcome } => {
+    const { world, params } = sim;
+    const dealt = scaleDamageTaken(world, target, damage);
+    if (params.infiniteHealth && target.health - dealt <= 0) {
+        target.health = target.maxHealth;
+    } else {
+        target.health -= dealt;
+    }
+
+    let outcome: HitOutcome = 'hit';
+    if (target.isImmobilized) {
+        outcome = 'held';
+        target.immobilizeDamageTaken = (target.immobilizeDamageTaken || 0) + dealt;
+        if (target.immobilizeDamageTaken > IMMOBILIZE_BREAK_THRESHOLD) {
+            target.isImmobilized = false;
+            target.immobilizeDamageTaken = 0;
+            target.immobilizeTimer = 0;
+            playSound(sim, 'break_spell');
+            outcome = 'freed';
+        }
+    }
+    if (knockback !== null && outcome !== 'held') target.vx = knockback;
+
+    sim.events.push({ type: 'damage', target: damageTarget(target), amount: dealt, health: target.health });
+    applyPoiseDamage(sim, target, poise);
+    breakCloudStep(world);
+    if (source === 'strike') gainMana(sim, params.manaPerHit);
+    addScore(sim, Math.floor(dealt));
+    return { damage: dealt, outcome };
+};
+
+// --- Stamina ---
+const emitStamina = (sim: SimContext, player: Entity) => {
+    sim.events.push({ type: 'stamina', stamina: player.stamina || 0, max: player.maxStamina || PLAYER_MAX_STAMINA, exhausted: !!player.isExhausted });
+};
+
+// Actions need their full cost up front
+const hasStamina = (player: Entity, cost: number): boolean => (player.stamina || 0) >= cost;
+
+const spendStamina = (sim: SimContext, player: Entity, cost: number) => {
+    player.stamina = Math.max(0, (player.stamina || 0) - cost);
+    player.staminaRegenDelay = STAMINA_REGEN_DELAY;
+    if (player.stamina <= 0) player.isExhausted = true;
+    emitStamina(sim, player);
+};
+
+const restoreStamina = (sim: SimContext, player: Entity, amount: number) => {
+    const max = player.maxStamina || PLAYER_MAX_STAMINA;
+    player.stamina = Math.min(max, (player.stamina || 0) + amount);
+    if (player.isExhausted && player.stamina >= STAMINA_EXHAUSTED_RECOVERY) player.isExhausted = false;
+    emitStamina(sim, player);
+};
+
+const updateStaminaRegen = (sim: SimContext, player: Entity) => {
+    if (player.staminaRegenDelay && player.staminaRegenDelay > 0) {
+        player.staminaRegenDelay--;
+        return;
+    }
+    if ((player.stamina || 0) >= (player.maxStamina || PLAYER_MAX_STAMINA)) return;
+    restoreStamina(sim, player, player.isExhausted ? STAMINA_EXHAUSTED_REGEN_RATE : STAMINA_REGEN_RATE);
+};
+
+// --- Spells ---
+const emitSpells = (sim: SimContext, player: Entity) => {
+    sim.events.push({ type: 'spells', slots: getSpellSlots(player) });
+};
+
+const emitMana = (sim: SimContext, player: Entity) => {
+    sim.events.push({ type: 'mana', mana: player.mana || 0, max: player.maxMana || PLAYER_MAX_MANA });
+};
+
+const gainMana = (sim: SimContext, amount: number) => {
+    const player = sim.world.player;
+    const before = player.mana || 0;
+    player.mana = Math.min(player.maxMana || PLAYER_MAX_MANA, before + amount);
+    if (player.mana !== before) emitMana(sim, player);
+};
+
+const tickSpellCooldowns = (sim: SimContext, player: Entity) => {
+    const cooldowns = player.spellCooldowns || {};
+    let changed = false;
+    for (const id of Object.keys(cooldowns)) {
+        if (cooldowns[id] > 0) {
+            cooldowns[id]--;
+            changed = true;
+        }
+    }
+    if (changed) emitSpells(sim, player);
+};
+
+// Each cast returns false when it had nothing to act on, so no cooldown is spent
+const castImmobilize = (sim: SimContext, spell: SpellDefinition): boolean => {
+    const { world } = sim;
+    const player = world.player;
+    // The locked-on target gets first claim on the binding
+    const target = getTargets(world).find(e => {
+        const dist = e.pos.x - player.pos.x;
+        const facingTarget = (player.facingRight && dist > 0) || (!player.facingRight && dist < 0);
+        return facingTarget && Math.abs(dist) < (spell.range || 0);
+    });
+    if (!target) return false;
+
+    target.isImmobilized = true;
+    target.immobilizeTimer = spell.duration; 
+    target.immobilizeDamageTaken = 0; 
+    playSound(sim, 'spell');
+    
+    const pCx = player.pos.x + player.width/2;
+    const pCy = player.pos.y + player.height/2;
+    const bCx = target.pos.x + target.width/2;
+    const bCy = target.pos.y + target.height/2;
+    const cX = (pCx + bCx) / 2;
+    const cY = (pCy + bCy) / 2 - 40; 
+    
+    const particleCount = 24;
+    for(let i=0; i<=particleCount; i++) {
+        const t = i / particleCount;
+        const invT = 1 - t;
+        const lx = (invT * invT * pCx) + (2 * invT * t * cX) + (t * t * bCx);
+        const ly = (invT * invT * pCy) + (2 * invT * t * cY) + (t * t * bCy);
+        
+        const scatter = 8; 
+        const offsetX = (cosmeticRandom(world) - 0.5) * scatter;
+        const offsetY = (cosmeticRandom(world) - 0.5) * scatter;
+
+        world.particles.push({
+            x: lx + offsetX,
+            y: ly + offsetY,
+            vx: (cosmeticRandom(world) - 0.5) * 0.2, 
+            vy: -cosmeticRandom(world) * 0.5, 
+            life: 0.4 + cosmeticRandom(world) * 0.3, 
+            color: cosmeticRandom(world) > 0.5 ? spell.color : '#fef3c7', 
+            size: cosmeticRandom(world) * 2 + 0.5 
+        });
+    }
+    createParticles(world, target.pos.x + target.width/2, target.pos.y + target.height/2, spell.color, 30, 4);
+    return true;
+};
+
+const castCloudStep = (sim: SimContext, spell: SpellDefinition): boolean => {
+    const { world } = sim;
+    const player = world.player;
+    world.decoy = { pos: { ...player.pos }, facingRight: player.facingRight, life: spell.duration };
+    playSound(sim, 'cloud_step');
+    createParticles(world, player.pos.x + player.width/2, player.pos.y + player.height/2, spell.color, 20, 5);
+    return true;
+};
+
+const castRingOfFire = (sim: SimContext, spell: SpellDefinition): boolean => {
+    const { world } = sim;
+    const player = world.player;
+    const x = player.pos.x + player.width/2;
+    world.spellZones.push({ spellId: spell.id, x, life: spell.duration, pulseTimer: 0 });
+    playSound(sim, 'fire_ring');
+    createParticles(world, x, GROUND_Y - 10, spell.color, 30, 8);
+    return true;
+};
+
+const castRockSolid = (sim: SimContext, spell: SpellDefinition): boolean => {
+    const player = sim.world.player;
+    if (!PARRY_READY_STATES.includes(player.state)) return false;
+    player.state = 'rock_solid';
+    player.rockSolidTimer = spell.duration;
+    player.animFrame = 0;
+    player.animTimer = 0;
+    player.chargeTimer = 0;
+    playSound(sim, 'block');
+    return true;
+};
+
+const tryCastSpell = (sim: SimContext, spellId: string) => {
+    const player = sim.world.player;
+    const spell = getSpellDefinition(spellId);
+    if (!spell || getSpellCooldown(player, spellId) > 0) return;
+    if (player.state === 'hit' || player.state === 'drink') return;
+
+    // Not enough mana: fizzle, and lock the slot briefly so a held key doesn't spam the feedback
+    const cost = getSpellManaCost(spell, sim.params);
+    if ((player.mana || 0) < cost) {
+        player.spellCooldowns = { ...player.spellCooldowns, [spellId]: SPELL_FAIL_COOLDOWN };
+        sim.events.push({ type: 'spell_failed', spellId });
+        playSound(sim, 'spell_fail');
+        createParticles(sim.world, player.pos.x + player.width/2, player.pos.y + player.height/3, '#64748b', 6, 2);
+        emitSpells(sim, player);
+        return;
+    }
+
+    let cast = false;
+    switch (spell.kind) {
+        case 'immobilize': cast = castImmobilize(sim, spell); break;
+        case 'cloud_step': cast = castCloudStep(sim, spell); break;
+        case 'ring_of_fire': cast = castRingOfFire(sim, spell); break;
+        case 'rock_solid': cast = castRockSolid(sim, spell); break;
+        case 'transform': cast = castTransformation(sim, spell); break;
+    }
+    if (!cast) return;
+
+    player.mana = (player.mana || 0) - cost;
+    emitMana(sim, player);
+    player.spellCooldowns = { ...player.spellCooldowns, [spellId]: spell.cooldown };
+    emitSpells(sim, player);
+};
+
+// Landing a hit gives away the player's position
+const breakCloudStep = (world: WorldState) => {
+    if (!world.decoy) return;
+    createParticles(world, world.decoy.pos.x + world.player.width/2, world.decoy.pos.y + world.player.height/2, '#e0f2fe', 12, 4);
+    world.decoy = null;
+};
+
+// Lingering spell effects: the Cloud Step decoy and burning zones
+const updateSpellEffects = (sim: SimContext) => {
+    const { world, params } = sim;
+
+    if (world.decoy) {
+        world.decoy.life--;
+        if (world.decoy.life <= 0) breakCloudStep(world);
+    }
+
+    for (let i = world.spellZones.length - 1; i >= 0; i--) {
+        const zone = world.spellZones[i];
+        const spell = getSpellDefinition(zone.spellId);
+        zone.life--;
+        if (!spell || zone.life <= 0) {
+            world.spellZones.splice(i, 1);
+            continue;
+        }
+        if (world.tick % 3 === 0) {
+            const fx = zone.x + (cosmeticRandom(world) - 0.5) * 2 * (spell.radius || 0);
+            createParticles(world, fx, GROUND_Y - 4, spell.color, 1, 2);
+        }
+
+        if (zone.pulseTimer > 0) {
+            zone.pulseTimer--;
+            continue;
+        }
+        for (const target of getTargets(world)) {
+            if (Math.abs(target.pos.x + target.width/2 - zone.x) > (spell.radius || 0) + target.width/2) continue;
+
+            zone.pulseTimer = spell.interval || 0;
+            applyHitToEnemy(sim, target, spell.damage || 0, 0, null, 'spell');
+            if (!target.isImmobilized) target.flashTimer = 3;
+            createParticles(world, target.pos.x + target.width/2, target.pos.y + target.height * 0.8, spell.color, 6, 4);
+        }
+    }
+};
+
+// --- Healing Gourd ---
+const startDrink = (sim: SimContext, player: Entity) => {
+    player.state = 'drink';
+    player.drinkTimer = 0;
+    player.animFrame = 0;
+    player.animTimer = 0;
+    player.chargeTimer = 0;
+    player.gourdCharges = (player.gourdCharges || 0) - 1; // Spent up front, even if the drink is interrupted
+    sim.events.push({ type: 'gourd', charges: player.gourdCharges, max: player.maxGourdCharges || GOURD_CHARGES });
+    playSound(sim, 'drink');
+};
+
+// Heals in small steps mid-drink; getting hit swaps the state out and cancels the rest
+const updateDrink = (sim: SimContext, player: Entity) => {
+    const { world } = sim;
+    const t = player.drinkTimer || 0;
+    if (t >= GOURD_HEAL_START && t < GOURD_HEAL_START + GOURD_HEAL_TICKS && player.health < player.maxHealth) {
+        player.health = Math.min(player.maxHealth, player.health + GOURD_HEAL_AMOUNT / GOURD_HEAL_TICKS);
+        sim.events.push({ type: 'health', target: 'player', health: player.health });
+        if (t % 4 === 0) createParticles(world, player.pos.x + player.width/2, player.pos.y + player.height/2, '#4ade80', 3, 2);
+    }
+    if (t >= GOURD_DRINK_TIME) {
+        player.state = 'idle';
+        player.animFrame = 0;
+    }
+};
+
+// --- Focus ---
+const gainFocus = (sim: SimContext, amount: number) => {
+    const player = sim.world.player;
+    const before = player.focus || 0;
+    player.focus = Math.min(FOCUS_MAX_PIPS, before + amount);
+    if (player.focus !== before) sim.events.push({ type: 'focus', focus: player.focus });
+};
+
+// Pips a charging heavy attack has soaked up so far: one per FOCUS_PIP_CHARGE_TIME past the threshold
+const getChargedPips = (player: Entity): number => {
+    const overcharge = player.chargeTimer - CHARGE_THRESHOLD;
+    if (overcharge <= 0) return 0;
+    return Math.min(Math.floor(player.focus || 0), Math.floor(overcharge / FOCUS_PIP_CHARGE_TIME));
+};
+
+
+// --- Staff Stances ---
+const STAFF_STANCES: StaffStance[] = ['smash', 'pillar', 'thrust'];
+
+const switchStance = (sim: SimContext, player: Entity) => {
+    const index = STAFF_STANCES.indexOf(player.stance || 'smash');
+    player.stance = STAFF_STANCES[(index + 1) % STAFF_STANCES.length];
+    player.stanceCooldown = STANCE_SWITCH_COOLDOWN;
+    playSound(sim, 'stance');
+    createParticles(sim.world, player.pos.x + player.width/2, player.pos.y + player.height/2, '#fbbf24', 8, 3);
+    sim.events.push({ type: 'stance', stance: player.stance });
+};
+
+// Launch for the light combo finisher: Smash slides, Pillar vaults up, Thrust lunges
+const startFinisherMotion = (player: Entity, params: DebugParams) => {
+    const dir = player.facingRight ? 1 : -1;
+    if (player.stance === 'pillar') {
+        player.vy = -6;
+        player.vx = dir * 2;
+    } else if (player.stance === 'thrust') {
+        player.vy = -2;
+        player.vx = dir * params.thrustLunge;
+    } else {
+        player.vy = -5;
+        player.vx = dir * params.c4SlideSpeed;
+    }
+};
+
+// Where a Pillar heavy is on the staff (shared with the renderer)
+export const getPillarPhase = (player: Entity, params: DebugParams): 'climb' | 'hold' | 'drop' => {
+    const t = player.pillarTimer || 0;
+    if (t < PILLAR_CLIMB_TIME) return 'climb';
+    if (t < PILLAR_CLIMB_TIME + params.pillarHold) return 'hold';
+    return 'drop';
+};
+
+// The drop off the staff lands with a shockwave around the player
+const resolvePillarSlam = (sim: SimContext, player: Entity) => {
+    const { world, params } = sim;
+    player.state = 'plunge_end';
+    player.animFrame = 0;
+    player.pillarTimer = 0;
+    world.shake = params.pillarShake;
+    playSound(sim, 'hit_heavy');
+    sim.events.push({ type: 'active_frame' });
+    createParticles(world, player.pos.x + player.width/2, player.pos.y + player.height, '#d6d3d1', 20, 10);
+
+    const shockwave = [columnBox('area', player.pos.x + player.width / 2, params.pillarRadius)];
+    for (const target of getTargets(world)) {
+        if (!findContact(shockwave, getHurtboxes(target))) continue;
+
+        const damage = params.pillarDamage * (1 + (player.focusSpent || 0) * params.heavyPipDamage);
+        const knockback = player.facingRight ? params.pillarKnockback : -params.pillarKnockback;
+        const { outcome } = applyHitToEnemy(sim, target, damage, params.pillarPoise, knockback);
+        if (outcome !== 'held') {
+            target.flashTimer = 5;
+            if (target.state !== 'stagger') {
+                target.state = 'hit';
+                target.animFrame = 0;
+            }
+        }
+        target.hitStop = params.pillarStun;
+        player.hitStop = 6;
+        createParticles(world, target.pos.x + target.width/2, target.pos.y + target.height/2, '#ef4444', 15, 6);
+    }
+};
+
+// --- Transformation ---
+const emitTransform = (sim: SimContext, player: Entity) => {
+    const form = getTransformation(player.transformId);
+    sim.events.push({ type: 'transform', name: form ? form.name : null, gauge: player.transformGauge || 0, max: form ? form.gauge : 0 });
+};
+
+// The gauge drains every tick, so the HUD only hears about it when the bar moves a whole percent
+const drainTransformGauge = (sim: SimContext, player: Entity, form: TransformationDefinition, amount: number) => {
+    const before = player.transformGauge || 0;
+    player.transformGauge = Math.max(0, before - amount);
+    const shownPercent = (gauge: number) => Math.ceil(gauge / form.gauge * 100);
+    if (shownPercent(player.transformGauge) !== shownPercent(before)) emitTransform(sim, player);
+};
+
+const castTransformation = (sim: SimContext, spell: SpellDefinition): boolean => {
+    const { world } = sim;
+    const player = world.player;
+    const form = getTransformation(spell.transformId);
+    if (!form || player.transformId || !PARRY_READY_STATES.includes(player.state)) return false;
+
+    player.transformId = form.id;
+    player.transformGauge = form.gauge;
+    player.state = 'idle';
+    player.moveId = undefined;
+    player.moveTimer = 0;
+    player.comboCount = 0;
+    player.comboWindow = 0;
+    player.chargeTimer = 0;
+    player.sheatheTimer = 0;
+    world.shake = 10;
+    playSound(sim, 'transform');
+    createParticles(world, player.pos.x + player.width/2, player.pos.y + player.height/2, form.palette.glow, 30, 8);
+    emitTransform(sim, player);
+    return true;
+};
+
+// Back to the base form, whether the exit window ran out or a hit cut it short
+const endTransformation = (sim: SimContext, player: Entity) => {
+    player.transformId = null;
+    player.transformGauge = 0;
+    player.moveId = undefined;
+    player.moveTimer = 0;
+    player.comboCount = 0;
+    if (player.state === 'transform_exit' || player.state === 'transform_attack') player.state = 'idle';
+    emitTransform(sim, player);
+};
+
+// Gauge ran dry: the form collapses and leaves the player open for a moment
+const startTransformExit = (sim: SimContext, player: Entity) => {
+    player.state = 'transform_exit';
+    player.transformGauge = 0;
+    player.moveId = undefined;
+    player.moveTimer = 0;
+    player.animFrame = 0;
+    player.animTimer = 0;
+    playSound(sim, 'transform_end');
+    createParticles(sim.world, player.pos.x + player.width/2, player.pos.y + player.height/2, '#57534e', 20, 4);
+    emitTransform(sim, player);
+};
+
+const startTransformMove = (sim: SimContext, player: Entity, move: TransformMoveDefinition) => {
+    player.state = 'transform_attack';
+    player.moveId = move.id;
+    player.moveTimer = 0;
+    player.animFrame = 0;
+    player.animTimer = 0;
+    player.hasDealtDamage = false;
+    const lockTarget = getLockTarget(sim.world);
+    if (lockTarget) faceTarget(player, lockTarget);
+    player.vx = player.facingRight ? move.lunge : -move.lunge;
+    playSound(sim, move.stun >= 10 ? 'attack_heavy' : 'attack_light');
+};
+
+// Same hitbox layout as the boss moves: a reach around a point offset in front of the body
+const resolveTransformStrike = (sim: SimContext, player: Entity, move: TransformMoveDefinition) => {
+    const { world } = sim;
+    const dir = player.facingRight ? 1 : -1;
+    const strike = getTransformHitboxes(player);
+    const target = getTargets(world).find(e => findContact(strike, getHurtboxes(e)));
+    if (!target) return;
+
+    player.hasDealtDamage = true;
+    const { outcome } = applyHitToEnemy(sim, target, move.damage, move.poise, dir * move.knockback);
+    if (outcome !== 'held') {
+        target.flashTimer = 6;
+        if (move.interrupt && target.state !== 'stagger') {
+            target.state = 'hit';
+            target.animFrame = 0;
+            target.animTimer = 0;
+        }
+    }
+    player.hitStop = move.stun;
+    target.hitStop = move.stun;
+    world.shake = move.shake;
+    playSound(sim, move.stun >= 10 ? 'hit_heavy' : 'hit');
+    createParticles(world, target.pos.x + target.width/2, target.pos.y + target.height/2, move.color, 14, 7);
+};
+
+// Runs the whole tick for a transformed player: the form's own moveset replaces the base one
+const updateTransformation = (sim: SimContext, player: Entity, form: TransformationDefinition, onGround: boolean) => {
+    const { world, input } = sim;
+
+    if (player.state === 'transform_exit') {
+        player.vx *= 0.7;
+        player.moveTimer = (player.moveTimer || 0) + 1;
+        if (player.moveTimer % 8 === 0) createParticles(world, player.pos.x + player.width/2, player.pos.y, '#57534e', 2, 2);
+        if (player.moveTimer >= form.exitVulnerability) endTransformation(sim, player);
+    } else {
+        // Time drains the gauge here; damage drains it in hitPlayer
+        drainTransformGauge(sim, player, form, 1);
+        if (player.transformGauge <= 0) {
+            startTransformExit(sim, player);
+            return;
+        }
+
+        const move = getTransformMove(form, player.moveId);
+        const attacking = player.state === 'transform_attack' && !!move;
+        const recovering = attacking && getMovePhase(move, player.moveTimer || 0).phase === 'recovery';
+        const canAct = player.state !== 'hit' && (!attacking || recovering);
+
+        // Attack fires on release like the base combo; pressing again during recovery chains the next move
+        if (input.attack) {
+            player.chargeTimer++;
+        } else if (player.chargeTimer > 0) {
+            player.chargeTimer = 0;
+            if (canAct) {
+                const chained = attacking || player.comboWindow > 0;
+                const index = chained ? player.comboCount % form.combo.length : 0;
+                player.comboCount = index + 1;
+                startTransformMove(sim, player, form.combo[index]);
+            }
+        }
+        if (input.tech && canAct && (!player.techCooldown || player.techCooldown <= 0)) {
+            const heavy = form.heavy;
+            player.techCooldown = heavy.startup + heavy.active + heavy.recovery + 30;
+            player.comboCount = 0;
+            startTransformMove(sim, player, heavy);
+        }
+
+        const current = getTransformMove(form, player.moveId);
+        if (player.state === 'transform_attack' && current) {
+            const moveTimer = player.moveTimer || 0;
+            const phase = getMovePhase(current, moveTimer).phase;
+            if (moveTimer === current.startup) createParticles(world, player.pos.x + player.width/2 + (player.facingRight ? 1 : -1) * current.hitbox.offsetX, player.pos.y + player.height/2, current.color, 10, 5);
+            if (phase === 'active' && !player.hasDealtDamage) resolveTransformStrike(sim, player, current);
+            player.vx *= 0.85;
+            player.moveTimer = moveTimer + 1;
+            if (player.moveTimer >= current.startup + current.active + current.recovery) {
+                player.state = 'idle';
+                player.moveId = undefined;
+                player.comboWindow = COMBO_WINDOW_FRAMES;
+            }
+        } else if (player.state !== 'hit') {
+            const locked = !!getLockTarget(world);
+            if (input.right) {
+                player.vx += form.moveSpeed;
+                if (!locked) player.facingRight = true;
+            } else if (input.left) {
+                player.vx -= form.moveSpeed;
+                if (!locked) player.facingRight = false;
+            } else {
+                player.vx *= FRICTION;
+            }
+            player.vx = Math.max(Math.min(player.vx, form.maxSpeed), -form.maxSpeed);
+
+            if (input.jump && onGround) {
+                player.vy = JUMP_FORCE;
+                playSound(sim, 'jump');
+            }
+            if (world.tick % 4 === 0) createParticles(world, player.pos.x + player.width/2, player.pos.y + player.height/2, form.palette.glow, 1, 2);
+        }
+    }
+
+    player.vy += GRAVITY;
+    player.pos.x += player.vx;
+    player.pos.y += player.vy;
+    if (player.pos.y + player.height > GROUND_Y) {
+        player.pos.y = GROUND_Y - player.height;
+        player.vy = 0;
+    }
+    if (player.pos.x < 0) player.pos.x = 0;
+    if (player.pos.x > ARENA_WIDTH) player.pos.x = ARENA_WIDTH;
+
+    player.animTimer++;
+    if (player.state === 'hit') {
+        if (player.animFrame > 3) {
+            player.state = 'idle';
+            player.animFrame = 0;
+        }
+    } else if (player.state !== 'transform_attack' && player.state !== 'transform_exit') {
+        const grounded = player.pos.y + player.height >= GROUND_Y;
+        if (!grounded) player.state = player.vy > 0 ? 'fall' : 'jump';
+        else player.state = Math.abs(player.vx) > 0.1 ? 'run' : 'idle';
+    }
+    const animSpeed = player.state === 'hit' ? 10 : player.state === 'run' ? 5 : 8;
+    if (player.animTimer > animSpeed) {
+        player.animFrame++;
+        player.animTimer = 0;
+    }
+};
+
+// --- Projectiles ---
+const spawnProjectile = (world: WorldState, def: ProjectileDefinition, owner: Projectile['owner'], source: Entity, dir: number, damage: number = def.damage, speed: number = def.speed) => {
+    world.projectiles.push({
+        defId: def.id,
+        owner,
+        sourceId: source.id,
+        x: source.pos.x + source.width / 2 + dir * (source.width / 2 + def.width / 2),
+        y: source.pos.y + source.height / 2,
+        vx: dir * speed,
+        vy: 0,
+        damage,
+        age: 0,
+        hitIds: []
+    });
+};
+
+const fireEnemyProjectile = (sim: SimContext, source: Entity, projectileId: string, damage: number) => {
+    const def = getProjectileDefinition(projectileId);
+    if (!def) return;
+    spawnProjectile(sim.world, def, 'enemy', source, source.facingRight ? 1 : -1, damage);
+    playSound(sim, 'throw');
+};
+
+const throwStaff = (sim: SimContext, player: Entity) => {
+    const def = getProjectileDefinition(STAFF_THROW_PROJECTILE);
+    if (!def) return;
+    spawnProjectile(sim.world, def, 'player', player, player.facingRight ? 1 : -1, sim.params.throwDamage, sim.params.throwSpeed);
+    player.throwCooldown = sim.params.throwCooldown;
+    spendStamina(sim, player, STAFF_THROW_STAMINA_COST);
+    playSound(sim, 'throw');
+};
+
+const projectileTouches = (projectile: Projectile, def: ProjectileDefinition, entity: Entity) =>
+    findContact([getProjectileBox(projectile, def)], getHurtboxes(entity)) !== null;
+
+// Parried or caught on Rock Solid: the projectile turns around and becomes the player's
+const reflectProjectile = (sim: SimContext, projectile: Projectile) => {
+    const { world, params } = sim;
+    const player = world.player;
+    projectile.owner = 'player';
+    projectile.sourceId = player.id;
+    projectile.vx = -projectile.vx * 1.2;
+    projectile.vy = -projectile.vy; // Retrace the arc back to the shooter
+    projectile.age = 0;
+    projectile.hitIds = [];
+
+    player.state = 'idle';
+    player.hitStop = 6;
+    player.parryCooldown = 0;
+    player.counterWindow = params.counterWindow;
+
+    world.shake = 6;
+    playSound(sim, 'counter');
+    addScore(sim, params.parryScore);
+    createParticles(world, projectile.x, projectile.y, '#fde68a', 12, 8);
+};
+
+// Enemy projectiles: invisible players, rolls and deflects all get a say before damage does
+const resolveProjectileOnPlayer = (sim: SimContext, projectile: Projectile, def: ProjectileDefinition): boolean => {
+    const { world, params } = sim;
+    const player = world.player;
+    if (world.decoy || player.isDead || projectile.hitIds.includes(player.id)) return true;
+    if (!projectileTouches(projectile, def, player)) return true;
+    projectile.hitIds.push(player.id);
+
+    const facingProjectile = player.facingRight === (projectile.vx < 0);
+    if (player.state === 'rock_solid' || (player.state === 'parry' && (player.parryFrame || 0) < params.parryWindow && facingProjectile)) {
+        reflectProjectile(sim, projectile);
+        return true;
+    }
+    if (player.state === 'dodge') {
+        // Rolled through it; a tight roll still earns a perfect dodge against whoever fired it
+        const source = world.enemies.find(e => e.id === projectile.sourceId);
+        if (source && (player.dodgeFrame || 0) <= DODGE_PERFECT_WINDOW) triggerPerfectDodge(sim, source);
+        return true;
+    }
+
+    hitPlayer(sim, projectile.damage, def.knockback, def.hitStop, projectile.vx < 0 ? -1 : 1);
+    createParticles(world, projectile.x, projectile.y, def.color, 10, 5);
+    return def.piercing;
+};
+
+// Player projectiles (thrown or deflected) strike every opponent once; bosses don't flinch from them
+const resolveProjectileOnEnemies = (sim: SimContext, projectile: Projectile, def: ProjectileDefinition): boolean => {
+    const { world } = sim;
+    for (const target of getTargets(world)) {
+        if (projectile.hitIds.includes(target.id) || !projectileTouches(projectile, def, target)) continue;
+        projectile.hitIds.push(target.id);
+
+        const { outcome } = applyHitToEnemy(sim, target, projectile.damage, def.poise || 0, (projectile.vx < 0 ? -1 : 1) * def.knockback.x);
+        if (outcome !== 'held') {
+            target.flashTimer = 5;
+            if (target.type === 'enemy') {
+                target.state = 'hit';
+                target.animFrame = 0;
+            }
+        }
+        target.hitStop = def.hitStop;
+        playSound(sim, 'hit');
+        createParticles(world, projectile.x, projectile.y, def.color, 10, 6);
+        if (!def.piercing) return false;
+    }
+    return true;
+};
+
+// Moves a projectile and resolves what it touched; returns false once it is spent
+const stepProjectile = (sim: SimContext, projectile: Projectile, def: ProjectileDefinition): boolean => {
+    const { world } = sim;
+    projectile.age++;
+    if (projectile.age > def.life) return false;
+
+    if (def.returnAfter !== undefined && projectile.age >= def.returnAfter) {
+        // Homes back to the thrower, free to hit everything again on the way
+        const source = projectile.sourceId === world.player.id ? world.player : world.enemies.find(e => e.id === projectile.sourceId);
+        if (!source || source.isDead) return false;
+        if (projectile.age === def.returnAfter) projectile.hitIds = [];
+        const dx = source.pos.x + source.width / 2 - projectile.x;
+        const dy = source.pos.y + source.height / 2 - projectile.y;
+        const dist = Math.hypot(dx, dy);
+        if (dist < def.speed) return false; // Caught
+        projectile.vx = (dx / dist) * def.speed;
+        projectile.vy = (dy / dist) * def.speed;
+    } else {
+        projectile.vy += def.gravity;
+    }
+    projectile.x += projectile.vx;
+    projectile.y += projectile.vy;
+
+    if (projectile.y + def.height / 2 >= GROUND_Y || projectile.x < -def.width || projectile.x > ARENA_WIDTH + def.width) {
+        createParticles(world, projectile.x, Math.min(projectile.y, GROUND_Y - 2), def.color, 6, 3);
+        return false;
+    }
+
+    return projectile.owner === 'enemy'
+        ? resolveProjectileOnPlayer(sim, projectile, def)
+        : resolveProjectileOnEnemies(sim, projectile, def);
+};
+
+const updateProjectiles = (sim: SimContext) => {
+    const { world } = sim;
+    for (let i = world.projectiles.length - 1; i >= 0; i--) {
+        const projectile = world.projectiles[i];
+        const def = getProjectileDefinition(projectile.defId);
+        if (!def || !stepProjectile(sim, projectile, def)) world.projectiles.splice(i, 1);
+    }
+};
+
+// --- 1. Player Logic ---
+// Returns false when the input aborts the rest of the tick (air attack pressed too close to the ground)
+const updatePlayer = (sim: SimContext): boolean => {
+    const { world, input } = sim;
+    const player = world.player;
+    
+    // Debug values
+    const { 
+        trailDecay, trailStep,
+        c1Damage, c1Stun, c1Shake, c1Interrupt, c1Poise,
+        c2Damage, c2Stun, c2Shake, c2Interrupt, c2Poise,
+        c3ExtraHits, c3TotalDamage, c3Stun, c3Interrupt, c3JumpForce, c3GravityScale, c3Poise,
+        c4Length, c4Damage, c4Knockback, c4Stun, c4Shake, c4SlideFriction, c4Interrupt, c4Poise,
+        heavyDamage, heavyKnockback, heavyStun, heavyShake, heavyInterrupt, heavyPoise, heavyPipDamage,
+        focusPerHit,
+        pillarFinisherDamage, pillarFinisherPoise,
+        thrustDamage, thrustKnockback, thrustStun, thrustShake, thrustPoise, thrustFinisherDamage, thrustFinisherPoise,
+        kDamage, kStun, kRadius, kJumpForce, kPlungeSpeed, kColor, kPoise, setsuPoise,
+        setsuDist, setsuChargeFriction, setsuDamage, getsuDamage, getsuJumpHeight, getsuFade, getsuHits, getsuStun,
+        kaDamage, kaStun, kaPlungeSpeed, kaParticleCount, kaTurbulence, kaSlideForce, kaSlideFriction,
+        parryWindow, parryRecovery, parryCooldown, counterMultiplier, counterScore
+    } = sim.params;
+
+    if (player.hitStop > 0) {
+        player.hitStop--;
+    } 
+    if (player.flashTimer && player.flashTimer > 0) {
+        player.flashTimer--;
+    }
+    
+    if (!player.isDead && player.hitStop <= 0) { // Movement logic allowed if not frozen
+      const onGround = player.pos.y + player.height >= GROUND_Y;
+      
+      if (player.attackCooldown > 0) player.attackCooldown--;
+      if (player.dodgeCooldown > 0) player.dodgeCooldown--;
+      if (player.state === 'dodge') player.dodgeFrame = (player.dodgeFrame || 0) + 1;
+      if (player.state === 'parry') player.parryFrame = (player.parryFrame || 0) + 1;
+      if (player.state === 'drink') player.drinkTimer = (player.drinkTimer || 0) + 1;
+      if (player.state === 'heavy_attack' && player.stance === 'pillar') player.pillarTimer = (player.pillarTimer || 0) + 1;
+      if (player.stanceCooldown && player.stanceCooldown > 0) player.stanceCooldown--;
+      if (player.parryCooldown && player.parryCooldown > 0) player.parryCooldown--;
+      if (player.counterWindow && player.counterWindow > 0) player.counterWindow--;
+      if (player.comboWindow > 0) player.comboWindow--;
+      if (player.rockSolidTimer && player.rockSolidTimer > 0) player.rockSolidTimer--;
+      tickSpellCooldowns(sim, player);
+      if ((player.mana || 0) < (player.maxMana || PLAYER_MAX_MANA)) gainMana(sim, sim.params.manaRegen);
+      if (player.techCooldown && player.techCooldown > 0) player.techCooldown--;
+      if (player.throwCooldown && player.throwCooldown > 0) player.throwCooldown--;
+
+      // --- Lock-On (E): free states keep turning toward the target ---
+      updateLockOn(sim, player);
+      const lockTarget = getLockTarget(world);
+      if (lockTarget && LOCK_FACING_STATES.includes(player.state)) faceTarget(player, lockTarget);
+
+      // --- Transformation: the form's own moveset replaces everything below ---
+      const form = getTransformation(player.transformId);
+      if (form) {
+          updateTransformation(sim, player, form, onGround);
+          updateStaminaRegen(sim, player);
+          return true;
+      }
+
+      if (player.comboWindow === 0 && player.state !== 'attack') {
+          player.comboCount = 0;
+      }
+
+      // --- TRAIL SYSTEM UPDATE (REAL TIME) ---
+      // Update existing trails (Decay)
+      for (let i = world.combo4Trails.length - 1; i >= 0; i--) {
+          world.combo4Trails[i].life -= trailDecay; 
+          if (world.combo4Trails[i].life <= 0) {
+              world.combo4Trails.splice(i, 1);
+          }
+      }
+
+      // Generate new trails (Shared Logic for Combo 4)
+      let generateTrails = false;
+      let getAngleFn = (t: number) => 0;
+      let getLengthFn = (t: number) => 100; // Default Length fallback
+      let startTime = 0;
+      let endTime = 0;
+      let speed = 1;
+
+      if (player.state === 'attack' && player.comboCount === 4 && player.stance === 'smash') {
+          generateTrails = true;
+          getAngleFn = getCombo4AngleFromT;
+          getLengthFn = () => c4Length; // Constant length for Combo 4
+          startTime = 5;
+          endTime = 10;
+          speed = 1;
+      }
+
+      if (generateTrails) {
+          const currentT = player.animFrame + (player.animTimer / speed);
+
+          if (player.animFrame >= startTime && player.animFrame <= endTime && player.hitStop <= 0) {
+               if (world.prevCombo4Time === null) {
+                   world.prevCombo4Time = currentT;
+                   world.combo4Trails.push({
+                       angle: getAngleFn(currentT),
+                       life: 0.5,
+                       length: getLengthFn(currentT)
+                   });
+               } else {
+                   const prevT = world.prevCombo4Time;
+                   if (currentT > prevT) {
+                       let simT = prevT + trailStep;
+                       while (simT <= currentT) {
+                           const angle = getAngleFn(simT);
+                           const age = currentT - simT;
+                           const lifeStart = 0.5 - (age * trailDecay); 
+                           const len = getLengthFn(simT);
+                           if (lifeStart > 0) {
+                               world.combo4Trails.push({ angle: angle, life: lifeStart, length: len });
+                           }
+                           simT += trailStep;
+                       }
+                   }
+                   world.prevCombo4Time = currentT;
+               }
+          } else {
+              if (player.animFrame > endTime || player.animFrame < startTime) {
+                  world.prevCombo4Time = null;
+              }
+          }
+      } else {
+          world.prevCombo4Time = null;
+      }
+
+      const isAttackPressed = input.attack;
+      const isDodgePressed = input.dodge;
+      const isSpellPressed = input.spell;
+      const isTechPressed = input.tech;
+      const isSetsuPressed = input.setsu;
+      const isParryPressed = input.parry;
+      const isHealPressed = input.heal;
+
+      // --- NEW: Setsugekka Recovery Interrupt Logic ---
+      if (player.state === 'setsugekka' && player.animFrame > 32) { // 32 = After hit window
+          const isMove = input.right || input.left;
+          const isJump = input.jump;
+          if (isAttackPressed || isDodgePressed || isSpellPressed || isTechPressed || isMove || isJump) {
+              player.state = 'idle';
+              player.animFrame = 0;
+              player.animTimer = 0;
+              world.setsuMoonSnapshot = null;
+          }
+      }
+
+      // --- Setsugekka (N) Logic ---
+      if (isSetsuPressed && onGround && player.state !== 'dodge' && player.state !== 'hit' && player.state !== 'setsugekka' && player.state !== 'drink') {
+          if (player.state !== 'sheathe_charge') {
+              player.state = 'sheathe_charge';
+              player.sheatheTimer = 0;
+              // vx is no longer set to 0 here to preserve momentum
+              playSound(sim, 'sheathe_charge');
+          }
+          
+          player.sheatheTimer = (player.sheatheTimer || 0) + 1;
+          
+          // Particle effect while charging
+          if (player.sheatheTimer % 10 === 0) {
+               const radius = (player.sheatheTimer / SETSUGEKKA_CHARGE_TIME) * 40;
+               for(let i=0; i<6; i++) {
+                   const ang = (Math.PI * 2 / 6) * i;
+                   world.particles.push({
+                       x: player.pos.x + player.width/2 + Math.cos(ang)*radius,
+                       y: player.pos.y + player.height/2 + Math.sin(ang)*radius,
+                       vx: -Math.cos(ang),
+                       vy: -Math.sin(ang),
+                       life: 0.5,
+                       color: '#38bdf8',
+                       size: 2
+                   });
+               }
+          }
+
+          if (player.sheatheTimer >= SETSUGEKKA_CHARGE_TIME) {
+              // Trigger Auto-Attack
+              player.state = 'setsugekka';
+              player.animFrame = 0;
+              player.animTimer = 0;
+              player.hasDealtDamage = false; // Reset for Hit 1
+              
+              // Visual Cue for full charge
+              playSound(sim, 'break_spell'); // Use a sharp ping
+              world.shake = 5;
+              createParticles(world, player.pos.x + player.width/2, player.pos.y + player.height/2, '#fff', 20, 8);
+          }
+      }
+      // Cancel Charge if N is released before threshold
+      else if (!isSetsuPressed && player.state === 'sheathe_charge') {
+          player.state = 'idle';
+          player.sheatheTimer = 0;
+      }
+
+      // --- Tech Attack (K) Logic ---
+      if (isTechPressed && (!player.techCooldown || player.techCooldown <= 0) && hasStamina(player, TECH_STAMINA_COST) && player.state !== 'dodge' && player.state !== 'hit' && player.state !== 'sheathe_charge' && player.state !== 'setsugekka' && player.state !== 'drink') {
+           player.state = 'plunge';
+           player.vy = kJumpForce; // Rocket Jump Up
+           player.vx = player.facingRight ? 5 : -5; // Slight forward momentum
+           player.animFrame = 0;
+           player.animTimer = 0;
+           player.techCooldown = 120; // 2 seconds default
+           player.hasDealtDamage = false;
+           spendStamina(sim, player, TECH_STAMINA_COST);
+           playSound(sim, 'jump');
+           createParticles(world, player.pos.x + player.width/2, player.pos.y + player.height, '#fff', 10);
+      }
+
+      // --- Staff Throw (U) ---
+      if (input.throwStaff && !player.throwCooldown && hasStamina(player, STAFF_THROW_STAMINA_COST) && PARRY_READY_STATES.includes(player.state)) {
+          throwStaff(sim, player);
+      }
+
+      // --- Spell Logic ---
+      const spellInputs = [isSpellPressed, input.spell2, input.spell3, input.spell4];
+      (player.spellLoadout || []).slice(0, SPELL_SLOT_COUNT).forEach((spellId, slot) => {
+          if (spellInputs[slot]) tryCastSpell(sim, spellId);
+      });
+      if (input.transform && player.transformSpell) tryCastSpell(sim, player.transformSpell);
+
+      // --- Parry (Deflect) Logic ---
+      if (isParryPressed && !player.parryCooldown && PARRY_READY_STATES.includes(player.state)) {
+          player.state = 'parry';
+          player.parryFrame = 0;
+          player.parryCooldown = parryWindow + parryRecovery + parryCooldown;
+          player.animFrame = 0;
+          player.animTimer = 0;
+          player.chargeTimer = 0;
+          playSound(sim, 'block');
+      }
+
+      // --- Staff Stance (Q) ---
+      if (input.stance && !player.stanceCooldown && PARRY_READY_STATES.includes(player.state)) {
+          switchStance(sim, player);
+      }
+
+      // --- Gourd (Heal) Logic ---
+      if (isHealPressed && (player.gourdCharges || 0) > 0 && player.health < player.maxHealth && onGround && GOURD_READY_STATES.includes(player.state)) {
+          startDrink(sim, player);
+      }
+
+      // Holding dodge through a sprint doesn't chain into another dodge
+      if (isDodgePressed && player.dodgeCooldown <= 0 && !player.isSprinting && hasStamina(player, DODGE_STAMINA_COST) && player.state !== 'dodge' && player.state !== 'hit' && player.state !== 'drink') {
+          player.state = 'dodge';
+          player.animFrame = 0;
+          // Locked on, the held direction picks the roll so the player can dodge away while facing the target
+          const dodgeRight = lockTarget && (input.left || input.right) ? input.right : player.facingRight;
+          player.vx = dodgeRight ? DODGE_SPEED : -DODGE_SPEED;
+          player.dodgeCooldown = DODGE_COOLDOWN;
+          player.dodgeFrame = 0;
+          player.chargeTimer = 0;
+          player.sheatheTimer = 0; // Cancel sheathe if active
+          spendStamina(sim, player, DODGE_STAMINA_COST);
+          playSound(sim, 'dash');
+          createParticles(world, player.pos.x + player.width/2, player.pos.y + player.height, '#fff', 5);
+      }
+      else if (player.state !== 'dodge' && player.state !== 'hit' && player.state !== 'setsugekka' && player.state !== 'sheathe_charge' && player.state !== 'parry' && player.state !== 'drink' && player.state !== 'rock_solid') {
+        if (isAttackPressed) {
+           // Without the heavy's stamina the hold stalls at a light tap
+           const canCharge = player.chargeTimer < CHARGE_THRESHOLD || hasStamina(player, HEAVY_STAMINA_COST);
+           if (canCharge && player.state !== 'attack' && player.state !== 'heavy_attack' && player.state !== 'plunge') {
+             player.chargeTimer++;
+             if (player.chargeTimer % 8 === 0) playSound(sim, 'charge'); 
+             if (player.chargeTimer > CHARGE_THRESHOLD && player.chargeTimer % 5 === 0) {
+                createParticles(world, player.pos.x + player.width/2, player.pos.y + player.height/2, '#fbbf24', 1, 2);
+             }
+             // Burst each time another Focus pip is poured into the charge
+             const overcharge = player.chargeTimer - CHARGE_THRESHOLD;
+             if (overcharge > 0 && overcharge % FOCUS_PIP_CHARGE_TIME === 0 && getChargedPips(player) === overcharge / FOCUS_PIP_CHARGE_TIME) {
+                createParticles(world, player.pos.x + player.width/2, player.pos.y + player.height/2, '#f59e0b', 10, 5);
+                playSound(sim, 'charge');
+             }
+           }
+        }
+        else if (!isAttackPressed && player.chargeTimer > 0) {
+            if (lockTarget) faceTarget(player, lockTarget); // Lunges track the locked target
+            if (player.chargeTimer > CHARGE_THRESHOLD) {
+                const pips = getChargedPips(player);
+                player.focusSpent = pips;
+                if (pips > 0) {
+                    player.focus = (player.focus || 0) - pips;
+                    sim.events.push({ type: 'focus', focus: player.focus });
+                }
+                player.state = 'heavy_attack';
+                player.attackCooldown = 30;
+                player.animFrame = 0;
+                if (player.stance === 'pillar') {
+                    player.vx = 0;
+                    player.vy = 0;
+                    player.pillarTimer = 0;
+                } else if (player.stance === 'thrust') {
+                    player.vx = player.facingRight ? sim.params.thrustLunge : -sim.params.thrustLunge;
+                } else {
+                    player.vx = player.facingRight ? 12 : -12; 
+                }
+                player.comboCount = 0; 
+                player.hasDealtDamage = false;
+                spendStamina(sim, player, HEAVY_STAMINA_COST);
+                playSound(sim, 'attack_heavy');
+            } 
+            else {
+                // Every swing in the chain needs stamina; an empty bar stalls the combo
+                const allowAttack = hasStamina(player, ATTACK_STAMINA_COST);
+                
+                if (allowAttack) {
+                   player.hasDealtDamage = false; 
+
+                   if (onGround) {
+                       player.state = 'attack';
+                       if (player.comboCount > 0) {
+                           player.comboCount = (player.comboCount % 4) + 1;
+                       } else {
+                           player.comboCount = 1;
+                       }
+                       
+                       if (player.comboCount === 3) player.vy = c3JumpForce; 
+                       if (player.comboCount === 4) {
+                           startFinisherMotion(player, sim.params);
+                           player.attackCooldown = 30; 
+                       }
+                       
+                       let lunge = 3;
+                       if (player.comboCount === 2) lunge = 6;
+                       if (player.comboCount === 3) lunge = 4;
+                       
+                       // Don't override the finisher launch (startFinisherMotion) here
+                       if (player.comboCount !== 4) {
+                            player.vx = player.facingRight ? lunge : -lunge;
+                       }
+                       playSound(sim, 'attack_light');
+                       
+                       // Init Combo 3 tracker
+                       if (player.comboCount === 3) {
+                           world.c3Hits = 0;
+                       }
+                   } else {
+                       // AIR ATTACK LOGIC REPLACEMENT
+                       const distToGround = GROUND_Y - (player.pos.y + player.height);
+                       const minAirHeight = 30; // Threshold to trigger air slam
+
+                       if (distToGround > minAirHeight) {
+                            player.state = 'attack';
+                            player.comboCount = 4; // Trigger Slam
+                            startFinisherMotion(player, sim.params);
+                            player.attackCooldown = 30;
+                            player.animFrame = 0;
+                            player.hasDealtDamage = false;
+                            playSound(sim, 'attack_heavy');
+                       } 
+                       else {
+                            player.chargeTimer = 0;
+                            return false;
+                       }
+                   }
+
+                   spendStamina(sim, player, player.comboCount === 4 ? FINISHER_STAMINA_COST : ATTACK_STAMINA_COST);
+                   
+                   if (player.attackCooldown === 0) {
+                       if (player.comboCount === 1 || player.comboCount === 2) player.attackCooldown = 7;
+                       else player.attackCooldown = 11;
+                   }
+                   if (player.comboCount === 3) player.attackCooldown = 0; 
+
+                   player.animFrame = 0;
+                }
+            }
+            player.chargeTimer = 0;
+        }
+      } else {
+          if (!isAttackPressed) player.chargeTimer = 0;
+      }
+
+      let moving = false;
+      const isFinisher = player.state === 'attack' && player.comboCount === 4;
+      const isPlunge = player.state === 'plunge' || player.state === 'plunge_end';
+      const movementLocked = player.state === 'dodge' || player.state === 'heavy_attack' || isFinisher || isPlunge || player.state === 'sheathe_charge' || player.state === 'setsugekka' || player.state === 'parry' || player.state === 'drink' || player.state === 'rock_solid';
+
+      const wasSprinting = !!player.isSprinting;
+      player.isSprinting = false;
+
+      if (!movementLocked) {
+        const attackLockFrames = 5;
+        const isAttackLocked = (player.state === 'attack' && player.comboCount !== 3 && player.animFrame < 2);
+
+        if (!isAttackLocked) {
+            if (input.right) {
+            player.vx += MOVE_SPEED;
+            if (!lockTarget) player.facingRight = true;
+            moving = true;
+            } else if (input.left) {
+            player.vx -= MOVE_SPEED;
+            if (!lockTarget) player.facingRight = false;
+            moving = true;
+            } else {
+            player.vx *= FRICTION;
+            }
+
+            // Holding dodge while running on the ground turns into a sprint
+            player.isSprinting = moving && onGround && isDodgePressed && player.state === 'run' && !player.isExhausted && (player.stamina || 0) > 0
+                && (wasSprinting || player.dodgeCooldown > 0);
+            if (player.isSprinting) {
+                player.vx += player.facingRight ? MOVE_SPEED : -MOVE_SPEED;
+                spendStamina(sim, player, SPRINT_STAMINA_COST);
+                if (world.tick % 6 === 0) createParticles(world, player.pos.x + player.width/2, player.pos.y + player.height, '#78350f', 2);
+            }
+            const topSpeed = player.isSprinting ? SPRINT_MAX_SPEED : MAX_SPEED;
+            player.vx = Math.max(Math.min(player.vx, topSpeed), -topSpeed);
+        }
+      } else if (player.state === 'dodge') {
+         if (Math.abs(player.vx) < 1) player.state = 'idle';
+      } else if (player.state === 'heavy_attack') {
+         player.vx = player.stance === 'pillar' ? 0 : player.vx * 0.85; 
+      } else if (player.state === 'parry' || player.state === 'drink' || player.state === 'rock_solid') {
+         player.vx *= 0.7; // Plant the feet
+      } else if (player.state === 'sheathe_charge') {
+         // Apply friction during charge to slide to a stop
+         player.vx *= setsuChargeFriction;
+         if (Math.abs(player.vx) < 0.1) player.vx = 0;
+      } else if (isFinisher) {
+         // Apply specific friction for Attack 4 Slide
+         player.vx *= c4SlideFriction; 
+      } else if (player.state === 'setsugekka') {
+          // Specific friction for Setsugekka sliding
+          if (player.animFrame >= 22) {
+              // Flower Stage - Non-linear deceleration
+              // Logic handled in state update below, but basic friction here
+              player.vx *= kaSlideFriction; 
+          }
+      }
+
+      if ((input.jump) && onGround && !movementLocked && player.state !== 'attack') {
+        player.vy = JUMP_FORCE;
+        playSound(sim, 'jump');
+        createParticles(world, player.pos.x + player.width/2, player.pos.y + player.height, '#78350f', 5); 
+      }
+
+      if (player.state === 'attack' && player.comboCount === 3) {
+         player.vy += GRAVITY * c3GravityScale; 
+      } 
+      else if (player.state === 'heavy_attack' && player.stance === 'pillar') {
+         // Perched on the staff until the drop, then straight down
+         if (getPillarPhase(player, sim.params) === 'drop') {
+             player.vy = Math.max(player.vy + GRAVITY, PILLAR_DROP_SPEED);
+         } else {
+             player.vy = 0;
+             const climb = easeOutQuad(Math.min(1, (player.pillarTimer || 0) / PILLAR_CLIMB_TIME));
+             player.pos.y = GROUND_Y - player.height - sim.params.pillarHeight * climb;
+         }
+      }
+      else if (player.state === 'plunge') {
+         // Special Physics for Plunge
+         if (player.vy < -2) {
+             player.vy += GRAVITY; // Rising physics
+         } else {
+             // Once apex reached, rocket down
+             player.vy = kPlungeSpeed; 
+         }
+         
+         // Apply drag
+         player.vx *= 0.9;
+      }
+      else {
+         player.vy += GRAVITY;
+      }
+      
+      player.pos.x += player.vx;
+      player.pos.y += player.vy;
+
+      if (player.pos.y + player.height > GROUND_Y) {
+        player.pos.y = GROUND_Y - player.height;
+        player.vy = 0;
+        player.hasHitInAir = false; 
+        
+        if (player.state === 'heavy_attack' && player.stance === 'pillar' && getPillarPhase(player, sim.params) === 'drop') {
+            resolvePillarSlam(sim, player);
+        }
+
+        // Plunge Landing Logic
+        if (player.state === 'plunge') {
+            player.state = 'plunge_end';
+            player.animFrame = 0;
+            playSound(sim, 'hit_heavy');
+            world.shake = 15;
+            createParticles(world, player.pos.x + player.width/2, player.pos.y + player.height, kColor, 20, 10);
+            
+            // Plunge AoE Check
+            sim.events.push({ type: 'active_frame' });
+            for (const target of getTargets(world)) {
+                const shockwave = [centreReachColumn('area', player.pos.x + player.width/2, kRadius, target)];
+                if (findContact(shockwave, getHurtboxes(target))) {
+                    applyHitToEnemy(sim, target, kDamage, kPoise, 0); // Stuns in place
+                    target.hitStop = kStun;
+                    player.hitStop = 6;
+                    
+                    if (!target.isImmobilized) target.flashTimer = 5;
+
+                    if (target.state !== 'stagger') {
+                        target.state = 'hit';
+                        target.animFrame = 0;
+                    }
+                    createParticles(world, target.pos.x + target.width/2, target.pos.y + target.height/2, kColor, 15, 6);
+                }
+            }
+        }
+      }
+      if (player.pos.x < 0) player.pos.x = 0;
+      if (player.pos.x > ARENA_WIDTH) player.pos.x = ARENA_WIDTH;
+
+      const isAttacking = (player.state === 'attack' || player.state === 'heavy_attack' || player.state === 'setsugekka');
+
+      // --- COMBO 3 DYNAMIC LOGIC ---
+      // Active for as long as its rotations take (see getCombo3Frames)
+      const c3TotalFrames = getCombo3Frames(sim.params);
+
+      if (player.state === 'setsugekka') {
+          // Setsugekka Logic (3 Stages - Adjusted for Jump-Plunge)
+          // Stage 1 (Snow): Frame 0-8. Horizontal Dash.
+          // Stage 2 (Moon): Frame 10-22. Upward Jump Slash.
+          // Stage 3 (Flower): Frame 22-35. Downward Plunge Slash.
+          
+          if (player.animFrame === 0) { // Start Snow
+              playSound(sim, 'setsu_slash');
+              player.vx = player.facingRight ? setsuDist : -setsuDist; // Tunable displacement
+              
+              // Snow Particles
+              for(let i=0; i<10; i++) {
+                  world.particles.push({
+                      x: player.pos.x + cosmeticRandom(world)*100 - 50,
+                      y: player.pos.y + cosmeticRandom(world)*50,
+                      vx: (cosmeticRandom(world) - 0.5) * 5,
+                      vy: cosmeticRandom(world) * 2,
+                      life: 1.5,
+                      color: '#e0f2fe',
+                      size: 2
+                  });
+              }
+          }
+          else if (player.animFrame === 10) { // Start Moon (JUMP UP)
+              playSound(sim, 'getsu_slash');
+              player.vx = 0; // Halt forward momentum to focus on vertical
+              player.vy = getsuJumpHeight; // Tunable Jump Height
+              world.shake = 5;
+              player.hasDealtDamage = false; // Reset for Hit 2 (Moon Start)
+              
+              // Capture Snapshot of position for the Static Moon Slash
+              world.setsuMoonSnapshot = {
+                  x: player.pos.x,
+                  y: player.pos.y,
+                  facingRight: player.facingRight
+              };
+          }
+          else if (player.animFrame === 15) { // Mid Moon Multi-Hit
+              if (getsuHits > 1) {
+                  player.hasDealtDamage = false; // Allow second hit
+              }
+          }
+          else if (player.animFrame === 22) { // Start Flower (SLAM DOWN)
+              playSound(sim, 'ka_slash');
+              
+              // Horizontal IMPULSE force
+              const impulse = player.facingRight ? kaSlideForce : -kaSlideForce;
+              player.vx = impulse;
+              
+              player.vy = kaPlungeSpeed; // Slam down speed
+              world.shake = 15;
+              player.hasDealtDamage = false; // Reset for Hit 3
+          }
+          
+          // FLOWER PARTICLES (Continuous Generation during plunge)
+          // Refined logic to favor swirling dispersion towards the end
+          if (player.animFrame >= 22 && player.animFrame <= 45) {
+               for(let i=0; i<kaParticleCount; i++) {
+                  const time = (world.tick * FIXED_TIME_STEP) / 100;
+                  // Wide scatter
+                  const offsetX = (cosmeticRandom(world) - 0.5) * 100; 
+                  
+                  // Start around player but also a bit high to simulate falling from "moon" height
+                  const startX = player.pos.x + player.width/2 + offsetX;
+                  const startY = player.pos.y - 20 + cosmeticRandom(world) * 60;
+
+                  const dir = player.facingRight ? 1 : -1;
+                  
+                  // Transition probability from Impact to Drift/Swirl
+                  // Early frames (22-30) = Impact
+                  // Late frames (30+) = Soft Drift
+                  const progress = Math.min(1, Math.max(0, (player.animFrame - 22) / 20));
+                  const driftChance = 0.2 + (progress * 0.8); // Starts low, becomes dominant
+
+                  const isDrift = cosmeticRandom(world) < driftChance;
+
+                  let vx, vy, life, size;
+
+                  if (isDrift) {
+                      // SWIRL / FLOATING UP (Part 2)
+                      // Gentle sine wave motion, drifting upwards/outwards
+                      vx = (Math.sin(time + i) * 3) + ((cosmeticRandom(world) - 0.5) * 3);
+                      vy = -cosmeticRandom(world) * 2 - 0.5; // Float UP
+                      life = 1.0 + cosmeticRandom(world) * 1.0; // Longer life
+                      size = cosmeticRandom(world) * 2 + 1;
+                  } else {
+                      // IMPACT (Part 1) - Reduced chaos at end
+                      // This was the "right-down" force. We dampen it heavily as progress increases.
+                      const dampening = 1.0 - progress;
+                      vx = (dir * 5 * dampening) + ((cosmeticRandom(world) - 0.5) * kaTurbulence);
+                      vy = (cosmeticRandom(world) * 4 + 2) * dampening; // Fall down force reduces
+                      life = 0.6 + cosmeticRandom(world) * 0.4;
+                      size = cosmeticRandom(world) * 3 + 2;
+                  }
+
+                  world.particles.push({
+                      x: startX,
+                      y: startY, 
+                      vx: vx, 
+                      vy: vy, 
+                      life: life,
+                      color: cosmeticRandom(world) > 0.5 ? '#fbcfe8' : '#f9a8d4', // Pink / Light Pink
+                      size: size
+                  });
+              }
+          }
+      }
+
+      // Active frames and their boxes come from the per-frame table (Pillar heavy only hits when it lands)
+      const hitboxes = isAttacking ? getPlayerHitboxes(player, sim.params) : [];
+      const targets = getTargets(world);
+      if (hitboxes.length > 0) sim.events.push({ type: 'active_frame' });
+      if (hitboxes.length > 0 && targets.length > 0) {
+          let damage = 10; // Default fallback
+          let interrupt = 0; // Default interrupt capability
+          let poise = 0; // Poise damage dealt on hit
+          let isAir = (player.state === 'attack' && player.comboCount === 3); // Check if delayed air attack
+          let isMultiHit = (player.state === 'attack' && player.comboCount === 3);
+
+          if (player.state === 'heavy_attack' && player.stance === 'thrust') {
+              damage = thrustDamage * (1 + (player.focusSpent || 0) * heavyPipDamage);
+              interrupt = 1;
+              poise = thrustPoise;
+          } else if (player.state === 'heavy_attack') {
+              damage = heavyDamage * (1 + (player.focusSpent || 0) * heavyPipDamage); // Scales with Focus spent
+              interrupt = heavyInterrupt;
+              poise = heavyPoise;
+          } else if (isAir) {
+              // --- COMBO 3 PARAMETERS ---
+              const totalHits = 1 + c3ExtraHits;
+              damage = c3TotalDamage / totalHits; // Distribute damage
+              interrupt = c3Interrupt;
+              poise = c3Poise;
+
+              // Multi-hit Reset Logic
+              // Divide total frames into segments. At start of each segment, reset damage.
+              const segmentLen = c3TotalFrames / totalHits;
+              const currentHitIndex = Math.floor(player.animFrame / segmentLen);
+              
+              if (currentHitIndex > world.c3Hits) {
+                  player.hasDealtDamage = false;
+                  world.c3Hits = currentHitIndex;
+              }
+          } else if (player.state === 'setsugekka') {
+              interrupt = 1; // High stagger default
+              poise = setsuPoise;
+              if (player.animFrame <= 8) damage = setsuDamage; // Hit 1
+              else if (player.animFrame <= 20) damage = getsuDamage; // Hit 2 (Vertical)
+              else damage = kaDamage; // Hit 3
+          }
+          else if (player.state === 'attack') {
+              if (player.comboCount === 1) { damage = c1Damage; interrupt = c1Interrupt; poise = c1Poise; }
+              if (player.comboCount === 2) { damage = c2Damage; interrupt = c2Interrupt; poise = c2Poise; }
+              if (player.comboCount === 4) {
+                  interrupt = c4Interrupt;
+                  if (player.stance === 'pillar') {
+                      damage = pillarFinisherDamage;
+                      poise = pillarFinisherPoise;
+                  } else if (player.stance === 'thrust') {
+                      damage = thrustFinisherDamage;
+                      poise = thrustFinisherPoise;
+                  } else {
+                      damage = c4Damage; // Use Debug Param
+                      poise = c4Poise;
+                  }
+              }
+          }
+          
+          // A swing connects with one opponent: the locked-on target gets first claim
+          for (const target of targets) {
+              const contact = findContact(hitboxes, getHurtboxes(target));
+              if (contact) {
+                  // Spark where the Combo 4 sweep caught the body
+                  if (player.state === 'attack' && player.comboCount === 4 && player.stance === 'smash' && !player.hasDealtDamage) {
+                      createParticles(world, contact.x, contact.y, '#fff', 2, 5);
+                  }
+                  if (isAir) {
+                      player.hasHitInAir = true;
+                  }
+
+                  let shouldRegisterHit = false;
+                  if (isMultiHit || player.state === 'setsugekka') { 
+                       if (!player.hasDealtDamage) {
+                           shouldRegisterHit = true;
+                       }
+                  } else {
+                       if (!player.hasDealtDamage) {
+                           shouldRegisterHit = true;
+                       }
+                  }
+
+                  if (shouldRegisterHit) { 
+                     // Counter attack: the first hit after a deflect deals bonus damage
+                     const isCounter = (player.counterWindow || 0) > 0;
+                     if (isCounter) {
+                         damage *= counterMultiplier;
+                         player.counterWindow = 0;
+                     }
+
+                     const isHeavyHit = player.state === 'heavy_attack' || player.comboCount === 4 || player.state === 'setsugekka';
+
+                     let kForce = 0; 
+                     if (player.comboCount === 4) kForce = c4Knockback; // Use Debug Param
+                     if (player.state === 'heavy_attack') kForce = player.stance === 'thrust' ? thrustKnockback : heavyKnockback; // Use Debug Param
+                     if (player.state === 'setsugekka') kForce = 12;
+
+                     const hit = applyHitToEnemy(sim, target, damage, poise, player.facingRight ? kForce : -kForce);
+
+                     if (hit.outcome === 'freed') {
+                        // Shattering the binding throws the target clear
+                        world.shake = 25; 
+
+                        for(let i=0; i<25; i++) {
+                            world.particles.push({
+                                x: target.pos.x + target.width/2,
+                                y: target.pos.y + target.height/2,
+                                vx: (cosmeticRandom(world) - 0.5) * 18,
+                                vy: (cosmeticRandom(world) - 0.5) * 18,
+                                life: 1.2,
+                                color: '#fbbf24',
+                                size: cosmeticRandom(world) * 4 + 3
+                            });
+                        }
+
+                        if (target.state !== 'stagger') {
+                            target.state = 'hit';
+                            target.animFrame = 0;
+                            target.vx = player.facingRight ? 8 : -8; 
+                        }
+
+                        let stopDuration = 10;
+                        if (isHeavyHit) stopDuration = 15;
+                        else if (isMultiHit) stopDuration = 8;
+
+                        const finalStun = Math.max(stopDuration, 18);
+                        player.hitStop = finalStun;
+                        target.hitStop = finalStun;
+                     } else if (hit.outcome === 'held') {
+                        playSound(sim, isHeavyHit ? 'hit_heavy' : 'hit');
+                        world.shake = 5;
+                        createParticles(world, target.pos.x + target.width/2, target.pos.y + target.height/2, '#fbbf24', 8, 5);
+
+                        player.hitStop = 3;
+                        target.hitStop = 3;
+                     } else {
+                         let stopDuration = 10; 
+                         let shakeInt = 5;
+
+                         // Should Stagger Check replaced with interrupt Logic
+                         const shouldStagger = interrupt > 0;
+
+                         if (player.state === 'heavy_attack') {
+                             stopDuration = player.stance === 'thrust' ? thrustStun : heavyStun; // Use Debug Param
+                             shakeInt = player.stance === 'thrust' ? thrustShake : heavyShake; // Use Debug Param
+                             createParticles(world, target.pos.x + target.width/2, target.pos.y + target.height, '#fff', 20, 15);
+                         } else if (player.comboCount === 4) {
+                             stopDuration = c4Stun; // Use Debug Param
+                             shakeInt = c4Shake; // Use Debug Param
+                             createParticles(world, target.pos.x + target.width/2, target.pos.y + target.height, '#fff', 20, 15);
+                         } else if (isMultiHit) {
+                             if (player.comboCount === 3) {
+                                 stopDuration = c3Stun; // Use debug param for stun
+                                 shakeInt = 2; 
+                             } else {
+                                 stopDuration = 8; 
+                                 shakeInt = 5;
+                             }
+                         } else if (player.state === 'setsugekka') {
+                             // Override stun logic for Moon phase (Frames 10-20)
+                             if (player.animFrame >= 10 && player.animFrame <= 20) {
+                                 stopDuration = getsuStun;
+                                 shakeInt = 2;
+                             } else if (player.animFrame > 20) {
+                                 // Flower Phase
+                                 stopDuration = kaStun;
+                                 shakeInt = 10;
+                             } else {
+                                 // Snow Phase
+                                 stopDuration = 15; 
+                                 shakeInt = 10;
+                             }
+                             createParticles(world, target.pos.x + target.width/2, target.pos.y + target.height, '#fff', 15, 10);
+                         } else if (player.comboCount === 1) {
+                             stopDuration = c1Stun; 
+                             shakeInt = c1Shake;
+                         } else if (player.comboCount === 2) {
+                             stopDuration = c2Stun;
+                             shakeInt = c2Shake;
+                         }
+
+                         // Apply Stagger if configured
+                         if (shouldStagger && target.state !== 'stagger') {
+                             target.state = 'hit';
+                             target.animTimer = 0;
+                             target.animFrame = 0; // Reset animation
+                         }
+
+                         player.hitStop = stopDuration; 
+                         target.hitStop = stopDuration;
+
+                         // Apply flash (unless immobilized)
+                         if (!target.isImmobilized) {
+                             target.flashTimer = 6;
+                         }
+
+                         world.shake = shakeInt; 
+                     
+                         playSound(sim, isHeavyHit ? 'hit_heavy' : 'hit');
+                     }
+
+
+                     // Light combo hits build Focus; the spin's many small hits share one hit's worth
+                     if (player.state === 'attack') {
+                         gainFocus(sim, isMultiHit ? focusPerHit / (c3ExtraHits + 1) : focusPerHit);
+                     }
+
+                     if (isCounter) {
+                         playSound(sim, 'counter_hit');
+                         addScore(sim, counterScore);
+                         createParticles(world, target.pos.x + target.width/2, target.pos.y + target.height/2, '#fde68a', 20, 12);
+                     }
+                 
+                     const pColor = (player.state === 'heavy_attack' || player.comboCount === 4 || player.state === 'setsugekka') ? '#ef4444' : '#fbbf24';
+                     createParticles(world, target.pos.x + target.width/2, target.pos.y + target.height/2, pColor, 12); 
+                 
+                     if (isMultiHit || player.state === 'setsugekka') {
+                         if (player.comboCount === 3) {
+                             player.attackCooldown = 11;
+                         } else {
+                             player.attackCooldown = 18; 
+                         }
+                         player.hasDealtDamage = true; // Set flag to wait for next reset cycle
+                     } else {
+                         player.hasDealtDamage = true;
+                      }
+                  }
+              }
+          }
+      }
+
+      player.animTimer++;
+
+      if (player.state === 'hit') {
+          if (player.animFrame > 3) {
+              player.state = 'idle';
+              player.animFrame = 0;
+          }
+      }
+      else if (player.state === 'dodge' && player.animFrame >= 4) {
+        player.state = 'idle';
+      }
+      else if (player.state === 'parry') {
+        if ((player.parryFrame || 0) >= parryWindow + parryRecovery) player.state = 'idle';
+      }
+      else if (player.state === 'drink') {
+        updateDrink(sim, player);
+      }
+      else if (player.state === 'rock_solid') {
+        if (!player.rockSolidTimer) player.state = 'idle';
+      }
+      else if (player.state === 'heavy_attack' && player.stance !== 'pillar' && player.animFrame >= (player.stance === 'thrust' ? 6 : 8)) {
+         player.state = 'idle';
+      }
+      else if (player.state === 'plunge_end' && player.animFrame > 10) {
+          player.state = 'idle';
+          player.animFrame = 0;
+      }
+      else if (player.state === 'setsugekka' && player.animFrame > 55) { // Extended for Atmosphere Window (was 45)
+          player.state = 'idle';
+          player.animFrame = 0;
+          world.setsuMoonSnapshot = null; // Reset snapshot
+      }
+      else if (isAttacking && player.attackCooldown <= 0 && !isFinisher && player.state !== 'heavy_attack' && player.comboCount !== 3 && player.state !== 'setsugekka') {
+        player.state = 'idle';
+        player.comboWindow = COMBO_WINDOW_FRAMES;
+      }
+      else if (player.state !== 'dodge' && !isAttacking && !isPlunge && player.state !== 'sheathe_charge') {
+        if (!onGround) {
+           player.state = player.vy > 0 ? 'fall' : 'jump';
+        } else if (Math.abs(player.vx) > 0.1) {
+           player.state = 'run';
+        } else {
+           player.state = 'idle';
+        }
+      }
+      
+      if (player.state === 'attack' && player.comboCount === 3) {
+           // DYNAMIC LIMIT for Combo 3
+           const limit = c3TotalFrames; 
+           
+           if (player.animFrame > limit) { 
+               player.state = 'attack';
+               player.comboCount = 4;
+               startFinisherMotion(player, sim.params);
+               player.attackCooldown = 30;
+               player.animFrame = 0;
+               player.animTimer = 0;
+               player.hasDealtDamage = false;
+               playSound(sim, 'attack_heavy');
+           }
+      }
+      if (isFinisher && player.animFrame >= 20) {
+          player.state = 'idle';
+          player.comboWindow = COMBO_WINDOW_FRAMES;
+      }
+
+      let animSpeed = 8;
+      if (player.state === 'run') animSpeed = 5;
+      if (player.state === 'attack') {
+          if (player.comboCount === 3) animSpeed = 1; 
+          else if (player.comboCount === 4) animSpeed = 1; 
+          else animSpeed = 3; 
+      }
+      if (player.state === 'heavy_attack') animSpeed = 2; 
+      if (player.state === 'dodge') animSpeed = 3;
+      if (player.state === 'hit') animSpeed = 10;
+      if (player.state === 'plunge') animSpeed = 4;
+      if (player.state === 'plunge_end') animSpeed = 2;
+      if (player.state === 'setsugekka') animSpeed = 2;
+      
+      if (player.animTimer > animSpeed) {
+        player.animFrame++;
+        player.animTimer = 0;
+      }
+      
+      updateStaminaRegen(sim, player);
+    }
+    return true;
+};
+
+// --- 2. Boss Logic ---
+const PLAYER_ATTACK_STATES: Entity['state'][] = ['attack', 'air_attack', 'heavy_attack', 'plunge', 'setsugekka', 'transform_attack'];
+const PARRY_READY_STATES: Entity['state'][] = ['idle', 'run', 'jump', 'fall'];
+const GOURD_READY_STATES: Entity['state'][] = ['idle', 'run'];
+
+const MOVE_STATES: Record<BossMoveKind, Entity['state']> = {
+    slam: 'kowtow_attack',
+    leap: 'jump_smash',
+    projectile: 'cast'
+};
+
+// Ticks a leaping boss has left in the air and where it comes down, following updateBoss's physics
+const predictLeapLanding = (boss: Entity): { ticks: number; x: number } => {
+    let { x, y } = boss.pos;
+    let vy = boss.vy;
+    let ticks = 0;
+    while (!(vy >= 0 && y + boss.height >= GROUND_Y) && ticks < 600) {
+        vy += GRAVITY;
+        x = Math.max(0, Math.min(x + boss.vx, ARENA_WIDTH - boss.width));
+        y = Math.min(y + vy, GROUND_Y - boss.height);
+        ticks++;
+    }
+    return { ticks, x };
+};
+
+// The warning for the boss's current move while it is inside its telegraph window, otherwise null
+export const getBossTelegraph = (world: WorldState): ActiveTelegraph | null => {
+    const boss = world.boss;
+    if (!boss || boss.isDead) return null;
+    const move = getBossMove(getBossDefinition(boss.defId), boss.moveId);
+    if (!move || !move.telegraph) return null;
+
+    let remaining: number;
+    let originX = boss.pos.x;
+    if (boss.state === 'jump_smash') {
+        const landing = predictLeapLanding(boss);
+        remaining = landing.ticks + move.startup;
+        originX = landing.x;
+    } else if (boss.state === MOVE_STATES[move.kind] || (boss.state === 'attack' && move.kind === 'leap')) {
+        remaining = move.startup - (boss.moveTimer || 0);
+    } else {
+        return null;
+    }
+    if (remaining <= 0 || remaining > move.telegraph.warning) return null;
+
+    const dir = boss.facingRight ? 1 : -1;
+    return {
+        moveId: move.id,
+        indicator: move.telegraph.indicator,
+        x: originX + boss.width / 2 + dir * move.hitbox.offsetX,
+        reach: move.hitbox.reach,
+        color: move.telegraph.color || move.impactColor,
+        remaining,
+        progress: 1 - remaining / move.telegraph.warning
+    };
+};
+
+// Sounds the cue once per move, the first tick its warning is up
+const updateTelegraph = (sim: SimContext, boss: Entity) => {
+    if (boss.telegraphCued || !getBossTelegraph(sim.world)) return;
+    boss.telegraphCued = true;
+    playSound(sim, 'telegraph');
+};
+
+const startBossMove = (boss: Entity, move: BossMoveDefinition, speed: number = 1) => {
+    boss.moveId = move.id;
+    boss.moveTimer = 0;
+    boss.hasDealtDamage = false;
+    boss.telegraphCued = false;
+    boss.state = MOVE_STATES[move.kind];
+    boss.animFrame = 0;
+    boss.animTimer = 0;
+    boss.attackCooldown = move.cooldown;
+    boss.moveCooldowns = { ...boss.moveCooldowns, [move.id]: getRepeatCooldown(move) };
+    if (move.kind === 'leap' && move.leap) {
+        boss.vy = move.leap.vy;
+        boss.vx = (boss.facingRight ? move.leap.vx : -move.leap.vx) * speed;
+    } else {
+        boss.vx = 0;
+    }
+};
+
+const tickMoveCooldowns = (boss: Entity) => {
+    const cooldowns = boss.moveCooldowns || {};
+    for (const id of Object.keys(cooldowns)) {
+        if (cooldowns[id] > 0) cooldowns[id]--;
+    }
+};
+
+// Scores every option the boss has right now and acts on the best one
+const runBossAI = (sim: SimContext, boss: Entity, def: BossDefinition, distance: number) => {
+    const { world } = sim;
+    const player = world.player;
+    const phaseIndex = boss.phaseIndex || 0;
+
+    const { choice, decision } = decideBossAction({
+        tick: world.tick,
+        distance,
+        canAttack: boss.attackCooldown <= 0,
+        moveCooldowns: boss.moveCooldowns || {},
+        healthRatio: boss.health / boss.maxHealth,
+        player: world.decoy ? { attacking: false, dodging: false, airborne: false } : {
+            attacking: PLAYER_ATTACK_STATES.includes(player.state),
+            dodging: player.state === 'dodge',
+            airborne: player.pos.y + player.height < GROUND_Y - 1
+        },
+        moves: getPhaseMoves(def, phaseIndex),
+        movement: getPhaseMovement(def, phaseIndex),
+        profile: def.ai
+    }, () => gameplayRandom(world));
+
+    boss.aiTimer = def.ai.decisionInterval;
+    sim.events.push({ type: 'boss_decision', decision });
+    if (choice.type === 'move') startBossMove(boss, choice.move, getPhaseSpeed(def, phaseIndex));
+    else boss.aiAction = choice.action;
+};
+
+// Carries out the footwork the AI last picked until it is reached or re-decided
+const updateBossMovement = (boss: Entity, movement: BossMovement, distance: number) => {
+    const towardPlayer = boss.facingRight ? 1 : -1;
+    const diff = distance - movement.preferredDistance;
+
+    switch (boss.aiAction) {
+        case 'approach':
+            boss.state = 'run';
+            if (distance > movement.engageDistance) {
+                boss.vx += towardPlayer * movement.runAcceleration;
+                boss.vx = Math.max(Math.min(boss.vx, movement.maxRunSpeed), -movement.maxRunSpeed);
+            } else {
+                boss.vx = towardPlayer * movement.approachSpeed;
+            }
+            if (diff <= 0) boss.aiAction = 'hold';
+            break;
+        case 'retreat':
+            boss.state = 'run';
+            boss.vx = -towardPlayer * movement.retreatSpeed;
+            if (diff >= 0) boss.aiAction = 'hold';
+            break;
+        case 'idle':
+            boss.state = 'idle';
+            boss.vx = 0;
+            break;
+        default:
+            boss.state = 'standoff';
+            boss.vx = 0;
+            break;
+    }
+};
+
+// Dodged just before the hitbox would have connected: slow the boss down and refund the dodge
+const triggerPerfectDodge = (sim: SimContext, boss: Entity) => {
+    const { world } = sim;
+    const player = world.player;
+
+    boss.hasDealtDamage = true; // This strike is spent
+    boss.bulletTime = DODGE_PERFECT_BULLET_TIME;
+    world.afterimages.push({ entity: { ...player, pos: { ...player.pos } }, life: 1.0 });
+    restoreStamina(sim, player, DODGE_PERFECT_STAMINA_REFUND);
+    gainFocus(sim, sim.params.focusPerPerfectDodge);
+    playSound(sim, 'perfect_dodge');
+    createParticles(world, player.pos.x + player.width / 2, player.pos.y + player.height / 2, '#7dd3fc', 12, 6);
+};
+
+// Hit landed inside the parry window: negate it, stagger the boss and open a counter window
+const triggerDeflect = (sim: SimContext, boss: Entity) => {
+    const { world, params } = sim;
+    const player = world.player;
+    const dir = boss.facingRight ? 1 : -1;
+
+    boss.hasDealtDamage = true;
+    boss.state = 'hit';
+    boss.animFrame = 0;
+    boss.animTimer = 0;
+    boss.vx = -dir * 4;
+    boss.hitStop = params.parryStun;
+    boss.flashTimer = 6;
+
+    player.state = 'idle';
+    player.hitStop = 6;
+    player.parryCooldown = 0;
+    player.counterWindow = params.counterWindow;
+    applyPoiseDamage(sim, boss, params.parryPoise);
+
+    world.shake = 8;
+    playSound(sim, 'counter');
+    addScore(sim, params.parryScore);
+    const sparkX = player.facingRight ? player.pos.x + player.width + 10 : player.pos.x - 10;
+    createParticles(world, sparkX, player.pos.y + player.height / 3, '#fde68a', 14, 9);
+    createParticles(world, sparkX, player.pos.y + player.height / 3, '#ffffff', 6, 5);
+};
+
+// Checks the attacker's strike boxes for this frame against the player and applies damage/knockback on contact.
+// Minor enemy attacks share the same hitbox layout and go through here too
+const resolveBossStrike = (sim: SimContext, boss: Entity, strike: FrameBox[], move: Pick<BossMoveDefinition, 'damage' | 'hitStop' | 'knockback' | 'bossHitStop'>) => {
+    const { world } = sim;
+    const player = world.player;
+    const dir = boss.facingRight ? 1 : -1;
+
+    if (world.decoy) return; // Invisible: the boss is swinging at the decoy
+    if (!findContact(strike, getHurtboxes(player))) return;
+    if (player.state === 'rock_solid') {
+        triggerDeflect(sim, boss);
+        return;
+    }
+    const facingBoss = player.facingRight === (boss.pos.x + boss.width / 2 > player.pos.x + player.width / 2);
+    if (player.state === 'parry' && (player.parryFrame || 0) < sim.params.parryWindow && facingBoss) {
+        triggerDeflect(sim, boss);
+        return;
+    }
+    if (player.state === 'dodge') {
+        if ((player.dodgeFrame || 0) <= DODGE_PERFECT_WINDOW) triggerPerfectDodge(sim, boss);
+        return;
+    }
+
+    boss.hasDealtDamage = true;
+    if (move.bossHitStop) boss.hitStop = move.bossHitStop;
+    hitPlayer(sim, move.damage, move.knockback, move.hitStop, dir);
+};
+
+// A hit that got past every defence; `dir` is the direction the player is knocked
+const hitPlayer = (sim: SimContext, damage: number, knockback: { x: number; y: number }, hitStop: number, dir: number) => {
+    const { world } = sim;
+    const player = world.player;
+    const form = getTransformation(player.transformId);
+    if (form && player.state !== 'transform_exit') {
+        // The form soaks the hit: it comes out of the gauge instead of health
+        drainTransformGauge(sim, player, form, damage * form.drainPerDamage);
+    } else {
+        if (form) endTransformation(sim, player); // Caught in the exit window
+        if (sim.params.infinitePlayerHealth && player.health - damage <= 0) {
+            player.health = player.maxHealth;
+        } else {
+            player.health -= damage;
+        }
+    }
+
+    player.state = 'hit';
+    player.hitStop = hitStop;
+    player.vx = dir * knockback.x;
+    player.vy = knockback.y;
+    sim.events.push({ type: 'damage', target: 'player', amount: damage, health: player.health });
+    createParticles(world, player.pos.x, player.pos.y, '#ef4444', 8);
+    if (player.health <= 0) {
+        player.isDead = true;
+        setOutcome(sim, GameState.GAME_OVER);
+    }
+};
+
+// Impact visuals at the moment a move's hitbox comes out
+const createBossImpact = (sim: SimContext, boss: Entity, move: BossMoveDefinition) => {
+    const { world } = sim;
+    const dir = boss.facingRight ? 1 : -1;
+    const impactX = boss.pos.x + boss.width / 2 + dir * move.hitbox.offsetX;
+    world.shake = move.shake;
+
+    if (move.kind === 'leap') {
+        createParticles(world, impactX, GROUND_Y, move.impactColor, 10);
+        return;
+    }
+
+    playSound(sim, 'hit_heavy');
+    createParticles(world, impactX, GROUND_Y, move.impactColor, 8, 12);
+    createParticles(world, impactX, GROUND_Y, '#ffffff', 8, 8);
+
+    // Dust shockwave that travels exactly as far as the hitbox reaches
+    const particleLifeFrames = 20;
+    const swSpeed = move.hitbox.reach / particleLifeFrames;
+    for (let i = 0; i < 12; i++) {
+        for (const side of [1, -1]) {
+            world.particles.push({
+                x: impactX,
+                y: GROUND_Y - 2,
+                vx: side * swSpeed * (0.8 + cosmeticRandom(world) * 0.4),
+                vy: (cosmeticRandom(world) - 0.5) * 2 - 1,
+                life: 1.0,
+                color: i % 2 === 0 ? 'rgba(120, 113, 108, 0.8)' : 'rgba(168, 162, 158, 0.5)',
+                size: 2 + cosmeticRandom(world) * 4
+            });
+        }
+    }
+};
+
+// Health crossed a phase threshold: roar while invulnerable, then fight with the new phase
+const startPhaseTransition = (sim: SimContext, boss: Entity, def: BossDefinition, phaseIndex: number) => {
+    const { world } = sim;
+    boss.phaseIndex = phaseIndex;
+    boss.state = 'roar';
+    boss.isInvulnerable = true;
+    boss.isImmobilized = false;
+    boss.immobilizeTimer = 0;
+    boss.moveId = undefined;
+    boss.moveTimer = 0;
+    boss.animFrame = 0;
+    boss.animTimer = 0;
+    boss.flashTimer = 0;
+    boss.vx = 0;
+
+    playSound(sim, 'roar');
+    world.shake = 20;
+    createParticles(world, boss.pos.x + boss.width / 2, boss.pos.y + boss.height / 2, getPhasePalette(def, phaseIndex).body, 30, 14);
+    sim.events.push({ type: 'boss_phase', phase: phaseIndex, barColor: getPhaseBarColor(def, phaseIndex) });
+};
+
+const updateRoar = (sim: SimContext, boss: Entity, def: BossDefinition) => {
+    const { world } = sim;
+    const phase = getBossPhase(def, boss.phaseIndex || 0);
+    boss.vx = 0;
+
+    if ((boss.moveTimer || 0) % 10 === 0) {
+        world.shake = Math.max(world.shake, 6);
+        createParticles(world, boss.pos.x + boss.width / 2, boss.pos.y + boss.height * 0.3, '#e5e7eb', 4, 8);
+    }
+
+    if (!phase || (boss.moveTimer || 0) >= phase.transitionDuration) {
+        boss.state = 'idle';
+        boss.isInvulnerable = false;
+        boss.animFrame = 0;
+    }
+};
+
+// Runs the startup/active/recovery windows of the move in progress
+const updateBossMove = (sim: SimContext, boss: Entity, move: BossMoveDefinition) => {
+    const moveTimer = boss.moveTimer || 0;
+    if (move.kind === 'projectile') {
+        if (moveTimer === move.startup && move.projectile) fireEnemyProjectile(sim, boss, move.projectile, move.damage);
+        return;
+    }
+    if (moveTimer === move.startup) createBossImpact(sim, boss, move);
+    if (!boss.hasDealtDamage) resolveBossStrike(sim, boss, getBossHitboxes(boss, move, sim.world.player), move);
+};
+
+const updateBoss = (sim: SimContext) => {
+    const { world } = sim;
+    const player = world.player;
+    const boss = world.boss;
+    if (!boss) return;
+
+    const { bossBehavior, bossPatrolRange, bossPatrolSpeed, infiniteHealth } = sim.params;
+    const def = getBossDefinition(boss.defId);
+
+    // Bullet time: skip the slowed ticks entirely so the boss moves at a fraction of its speed
+    const isSlowedTick = isTimeSlowed(boss);
+    if (boss.bulletTime && boss.bulletTime > 0) boss.bulletTime--;
+
+    if (boss && !boss.isDead && !isSlowedTick) {
+      if (boss.hitStop > 0) {
+          boss.hitStop--;
+          // Check immobilize timer even during hitstop to prevent indefinite extension
+          if (boss.isImmobilized && boss.immobilizeTimer > 0) boss.immobilizeTimer--; 
+      } 
+      if (boss.flashTimer && boss.flashTimer > 0) {
+          boss.flashTimer--;
+      }
+
+      // Poise drains back to zero once the boss hasn't been hit for a while
+      if (boss.state !== 'stagger' && boss.poise && boss.poise > 0) {
+          if (boss.poiseRecoveryDelay && boss.poiseRecoveryDelay > 0) {
+              boss.poiseRecoveryDelay--;
+          } else {
+              boss.poise = Math.max(0, boss.poise - def.poise.recoveryRate);
+              emitPoise(sim, boss);
+          }
+      }
+
+      // Phase thresholds are checked once the hit that crossed them has resolved. A
+      // stagger plays out first, so breaking poise still earns its full punish window
+      const pendingPhase = getPendingPhase(def, boss);
+      if (boss.hitStop <= 0 && pendingPhase !== null && boss.health > 0 && boss.state !== 'stagger') {
+          startPhaseTransition(sim, boss, def, pendingPhase);
+      }
+      const movement = getPhaseMovement(def, boss.phaseIndex || 0);
+
+      if (boss.hitStop <= 0 && boss.isImmobilized) {
+          // Immobilized Logic: Freezes Physics and Animation
+          if (boss.immobilizeTimer && boss.immobilizeTimer > 0) {
+            boss.immobilizeTimer--;
+            const flickerRate = 10;
+            if (boss.immobilizeTimer % flickerRate === 0) {
+                createParticles(world, boss.pos.x + cosmeticRandom(world)*boss.width, boss.pos.y + cosmeticRandom(world)*boss.height, '#fbbf24', 1, 1);
+            }
+          } else {
+            boss.isImmobilized = false;
+          }
+      }
+      else if (boss.hitStop <= 0) {
+          // Only apply AI Decision overrides if not reacting to damage
+          const isReacting = boss.state === 'hit' || boss.state === 'roar' || boss.state === 'stagger'; // Immobilize check handled in branch above
+          
+          if (!isReacting) {
+              // Debug Behavior Override
+              if (bossBehavior === 'idle') {
+                  if (boss.state !== 'idle') {
+                      boss.state = 'idle';
+                      boss.vx = 0;
+                  }
+                  boss.attackCooldown = 60;
+              } 
+              else if (bossBehavior === 'kowtow') {
+                  // Force a slam loop
+                  const slam = def.moves.find(move => move.kind === 'slam');
+                  if (slam && boss.state !== MOVE_STATES.slam) startBossMove(boss, slam);
+              }
+              else if (bossBehavior === 'patrol') {
+                  // Patrol Logic: Walk back and forth
+                  if (boss.state === 'attack' || boss.state === 'jump_smash' || boss.state === 'kowtow_attack') {
+                      // If actively attacking, let it finish
+                  } else {
+                      boss.state = 'run';
+                      const patrolCenter = def.spawn.x;
+                      if (boss.pos.x < patrolCenter - bossPatrolRange) {
+                          boss.facingRight = true;
+                      } else if (boss.pos.x > patrolCenter + bossPatrolRange) {
+                          boss.facingRight = false;
+                      }
+                      
+                      boss.vx = boss.facingRight ? bossPatrolSpeed : -bossPatrolSpeed;
+                  }
+              }
+              else if (bossBehavior === 'jump_loop') {
+                  // Jump Loop Logic
+                  if (boss.state !== 'jump_smash' && boss.state !== 'attack' && boss.state !== 'hit' && boss.state !== 'idle') {
+                      boss.state = 'idle';
+                      boss.vx = 0;
+                  }
+
+                  const leap = def.moves.find(move => move.kind === 'leap');
+                  if (boss.state === 'idle') {
+                      boss.vx = 0; 
+                      
+                      if (leap && boss.attackCooldown <= 0) {
+                          startBossMove(boss, leap);
+                          // Straight up and higher than normal so the landing is easy to study
+                          boss.vy = -22; 
+                          boss.vx = 0;
+                          boss.attackCooldown = 160; 
+                      }
+                  }
+              }
+          }
+
+          // Cloud Step: the boss only knows about the decoy. Both are measured from their centres
+          const targetX = world.decoy ? world.decoy.pos.x + player.width / 2 : player.pos.x + player.width / 2;
+          const bossX = boss.pos.x + boss.width / 2;
+
+          if (boss.state !== 'kowtow_attack' && boss.state !== 'cast' && boss.state !== 'stagger' && bossBehavior !== 'patrol' && bossBehavior !== 'jump_loop') {
+                boss.facingRight = targetX > bossX;
+          }
+
+          const distance = Math.abs(targetX - bossX);
+            
+          if (bossBehavior === 'normal') {
+                const isBusy = ['attack', 'jump_smash', 'hit', 'kowtow_attack', 'cast', 'roar', 'stagger'].includes(boss.state);
+                if (boss.aiTimer && boss.aiTimer > 0) boss.aiTimer--;
+                if (!isBusy && !boss.aiTimer) runBossAI(sim, boss, def, distance);
+          }
+
+          const activeMove = getBossMove(def, boss.moveId);
+
+          if (boss.state === 'kowtow_attack' || boss.state === 'cast') {
+                if (Math.abs(boss.vx) > 0.1) boss.vx *= 0.8;
+                else boss.vx = 0;
+
+                if (activeMove) {
+                    updateBossMove(sim, boss, activeMove);
+
+                    if ((boss.moveTimer || 0) >= activeMove.startup + activeMove.active + activeMove.recovery) {
+                        boss.state = 'idle';
+                        boss.animFrame = 0;
+                        if (bossBehavior === 'kowtow') boss.attackCooldown = 0; 
+                    }
+                }
+          }
+          else if (boss.state === 'roar') {
+                updateRoar(sim, boss, def);
+          }
+          else if (boss.state === 'stagger') {
+                boss.vx *= 0.9;
+                if (boss.staggerTimer && boss.staggerTimer > 0) boss.staggerTimer--;
+                if (!boss.staggerTimer) {
+                    boss.state = 'idle';
+                    boss.animFrame = 0;
+                    boss.poise = 0;
+                    emitPoise(sim, boss);
+                }
+          }
+          else if (boss.state !== 'hit') {
+                if (boss.state === 'jump_smash') {
+                    // Only land on the way down, not on the tick the leap starts
+                    if (boss.vy >= 0 && boss.pos.y + boss.height >= GROUND_Y) {
+                        // Landed: the move's frame data runs from here
+                        boss.state = 'attack'; 
+                        boss.moveTimer = 0;
+                        if (activeMove) {
+                            scheduleTimer(world, activeMove.startup + activeMove.active + activeMove.recovery, { type: 'end_state', target: 'boss', from: 'attack', to: 'idle' }, 'boss');
+                        }
+                    }
+                }
+                else if (bossBehavior === 'normal' && boss.state !== 'attack') {
+                    updateBossMovement(boss, movement, distance);
+                }
+
+                if (boss.state === 'attack' && activeMove && activeMove.kind === 'leap') {
+                    updateBossMove(sim, boss, activeMove);
+                }
+            } else if (boss.state === 'hit') {
+                boss.vx *= 0.9;
+                if (Math.abs(boss.vx) < 0.1) boss.state = 'idle';
+                if (boss.state === 'hit' && boss.animTimer > 20) {
+                    boss.state = 'idle';
+                }
+            }
+          
+            // Physics Calculation (Moved to else block to freeze on immobilize)
+            if (boss.attackCooldown > 0) boss.attackCooldown--;
+            tickMoveCooldowns(boss);
+            boss.vy += GRAVITY;
+            boss.pos.x += boss.vx;
+            boss.pos.y += boss.vy;
+            
+            if (boss.pos.y + boss.height > GROUND_Y) {
+                boss.pos.y = GROUND_Y - boss.height;
+                boss.vy = 0;
+            }
+            boss.pos.x = Math.max(0, Math.min(boss.pos.x, ARENA_WIDTH - boss.width));
+
+            // Animation Update (Moved to else block to freeze on immobilize)
+            const isPerformingMove = boss.state === 'kowtow_attack' || boss.state === 'cast' || boss.state === 'jump_smash' || boss.state === 'attack';
+            if (isPerformingMove || boss.state === 'roar') boss.moveTimer = (boss.moveTimer || 0) + 1;
+
+            const performedMove = getBossMove(def, boss.moveId);
+            let bossAnimSpeed = 10;
+            if (isPerformingMove && performedMove) bossAnimSpeed = performedMove.animSpeed;
+            if (boss.state === 'hit') bossAnimSpeed = 5;
+            if (bossBehavior === 'patrol') bossAnimSpeed = 8;
+            
+            boss.animTimer++;
+            if (boss.animTimer > bossAnimSpeed) {
+                boss.animFrame++;
+                boss.animTimer = 0;
+            }
+
+            updateTelegraph(sim, boss);
+      }
+    }
+      
+    if (boss.health <= 0 && !boss.isDead) {
+        if (infiniteHealth) {
+             // Already handled in collision, but safe fallback check
+             boss.health = boss.maxHealth;
+             sim.events.push({ type: 'health', target: 'boss', health: boss.maxHealth });
+        } else {
+            boss.isDead = true;
+            setOutcome(sim, GameState.VICTORY);
+        }
+    }
+};
+
+// --- 3. Minor Enemies ---
+const startEnemyAttack = (enemy: Entity, attack: EnemyAttackDefinition) => {
+    enemy.state = 'attack';
+    enemy.moveTimer = 0;
+    enemy.hasDealtDamage = false;
+    enemy.animFrame = 0;
+    enemy.animTimer = 0;
+    enemy.vx = 0;
+    enemy.attackCooldown = attack.startup + attack.active + attack.recovery + attack.cooldown;
+};
+
+const updateEnemyAttack = (sim: SimContext, enemy: Entity, attack: EnemyAttackDefinition) => {
+    const { world } = sim;
+    const moveTimer = enemy.moveTimer || 0;
+    const dir = enemy.facingRight ? 1 : -1;
+
+    if (moveTimer === attack.startup) {
+        if (attack.lunge) enemy.vx = dir * attack.lunge;
+        if (attack.projectile) {
+            fireEnemyProjectile(sim, enemy, attack.projectile, attack.damage);
+        } else {
+            const strikeX = enemy.pos.x + enemy.width / 2 + dir * (attack.hitbox?.offsetX || 0);
+            createParticles(world, strikeX, enemy.pos.y + enemy.height / 2, attack.color, 6, 4);
+            playSound(sim, 'attack_light');
+        }
+    }
+    if (!enemy.hasDealtDamage) resolveBossStrike(sim, enemy, getEnemyHitboxes(enemy, attack, world.player), attack);
+
+    enemy.vx *= 0.85;
+    enemy.moveTimer = moveTimer + 1;
+    if (enemy.moveTimer >= attack.startup + attack.active + attack.recovery) {
+        enemy.state = 'idle';
+        enemy.animFrame = 0;
+    }
+};
+
+// Close in (or back off) to the preferred spacing and attack whenever the player is in range
+const runEnemyAI = (enemy: Entity, def: EnemyDefinition, targetX: number) => {
+    const dx = targetX - (enemy.pos.x + enemy.width / 2);
+    const distance = Math.abs(dx);
+    if (distance > def.aggroRange) {
+        enemy.state = 'idle';
+        enemy.vx *= FRICTION;
+        return;
+    }
+
+    enemy.facingRight = dx > 0;
+    if (enemy.attackCooldown <= 0 && distance <= def.attack.range) {
+        startEnemyAttack(enemy, def.attack);
+        return;
+    }
+
+    const dir = enemy.facingRight ? 1 : -1;
+    if (distance > def.preferredDistance + def.tolerance) {
+        enemy.state = 'run';
+        enemy.vx = dir * def.moveSpeed;
+    } else if (distance < def.preferredDistance - def.tolerance) {
+        enemy.state = 'run';
+        enemy.vx = -dir * def.moveSpeed;
+    } else {
+        enemy.state = 'idle';
+        enemy.vx *= FRICTION;
+    }
+};
+
+const updateEnemy = (sim: SimContext, enemy: Entity, def: EnemyDefinition) => {
+    const { world } = sim;
+    const player = world.player;
+
+    const isSlowedTick = isTimeSlowed(enemy);
+    if (enemy.bulletTime && enemy.bulletTime > 0) enemy.bulletTime--;
+    if (enemy.flashTimer && enemy.flashTimer > 0) enemy.flashTimer--;
+    if (isSlowedTick) return;
+    if (enemy.hitStop > 0) {
+        enemy.hitStop--;
+        return;
+    }
+    if (enemy.isImmobilized) {
+        if (enemy.immobilizeTimer && enemy.immobilizeTimer > 0) enemy.immobilizeTimer--;
+        else enemy.isImmobilized = false;
+        return;
+    }
+    if (enemy.attackCooldown > 0) enemy.attackCooldown--;
+
+    if (enemy.state === 'hit') {
+        enemy.vx *= 0.85;
+        if (enemy.animFrame >= 3) enemy.state = 'idle';
+    } else if (enemy.state === 'attack') {
+        updateEnemyAttack(sim, enemy, def.attack);
+    } else if (!player.isDead) {
+        // Cloud Step: minor enemies are fooled by the decoy too
+        const targetX = world.decoy ? world.decoy.pos.x + player.width / 2 : player.pos.x + player.width / 2;
+        runEnemyAI(enemy, def, targetX);
+    } else {
+        enemy.state = 'idle';
+        enemy.vx *= FRICTION;
+    }
+
+    enemy.vy += GRAVITY;
+    enemy.pos.x += enemy.vx;
+    enemy.pos.y += enemy.vy;
+    if (enemy.pos.y + enemy.height > GROUND_Y) {
+        enemy.pos.y = GROUND_Y - enemy.height;
+        enemy.vy = 0;
+    }
+    enemy.pos.x = Math.max(0, Math.min(enemy.pos.x, ARENA_WIDTH - enemy.width));
+
+    enemy.animTimer++;
+    if (enemy.animTimer > (enemy.state === 'hit' ? 5 : 10)) {
+        enemy.animFrame++;
+        enemy.animTimer = 0;
+    }
+};
+
+// Death burst, then the enemy's Will scatters as orbs the player has to walk over
+const killEnemy = (sim: SimContext, enemy: Entity, def: EnemyDefinition) => {
+    const { world } = sim;
+    const cx = enemy.pos.x + enemy.width / 2;
+    const cy = enemy.pos.y + enemy.height / 2;
+    enemy.isDead = true;
+    playSound(sim, 'enemy_death');
+    createParticles(world, cx, cy, def.palette.body, 25, 10);
+    createParticles(world, cx, cy, '#e5e7eb', 10, 6);
+
+    const orbs = Math.max(1, Math.round(def.will / WILL_ORB_VALUE));
+    for (let i = 0; i < orbs; i++) {
+        world.drops.push({
+            x: cx,
+            y: cy,
+            vx: (gameplayRandom(world) - 0.5) * 6,
+            vy: -4 - gameplayRandom(world) * 4,
+            amount: def.will / orbs,
+            life: WILL_DROP_LIFE
+        });
+    }
+};
+
+const updateEnemies = (sim: SimContext) => {
+    const { world } = sim;
+    for (const enemy of world.enemies) {
+        const def = getEnemyDefinition(enemy.defId);
+        if (enemy.type !== 'enemy' || !def || enemy.isDead) continue;
+
+        if (enemy.health > 0) updateEnemy(sim, enemy, def);
+        if (enemy.health <= 0) {
+            if (sim.params.infiniteHealth) {
+                enemy.health = enemy.maxHealth;
+                sim.events.push({ type: 'health', target: 'enemy', health: enemy.health });
+            } else {
+                killEnemy(sim, enemy, def);
+            }
+        }
+    }
+    world.enemies = world.enemies.filter(enemy => !enemy.isDead || enemy === world.boss);
+};
+
+const spawnSection = (sim: SimContext, section: ArenaSection) => {
+    const { world } = sim;
+    section.spawns.forEach((spawn, i) => {
+        const def = getEnemyDefinition(spawn.enemyId);
+        if (!def) return;
+        const enemy = createEnemyFromDefinition(def, `${section.id}_${i}`, spawn.x);
+        // Stagger the opening attacks so a wave doesn't strike in unison
+        enemy.attackCooldown = Math.floor(def.attack.cooldown * (0.5 + gameplayRandom(world)));
+        world.enemies.push(enemy);
+        createParticles(world, spawn.x + def.width / 2, GROUND_Y - def.height / 2, '#44403c', 15, 5);
+    });
+};
+
+// Each section spawns once the previous one is cleared; after the last, the boss arrives
+const updateSections = (sim: SimContext) => {
+    const { world } = sim;
+    const chapter = getChapterDefinition(world.chapterId);
+    if (!chapter || world.boss || world.enemies.some(enemy => !enemy.isDead)) return;
+    if (world.sectionTimer > 0) {
+        world.sectionTimer--;
+        return;
+    }
+
+    if (world.sectionIndex < chapter.sections.length) {
+        spawnSection(sim, chapter.sections[world.sectionIndex]);
+        world.sectionIndex++;
+    } else {
+        const boss = createBoss(world.bossId);
+        world.boss = boss;
+        world.enemies.push(boss);
+        playSound(sim, 'roar');
+        world.shake = 15;
+        createParticles(world, boss.pos.x + boss.width / 2, GROUND_Y - 10, '#44403c', 30, 10);
+        sim.events.push({ type: 'boss_arrived' });
+    }
+    world.sectionTimer = SECTION_INTERLUDE;
+};
+
+// Will orbs fall, drift toward a nearby player and are banked on contact
+const updateDrops = (sim: SimContext) => {
+    const { world } = sim;
+    const player = world.player;
+    const px = player.pos.x + player.width / 2;
+    const py = player.pos.y + player.height / 2;
+
+    for (let i = world.drops.length - 1; i >= 0; i--) {
+        const drop = world.drops[i];
+        const dx = px - drop.x;
+        const dy = py - drop.y;
+        const dist = Math.hypot(dx, dy);
+
+        if (!player.isDead && dist < WILL_PICKUP_RADIUS) {
+            world.will += drop.amount;
+            world.drops.splice(i, 1);
+            sim.events.push({ type: 'will', total: Math.round(world.will) });
+            playSound(sim, 'will');
+            continue;
+        }
+
+        if (!player.isDead && dist < WILL_MAGNET_RADIUS) {
+            drop.vx = drop.vx * 0.85 + (dx / dist) * 1.2;
+            drop.vy = drop.vy * 0.85 + (dy / dist) * 1.2;
+        } else {
+            drop.vx *= 0.95;
+            drop.vy += GRAVITY * 0.5;
+        }
+        drop.x += drop.vx;
+        drop.y += drop.vy;
+        if (drop.y > GROUND_Y - 6) {
+            drop.y = GROUND_Y - 6;
+            drop.vy = 0;
+        }
+
+        drop.life--;
+        if (drop.life <= 0) world.drops.splice(i, 1);
+    }
+};
+
+// --- 4. Particles ---
+const updateParticles = (world: WorldState) => {
+    for (let i = world.afterimages.length - 1; i >= 0; i--) {
+      world.afterimages[i].life -= 0.04;
+      if (world.afterimages[i].life <= 0) world.afterimages.splice(i, 1);
+    }
+
+    for (let i = world.particles.length - 1; i >= 0; i--) {
+      const p = world.particles[i];
+      p.x += p.vx;
+      p.y += p.vy;
+      p.life -= 0.05;
+      if (p.life <= 0) world.particles.splice(i, 1);
+    }
+
+    if (cosmeticRandom(world) < 0.1) {
+         world.particles.push({
+            x: world.cameraX + cosmeticRandom(world) * 800,
+            y: cosmeticRandom(world) * 450,
+            vx: (cosmeticRandom(world) - 0.5) * 0.5,
+            vy: -cosmeticRandom(world) * 1,
+            life: 2.0,
+            color: '#4b5563', 
+            size: cosmeticRandom(world) * 2
+         });
+    }
+};
+
+// --- 5. Camera ---
+const updateCamera = (world: WorldState) => {
+    const player = world.player;
+    const focus = getLockTarget(world) || world.boss; // Frame the locked-on target, else the boss
+
+    let targetCamX = player.pos.x - 150;
+    const VIEWPORT_W = LOGICAL_WIDTH;
+    
+    if (focus && !focus.isDead) {
+        const dist = Math.abs(focus.pos.x - player.pos.x);
+        if (dist < VIEWPORT_W) {
+            const midX = (player.pos.x + focus.pos.x) / 2;
+            const idealCamX = midX - VIEWPORT_W / 2;
+            const MARGIN = 150;
+            const minCamX = player.pos.x - (VIEWPORT_W - MARGIN); 
+            const maxCamX = player.pos.x - MARGIN;                
+            targetCamX = Math.max(minCamX, Math.min(idealCamX, maxCamX));
+        }
+    }
+
+    world.cameraX += (targetCamX - world.cameraX) * 0.1;
+    world.cameraX = Math.max(0, Math.min(world.cameraX, 600));
+
+    world.shakeOffset = {
+        x: (cosmeticRandom(world) - 0.5) * world.shake,
+        y: (cosmeticRandom(world) - 0.5) * world.shake
+    }; 
+};
+
+// --- Main Step ---
+// Advances the world by one fixed tick in place and returns it with the events it produced
+export const stepWorld = (world: WorldState, input: InputFrame, params: DebugParams): StepResult => {
+    const sim: SimContext = { world, input, params, events: [] };
+
+    if (world.shake > 0) world.shake *= 0.9;
+    if (world.shake < 0.5) world.shake = 0;
+
+    runTimers(world);
+
+    if (updatePlayer(sim)) {
+        updateBoss(sim);
+        updateEnemies(sim);
+        updateSections(sim);
+        updateProjectiles(sim);
+        updateSpellEffects(sim);
+
+        const { player } = world;
+        for (const enemy of world.enemies) {
+            if (!enemy.isDead && !player.isDead) resolveEntityCollision(player, enemy);
+        }
+
+        updateDrops(sim);
+        updateParticles(world);
+        updateCamera(world);
+    }
+
+    world.tick++;
+    return { world, events: sim.events };
+};
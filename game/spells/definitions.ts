@@ -0,0 +1,66 @@
+import { SpellDefinition } from '../../types';
+
+// Pins the boss in place; enough damage breaks it early (IMMOBILIZE_BREAK_THRESHOLD)
+export const IMMOBILIZE: SpellDefinition = {
+    id: 'immobilize',
+    name: 'Immobilize',
+    kind: 'immobilize',
+    cooldown: 30,
+    manaCost: 30,
+    duration: 300,
+    range: 600,
+    color: '#fbbf24',
+    icon: '定'
+};
+
+// Leaves a decoy the boss keeps fighting while the player turns invisible; attacking breaks it
+export const CLOUD_STEP: SpellDefinition = {
+    id: 'cloud_step',
+    name: 'Cloud Step',
+    kind: 'cloud_step',
+    cooldown: 600,
+    manaCost: 40,
+    duration: 180,
+    color: '#e0f2fe',
+    icon: '云'
+};
+
+// Burning circle on the ground that pulses damage into the boss
+export const RING_OF_FIRE: SpellDefinition = {
+    id: 'ring_of_fire',
+    name: 'Ring of Fire',
+    kind: 'ring_of_fire',
+    cooldown: 720,
+    manaCost: 50,
+    duration: 360,
+    radius: 140,
+    damage: 6,
+    interval: 20,
+    color: '#f97316',
+    icon: '火'
+};
+
+// Stone stance: the next strike inside the window is deflected from any side
+export const ROCK_SOLID: SpellDefinition = {
+    id: 'rock_solid',
+    name: 'Rock Solid',
+    kind: 'rock_solid',
+    cooldown: 300,
+    manaCost: 25,
+    duration: 30,
+    color: '#a8a29e',
+    icon: '石'
+};
+
+// Turns the player into Red Tides until the form's gauge runs out (see game/transformations)
+export const RED_TIDES_SPELL: SpellDefinition = {
+    id: 'red_tides',
+    name: 'Red Tides',
+    kind: 'transform',
+    cooldown: 1800,
+    manaCost: 60,
+    duration: 0, // The form's gauge decides how long it lasts
+    transformId: 'red_tides',
+    color: '#ef4444',
+    icon: '赤'
+};
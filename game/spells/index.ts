@@ -0,0 +1,51 @@
+import { Entity, SpellDefinition, SpellSlotHud } from '../../types';
+import { DebugParams } from '../debugParams';
+import { CLOUD_STEP, IMMOBILIZE, RED_TIDES_SPELL, RING_OF_FIRE, ROCK_SOLID } from './definitions';
+
+// Registry of every spell the player can slot. Effects live in the simulation and
+// are picked by SpellDefinition.kind; the numbers live here.
+
+const SPELLS: Record<string, SpellDefinition> = {
+    [IMMOBILIZE.id]: IMMOBILIZE,
+    [CLOUD_STEP.id]: CLOUD_STEP,
+    [RING_OF_FIRE.id]: RING_OF_FIRE,
+    [ROCK_SOLID.id]: ROCK_SOLID,
+    [RED_TIDES_SPELL.id]: RED_TIDES_SPELL
+};
+
+// Debug params that override each spell's mana cost while tuning
+type ManaCostParam = 'immobilizeCost' | 'cloudStepCost' | 'ringOfFireCost' | 'rockSolidCost' | 'redTidesCost';
+
+const MANA_COST_PARAMS: Record<string, ManaCostParam> = {
+    [IMMOBILIZE.id]: 'immobilizeCost',
+    [CLOUD_STEP.id]: 'cloudStepCost',
+    [RING_OF_FIRE.id]: 'ringOfFireCost',
+    [ROCK_SOLID.id]: 'rockSolidCost',
+    [RED_TIDES_SPELL.id]: 'redTidesCost'
+};
+
+export const SPELL_SLOT_COUNT = 4;
+
+// Slot order matches the spell keys (I / 1, 2, 3, 4)
+export const DEFAULT_SPELL_LOADOUT: string[] = [IMMOBILIZE.id, CLOUD_STEP.id, RING_OF_FIRE.id, ROCK_SOLID.id];
+
+// Transformations sit in their own slot (T), after the spell slots
+export const DEFAULT_TRANSFORM_SPELL = RED_TIDES_SPELL.id;
+
+export const getSpellIds = (): string[] => Object.keys(SPELLS);
+
+export const getSpellDefinition = (id: string): SpellDefinition | undefined => SPELLS[id];
+
+export const getSpellManaCost = (spell: SpellDefinition, params: DebugParams): number => {
+    const param = MANA_COST_PARAMS[spell.id];
+    return param ? params[param] : spell.manaCost;
+};
+
+export const getSpellCooldown = (player: Entity, id: string): number => player.spellCooldowns?.[id] || 0;
+
+export const getSpellSlots = (player: Entity): SpellSlotHud[] =>
+    [...(player.spellLoadout || []), ...(player.transformSpell ? [player.transformSpell] : [])].flatMap(id => {
+        const def = SPELLS[id];
+        if (!def) return [];
+        return [{ id, name: def.name, icon: def.icon, color: def.color, cooldown: getSpellCooldown(player, id), maxCooldown: def.cooldown }];
+    });
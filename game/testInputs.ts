@@ -0,0 +1,17 @@
+import { INPUT_BITS } from './input';
+import { createRng, nextRandom } from './rng';
+
+// Shared by the simulation and replay tests: button mashing from its own PRNG, so
+// every run presses the same buttons. Covers every bit, including ones added later
+const BUTTON_MASK = (1 << INPUT_BITS.length) - 1;
+
+export const mashInputs = (seed: number, ticks: number): number[] => {
+    const rng = createRng(seed);
+    const inputs: number[] = [];
+    let bits = 0;
+    for (let tick = 0; tick < ticks; tick++) {
+        if (tick % 6 === 0) bits = Math.floor(nextRandom(rng, 'gameplay') * (BUTTON_MASK + 1)) & Math.floor(nextRandom(rng, 'gameplay') * (BUTTON_MASK + 1));
+        inputs.push(bits);
+    }
+    return inputs;
+};
@@ -0,0 +1,16 @@
+import { TransformationDefinition, TransformMoveDefinition } from '../../types';
+import { RED_TIDES } from './redTides';
+
+// Registry of every form a transformation spell can turn the player into.
+// The simulation runs a transformed player from these tables instead of the base moveset.
+
+const TRANSFORMATIONS: Record<string, TransformationDefinition> = {
+    [RED_TIDES.id]: RED_TIDES
+};
+
+export const getTransformation = (id: string | null | undefined): TransformationDefinition | undefined =>
+    id ? TRANSFORMATIONS[id] : undefined;
+
+// Looks through the combo chain and the heavy
+export const getTransformMove = (form: TransformationDefinition, moveId: string | undefined): TransformMoveDefinition | undefined =>
+    [...form.combo, form.heavy].find(move => move.id === moveId);
@@ -0,0 +1,81 @@
+import { TransformationDefinition } from '../../types';
+
+// Red Boy's fire form: quick burning jabs into an open palm, and a flame burst around the body on K.
+// Light on its feet but fragile; every hit taken burns a big chunk of the gauge.
+export const RED_TIDES: TransformationDefinition = {
+    id: 'red_tides',
+    name: 'Red Tides',
+    gauge: 600,
+    drainPerDamage: 6,
+    exitVulnerability: 45,
+    moveSpeed: 1.4,
+    maxSpeed: 6,
+    combo: [
+        {
+            id: 'flame_jab',
+            startup: 3,
+            active: 3,
+            recovery: 8,
+            damage: 14,
+            poise: 6,
+            stun: 4,
+            shake: 3,
+            knockback: 2,
+            lunge: 3,
+            interrupt: false,
+            hitbox: { offsetX: 30, reach: 40, height: 60 },
+            color: '#fb923c'
+        },
+        {
+            id: 'flame_hook',
+            startup: 4,
+            active: 3,
+            recovery: 10,
+            damage: 18,
+            poise: 8,
+            stun: 6,
+            shake: 4,
+            knockback: 3,
+            lunge: 4,
+            interrupt: false,
+            hitbox: { offsetX: 35, reach: 45, height: 60 },
+            color: '#f97316'
+        },
+        {
+            id: 'fire_palm',
+            startup: 8,
+            active: 4,
+            recovery: 18,
+            damage: 30,
+            poise: 14,
+            stun: 10,
+            shake: 8,
+            knockback: 8,
+            lunge: 6,
+            interrupt: true,
+            hitbox: { offsetX: 55, reach: 55, height: 70 },
+            color: '#ef4444'
+        }
+    ],
+    heavy: {
+        id: 'flame_burst',
+        startup: 16,
+        active: 6,
+        recovery: 24,
+        damage: 55,
+        poise: 30,
+        stun: 15,
+        shake: 15,
+        knockback: 12,
+        lunge: 0,
+        interrupt: true,
+        hitbox: { offsetX: 0, reach: 110, height: 90 },
+        color: '#fde047'
+    },
+    palette: {
+        body: '#b91c1c',
+        accent: '#f97316',
+        hair: '#fde047',
+        glow: '#fb923c'
+    }
+};
@@ -0,0 +1,8 @@
+import { BossDefinition } from "../types";
+import { parseBossDefinition } from "../game/bosses";
+
+// Reads and validates a boss definition chosen through a file input
+export const readBossFile = async (file: File): Promise<BossDefinition> => {
+  const text = await file.text();
+  return parseBossDefinition(text);
+};
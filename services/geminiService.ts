@@ -1,5 +1,6 @@
 import { GoogleGenAI, Type } from "@google/genai";
 import { LevelData } from "../types";
+import { DEFAULT_CHAPTER_ID } from "../game/chapters";
 
 const apiKey = process.env.API_KEY || '';
 const ai = new GoogleGenAI({ apiKey });
@@ -11,7 +12,8 @@ export const generateLevelLore = async (): Promise<LevelData> => {
       chapterTitle: "第一回: 黑风山",
       introText: "三界四洲，万物有灵。昔日大圣以此为家，如今只余焦土与哀鸣。风起之处，必有妖邪。",
       bossName: "黑风大王",
-      bossDescription: "占据黑风洞的黑熊精，贪婪成性，力大无穷，曾觊觎锦襕袈裟。"
+      bossDescription: "占据黑风洞的黑熊精，贪婪成性，力大无穷，曾觊觎锦襕袈裟。",
+      chapterId: DEFAULT_CHAPTER_ID
     };
   }
 
@@ -36,7 +38,8 @@ export const generateLevelLore = async (): Promise<LevelData> => {
 
     const text = response.text;
     if (!text) throw new Error("No response from Gemini");
-    return JSON.parse(text) as LevelData;
+    // The lore is generated; the fight layout is authored
+    return { ...JSON.parse(text), chapterId: DEFAULT_CHAPTER_ID } as LevelData;
 
   } catch (error) {
     console.error("Gemini API Error:", error);
@@ -45,7 +48,8 @@ export const generateLevelLore = async (): Promise<LevelData> => {
       chapterTitle: "第一回: 花果山",
       introText: "迷雾遮蔽了归途，同族的呼唤在山谷回荡。你必须重拾天命，哪怕前路是万丈深渊。",
       bossName: "石先锋",
-      bossDescription: "上古灵石化作的巨怪，坚不可摧，守护着古老的秘密。"
+      bossDescription: "上古灵石化作的巨怪，坚不可摧，守护着古老的秘密。",
+      chapterId: DEFAULT_CHAPTER_ID
     };
   }
 };
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { DebugPreset, parsePreset, serializePreset } from "../game/debugPresets";
+
+const STORAGE_KEY = "wukong-debug-presets";
+
+// Loads the saved presets, skipping any entry that no longer parses
+export const loadPresets = (): DebugPreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap((entry: unknown) => {
+      try {
+        return [parsePreset(JSON.stringify(entry))];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+};
+
+export const savePresets = (presets: DebugPreset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
+
+// Saves a preset as a .json download
+export const downloadPreset = (preset: DebugPreset) => {
+  const blob = new Blob([serializePreset(preset)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const slug = preset.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "preset";
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `wukong-preset-${slug}.json`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Reads and validates a preset chosen through a file input
+export const readPresetFile = async (file: File): Promise<DebugPreset> => {
+  const text = await file.text();
+  return parsePreset(text);
+};
+
+export const copyPresetToClipboard = (preset: DebugPreset): Promise<void> =>
+  navigator.clipboard.writeText(serializePreset(preset));
@@ -0,0 +1,26 @@
+import { Replay, parseReplay, serializeReplay } from "../game/replay";
+import { isBuiltInBoss } from "../game/bosses";
+
+// Saves a replay as a .json download. Only the boss id is stored, so fights against
+// an imported boss couldn't be played back once the session ends
+export const downloadReplay = (replay: Replay) => {
+  if (!isBuiltInBoss(replay.bossId)) {
+    throw new Error(`Replays against the imported boss "${replay.bossId}" can't be exported: the boss is only loaded for this session`);
+  }
+  const blob = new Blob([serializeReplay(replay)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const stamp = replay.recordedAt.replace(/[:.]/g, "-") || "replay";
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `wukong-replay-${stamp}.json`;
+  link.click();
+  // Some browsers start the download after click() returns, so the URL has to outlive this tick
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Reads and validates a replay chosen through a file input
+export const readReplayFile = async (file: File): Promise<Replay> => {
+  const text = await file.text();
+  return parseReplay(text);
+};
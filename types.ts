@@ -3,8 +3,10 @@ export enum GameState {
   MENU = 'MENU',
   LOADING = 'LOADING', // Generating story
   PLAYING = 'PLAYING',
+  PAUSED = 'PAUSED', // Fight frozen behind the pause menu
   GAME_OVER = 'GAME_OVER',
-  VICTORY = 'VICTORY'
+  VICTORY = 'VICTORY',
+  REPLAY = 'REPLAY' // Watching a recorded fight
 }
 
 export interface Position {
@@ -25,7 +27,7 @@ export interface Entity {
   isDead: boolean;
   facingRight: boolean;
   type: 'player' | 'enemy' | 'boss';
-  state: 'idle' | 'run' | 'jump' | 'fall' | 'attack' | 'air_attack' | 'heavy_attack' | 'dodge' | 'hit' | 'jump_smash' | 'standoff' | 'kowtow_attack' | 'plunge' | 'plunge_end' | 'sheathe_charge' | 'setsugekka';
+  state: 'idle' | 'run' | 'jump' | 'fall' | 'attack' | 'air_attack' | 'heavy_attack' | 'dodge' | 'hit' | 'jump_smash' | 'standoff' | 'kowtow_attack' | 'plunge' | 'plunge_end' | 'sheathe_charge' | 'setsugekka' | 'roar' | 'parry' | 'stagger' | 'drink' | 'rock_solid' | 'transform_attack' | 'transform_exit' | 'cast';
   attackCooldown: number;
   dodgeCooldown: number;
   chargeTimer: number; // For heavy attack calculation
@@ -38,17 +40,79 @@ export interface Entity {
   hitStop: number; // Frames to freeze this entity for impact effect
   flashTimer?: number; // Frames to render the entity as pure white (Visual only)
   
+  // Spells (player)
+  spellLoadout?: string[]; // SpellDefinition ids, one per slot
+  spellCooldowns?: Record<string, number>; // Ticks left, by spell id
+  rockSolidTimer?: number; // Ticks left in the Rock Solid stance
+  mana?: number;
+  maxMana?: number;
+
+  // Transformation (player)
+  transformSpell?: string; // Transformation SpellDefinition id, cast with T
+  transformId?: string | null; // TransformationDefinition currently assumed
+  transformGauge?: number; // Ticks of form left; damage taken drains it too
+
   // New Props for Immobilize Mechanic
-  spellCooldown?: number;
   isImmobilized?: boolean;
   immobilizeTimer?: number;
   immobilizeDamageTaken?: number; // Tracks cumulative damage during immobilization
 
   // New Props for Tech Attack
   techCooldown?: number;
+  throwCooldown?: number; // Ticks before U can throw the staff again
   
   // New Props for Setsugekka
   sheatheTimer?: number;
+
+  // Data-driven bosses (see game/bosses)
+  defId?: string; // BossDefinition this entity was built from
+  moveId?: string; // BossMoveDefinition (or TransformMoveDefinition) currently being performed
+  moveTimer?: number; // Ticks since the current move started
+  phaseIndex?: number; // 0 = base definition, n = BossDefinition.phases[n - 1]
+  isInvulnerable?: boolean; // Ignores all incoming hits (phase transitions)
+  aiAction?: BossMovementAction; // Footwork the boss AI last chose
+  aiTimer?: number; // Ticks until the boss AI re-evaluates
+  moveCooldowns?: Record<string, number>; // Ticks until each boss move can be picked again, by move id
+  telegraphCued?: boolean; // The current move's warning has already sounded
+
+  // Perfect Dodge
+  dodgeFrame?: number; // Ticks since the current dodge started
+  bulletTime?: number; // Ticks of slow motion left (see DODGE_PERFECT_TIME_SCALE)
+
+  // Parry / Counter
+  parryFrame?: number; // Ticks since the current parry started
+  parryCooldown?: number;
+  counterWindow?: number; // Ticks left in which the next hit is a bonus counter attack
+
+  // Stamina (player)
+  stamina?: number;
+  maxStamina?: number;
+  staminaRegenDelay?: number; // Ticks until stamina starts refilling
+  isExhausted?: boolean; // Ran dry: refills slowly until STAMINA_EXHAUSTED_RECOVERY
+  isSprinting?: boolean;
+
+  // Healing Gourd (player)
+  gourdCharges?: number;
+  maxGourdCharges?: number;
+  drinkTimer?: number; // Ticks since the current drink started
+
+  // Staff Stance (player)
+  stance?: StaffStance;
+  stanceCooldown?: number; // Ticks before Q can switch stance again
+  pillarTimer?: number; // Ticks since a Pillar heavy started climbing the staff
+
+  // Lock-On (player)
+  lockTargetId?: string | null; // Entity id in world.enemies the player is tracking
+  lockOnCooldown?: number; // Ticks before E can cycle targets again
+
+  // Focus (player)
+  focus?: number; // Fractional Focus pips, up to FOCUS_MAX_PIPS
+  focusSpent?: number; // Pips poured into the current heavy attack
+
+  // Poise (bosses)
+  poise?: number; // Accumulated poise damage; the boss staggers when it reaches its max
+  poiseRecoveryDelay?: number; // Ticks before poise starts draining again
+  staggerTimer?: number;
 }
 
 export interface Particle {
@@ -61,9 +125,472 @@ export interface Particle {
   size: number;
 }
 
+export type SoundType =
+  'jump' | 'dash' | 'attack_light' | 'attack_heavy' | 'hit' | 'block' | 'charge' | 'spell' | 'hit_heavy' | 'break_spell' |
+  'counter' | 'counter_hit' | 'sheathe_charge' | 'setsu_slash' | 'getsu_slash' | 'ka_slash' | 'roar' | 'perfect_dodge' | 'poise_break' | 'drink' | 'cloud_step' | 'fire_ring' | 'spell_fail' | 'transform' | 'transform_end' | 'stance' | 'lock_on' | 'enemy_death' | 'will' | 'throw' | 'telegraph';
+
+// Picks the heavy attack and the light combo finisher
+export type StaffStance = 'smash' | 'pillar' | 'thrust';
+
+// One fixed tick of player intent, decoupled from the physical key layout
+export interface InputFrame {
+  left: boolean;
+  right: boolean;
+  jump: boolean;
+  attack: boolean;
+  dodge: boolean;
+  spell: boolean;
+  tech: boolean;
+  setsu: boolean;
+  parry: boolean;
+  heal: boolean;
+  spell2: boolean;
+  spell3: boolean;
+  spell4: boolean;
+  transform: boolean;
+  stance: boolean;
+  lockOn: boolean;
+  throwStaff: boolean;
+}
+
+// --- Spells ---
+export type SpellKind = 'immobilize' | 'cloud_step' | 'ring_of_fire' | 'rock_solid' | 'transform';
+
+export interface SpellDefinition {
+  id: string;
+  name: string;
+  kind: SpellKind;
+  cooldown: number; // Ticks before the slot can be cast again
+  manaCost: number;
+  duration: number; // Ticks the effect lasts
+  range?: number; // Immobilize: max distance to the boss
+  radius?: number; // Ring of Fire: zone radius
+  damage?: number; // Ring of Fire: damage per pulse
+  interval?: number; // Ring of Fire: ticks between pulses
+  transformId?: string; // Transformation: TransformationDefinition to assume
+  color: string; // Effect and HUD icon colour
+  icon: string; // Glyph shown in the HUD slot
+}
+
+// Ring of Fire and any future lingering area spell
+export interface SpellZone {
+  spellId: string;
+  x: number; // Centre, on the ground
+  life: number; // Ticks left
+  pulseTimer: number; // Ticks until the next damage pulse
+}
+
+// Cloud Step stand-in the boss keeps attacking while the player is invisible
+export interface Decoy {
+  pos: Position;
+  facingRight: boolean;
+  life: number; // Ticks left
+}
+
+// One HUD spell slot
+export interface SpellSlotHud {
+  id: string;
+  name: string;
+  icon: string;
+  color: string;
+  cooldown: number;
+  maxCooldown: number;
+}
+
+// --- Transformations ---
+// One swing of a transformed form. Timing and hitbox follow the same layout as BossMoveDefinition
+export interface TransformMoveDefinition {
+  id: string;
+  startup: number;
+  active: number;
+  recovery: number;
+  damage: number;
+  poise: number;
+  stun: number; // Hitstop on both fighters
+  shake: number;
+  knockback: number; // Applied to the boss, away from the player
+  lunge: number; // Forward speed when the move starts
+  interrupt: boolean; // Knocks the boss into its hit state
+  hitbox: { offsetX: number; reach: number; height: number };
+  color: string; // Hit sparks and swing effect
+}
+
+export interface TransformPalette {
+  body: string;
+  accent: string;
+  hair: string;
+  glow: string;
+}
+
+export interface TransformationDefinition {
+  id: string;
+  name: string;
+  gauge: number; // Ticks the form lasts if it never gets hit
+  drainPerDamage: number; // Gauge lost per point of damage; the form soaks hits instead of health
+  exitVulnerability: number; // Ticks stuck reverting once the gauge runs dry
+  moveSpeed: number;
+  maxSpeed: number;
+  combo: TransformMoveDefinition[]; // Attack (J) chain, in order
+  heavy: TransformMoveDefinition; // Tech (K)
+  palette: TransformPalette;
+}
+
+// What the HUD shows of the transformation gauge
+export interface TransformMeter {
+  name: string | null; // Null while in the base form
+  gauge: number;
+  max: number;
+}
+
+// Fading copy of the player left behind by a perfect dodge
+export interface Afterimage {
+  entity: Entity;
+  life: number;
+}
+
+export interface Combo4Trail {
+  angle: number;
+  life: number;
+  length?: number;
+}
+
+// --- Boss Definitions ---
+// Plain data so new bosses can be authored as TS objects or loaded from JSON.
+// All frame counts are fixed simulation ticks (60 per second).
+
+// slam: grounded strike that lands after `startup` ticks (state 'kowtow_attack')
+// leap: jumps toward the player and strikes on landing (state 'jump_smash')
+export type BossMoveKind = 'slam' | 'leap' | 'projectile';
+
+export interface BossHitbox {
+  offsetX: number; // Centre of the strike, measured from the boss centre toward its facing
+  reach: number; // Horizontal distance from that centre to the victim's centre that still connects
+  height: number; // How far above the ground the player's feet may be and still get hit
+}
+
+// A hitbox for part of a move's active window, counted from its first active frame (inclusive)
+export interface BossHitboxFrame extends BossHitbox {
+  from: number;
+  to: number;
+}
+
+// ground: the struck area lights up on the floor; flash: the boss glints (for moves without a fixed area)
+export type BossTelegraphIndicator = 'ground' | 'flash';
+
+export interface BossTelegraph {
+  warning: number; // Ticks before the first active frame that the warning shows
+  indicator: BossTelegraphIndicator;
+  color?: string; // Defaults to the move's impactColor
+}
+
+// A warning currently on screen, resolved from the boss's move and position
+export interface ActiveTelegraph {
+  moveId: string;
+  indicator: BossTelegraphIndicator;
+  x: number; // Centre of the area that will be struck
+  reach: number;
+  color: string;
+  remaining: number; // Ticks until the hit comes out
+  progress: number; // 0 when the warning appears, 1 on the hit
+}
+
+export interface BossMoveDefinition {
+  id: string;
+  kind: BossMoveKind;
+  startup: number; // Ticks before the hitbox becomes active (leap: ticks after landing)
+  active: number;
+  recovery: number;
+  animSpeed: number; // Ticks per animation frame while performing the move
+  damage: number;
+  knockback: { x: number; y: number }; // x is applied away from the boss
+  hitStop: number; // Freeze applied to the player on hit
+  bossHitStop?: number; // Freeze applied to the boss on hit
+  shake: number;
+  cooldown: number; // Ticks from the start of the move before another can be chosen
+  repeatCooldown?: number; // Ticks from the start of the move before it can be chosen again (defaults to twice cooldown)
+  weight: number; // Relative chance of being picked among the moves in range
+  range: { min: number; max: number }; // Horizontal distance to the player where the move is considered
+  hitbox: BossHitbox; // Whole footprint of the move (AI range, telegraph); struck on every active frame without hitboxFrames
+  hitboxFrames?: BossHitboxFrame[]; // Per-frame strike layout inside the active window
+  leap?: { vx: number; vy: number };
+  projectile?: string; // ProjectileDefinition fired on the first active frame (projectile moves)
+  telegraph?: BossTelegraph;
+  impactColor: string;
+}
+
+export interface BossPalette {
+  body: string;
+  accent: string;
+  eyes: string;
+  airborne: string; // Body colour while leaping
+  immobilized: string;
+  immobilizedAccent: string;
+}
+
+export interface BossMovement {
+  preferredDistance: number; // Distance the boss circles at during standoff
+  tolerance: number;
+  retreatSpeed: number;
+  approachSpeed: number;
+  runAcceleration: number;
+  maxRunSpeed: number;
+  engageDistance: number; // Beyond this the boss runs in instead of walking
+}
+
+export interface BossPoise {
+  max: number;
+  recoveryDelay: number; // Ticks after the last poise hit before the meter drains
+  recoveryRate: number; // Poise drained per tick once recovering
+  staggerDuration: number; // Ticks the boss stays broken
+  staggerDamageMultiplier: number; // Damage taken while staggered
+}
+
+// What the HUD shows of the player's stamina
+export interface StaminaMeter {
+  stamina: number;
+  max: number;
+  exhausted: boolean;
+}
+
+export interface ManaMeter {
+  mana: number;
+  max: number;
+}
+
+// What the HUD shows of the boss's poise
+export interface BossPoiseMeter {
+  poise: number;
+  max: number;
+  staggered: boolean;
+}
+
+// Personality knobs for the utility AI (see game/bosses/ai.ts)
+export interface BossAIProfile {
+  decisionInterval: number; // Ticks between re-evaluations while not attacking
+  aggression: number; // Scales every attack score
+  caution: number; // Scales the urge to back off from an attacking player
+  randomness: number; // +/- fraction of jitter applied to each score
+}
+
+export type BossMovementAction = 'approach' | 'retreat' | 'hold' | 'idle';
+
+export interface BossDecisionOption {
+  label: string; // Move id or movement action
+  score: number;
+}
+
+// One AI evaluation, kept for the debug panel
+export interface BossDecision {
+  tick: number;
+  choice: string;
+  reasons: string[]; // Why the winning option scored what it did
+  options: BossDecisionOption[]; // Every option considered, best first
+}
+
+// Entered once health drops to `healthThreshold`; phases stack in order
+export interface BossPhaseDefinition {
+  id: string;
+  healthThreshold: number; // Fraction of max health (0-1)
+  speedMultiplier: number; // Scales movement speeds and leap velocity
+  moveWeights?: Record<string, number>; // Re-weights existing moves by id (0 disables)
+  addMoves?: BossMoveDefinition[]; // Moves unlocked by this phase
+  transitionDuration: number; // Invulnerable roar before the phase starts fighting
+  barColor: string; // Boss health bar colour in the HUD
+  palette?: Partial<BossPalette>;
+}
+
+export interface BossDefinition {
+  id: string;
+  name: string;
+  health: number;
+  width: number;
+  height: number;
+  spawn: Position;
+  initialCooldown: number;
+  barColor: string;
+  palette: BossPalette;
+  movement: BossMovement;
+  poise: BossPoise;
+  ai: BossAIProfile;
+  moves: BossMoveDefinition[];
+  phases?: BossPhaseDefinition[];
+}
+
+// --- Minor Enemies ---
+// A single attack with the same startup/active/recovery layout and hitbox as a boss move
+export interface EnemyAttackDefinition {
+  startup: number;
+  active: number;
+  recovery: number;
+  damage: number;
+  knockback: { x: number; y: number };
+  hitStop: number;
+  cooldown: number; // Ticks after the attack ends before the next one
+  range: number; // Starts the attack once the player is this close
+  lunge?: number; // Forward burst on the first active frame
+  hitbox?: BossHitbox; // Melee attacks
+  projectile?: string; // Ranged attacks: ProjectileDefinition fired on the first active frame
+  color: string; // Wind-up glint and impact sparks
+}
+
+export interface EnemyDefinition {
+  id: string;
+  name: string;
+  health: number;
+  width: number;
+  height: number;
+  palette: { body: string; accent: string; eyes: string };
+  moveSpeed: number;
+  aggroRange: number; // Ignores the player beyond this distance
+  preferredDistance: number; // Closes in or backs off to hold this spacing
+  tolerance: number;
+  attack: EnemyAttackDefinition;
+  guardMultiplier?: number; // Damage taken from the front while not attacking (shield bearers)
+  will: number; // Currency dropped on death
+}
+
+// --- Projectiles ---
+export type ProjectileRender = 'arrow' | 'fireball' | 'staff';
+
+export interface ProjectileDefinition {
+  id: string;
+  speed: number;
+  gravity: number; // Added to vy every tick; 0 flies straight
+  life: number; // Ticks before it vanishes
+  width: number;
+  height: number;
+  damage: number; // Default; whoever fires it may override
+  knockback: { x: number; y: number }; // x is applied along the flight direction
+  hitStop: number; // Freeze applied to whoever is hit
+  poise?: number; // Poise damage dealt to a boss
+  piercing: boolean; // Keeps flying after a hit; each target is still struck only once
+  returnAfter?: number; // Ticks after which it flies back to whoever threw it
+  color: string;
+  render: ProjectileRender; // Which draw routine the renderer uses
+}
+
+export interface Projectile {
+  defId: string;
+  owner: 'player' | 'enemy'; // Side it damages the other of; a parry flips it
+  sourceId: string; // Entity that fired it
+  x: number; // Centre
+  y: number;
+  vx: number;
+  vy: number;
+  damage: number;
+  age: number;
+  hitIds: string[]; // Targets already struck
+}
+
+// --- Chapters ---
+export interface EnemySpawn {
+  enemyId: string;
+  x: number;
+}
+
+// One wave of minor enemies; the next section spawns once it is cleared
+export interface ArenaSection {
+  id: string;
+  spawns: EnemySpawn[];
+}
+
+// The sections fought before the boss arrives
+export interface ChapterDefinition {
+  id: string;
+  sections: ArenaSection[];
+}
+
+// A dropped Will orb, collected by walking over it
+export interface WillDrop {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  amount: number;
+  life: number; // Ticks before it fades uncollected
+}
+
+// Collision boxes resolved for one tick (see game/hitboxes.ts)
+// hurt: where an entity can be struck; hit: a melee strike; area: a burst around a point; projectile: a thrown or fired shot
+export type BoxType = 'hurt' | 'hit' | 'area' | 'projectile';
+
+export type FrameBox =
+  | { type: BoxType; shape: 'rect'; x: number; y: number; width: number; height: number }
+  | { type: BoxType; shape: 'circle'; x: number; y: number; radius: number }; // radius 0 is a point
+
+// Seed plus the current state of each PRNG stream (see game/rng.ts)
+export interface RngState {
+  seed: number;
+  gameplay: number;
+  cosmetic: number;
+}
+
+// Deferred state changes, stored as data so the world stays serializable
+export type TimerAction =
+  | { type: 'end_state'; target: 'player' | 'boss'; from: Entity['state']; to: Entity['state'] };
+
+export interface ScheduledTimer {
+  remaining: number; // Frames left before the action fires
+  owner: 'player' | 'boss' | null; // Countdown pauses while the owner is frozen
+  action: TimerAction;
+}
+
+// Everything the simulation needs to advance a fight, with no React or canvas references
+export interface WorldState {
+  tick: number;
+  rng: RngState;
+  player: Entity;
+  boss: Entity | null;
+  enemies: Entity[]; // Every opponent the player can hit or lock onto, the boss included
+  bossId: string; // Spawned once the chapter's sections are cleared
+  chapterId: string | null; // ChapterDefinition whose sections precede the boss, if any
+  sectionIndex: number; // Next section to spawn
+  sectionTimer: number; // Lull in ticks before the next section (or the boss) arrives
+  drops: WillDrop[];
+  will: number;
+  projectiles: Projectile[];
+  particles: Particle[];
+  afterimages: Afterimage[];
+  spellZones: SpellZone[];
+  decoy: Decoy | null;
+  combo4Trails: Combo4Trail[];
+  prevCombo4Time: number | null; // Tracks TIME instead of angle for accurate interpolation
+  c3Hits: number; // Combo 3 multi-hit tracker
+  setsuMoonSnapshot: { x: number; y: number; facingRight: boolean } | null; // Static Moon slash position
+  cameraX: number;
+  shake: number;
+  shakeOffset: Position; // Per-tick camera jitter derived from shake
+  score: number;
+  timers: ScheduledTimer[];
+  outcome: GameState.VICTORY | GameState.GAME_OVER | null;
+}
+
+// Side effects produced by a tick, consumed by whoever drives the simulation
+export type SimEvent =
+  | { type: 'sound'; sound: SoundType }
+  | { type: 'damage'; target: 'player' | 'boss' | 'enemy'; amount: number; health: number }
+  | { type: 'health'; target: 'player' | 'boss' | 'enemy'; health: number }
+  | { type: 'score'; amount: number; total: number }
+  | { type: 'stamina'; stamina: number; max: number; exhausted: boolean }
+  | { type: 'boss_phase'; phase: number; barColor: string }
+  | { type: 'boss_decision'; decision: BossDecision }
+  | { type: 'poise'; poise: number; max: number; staggered: boolean }
+  | { type: 'focus'; focus: number }
+  | { type: 'gourd'; charges: number; max: number }
+  | { type: 'spells'; slots: SpellSlotHud[] }
+  | { type: 'mana'; mana: number; max: number }
+  | { type: 'spell_failed'; spellId: string }
+  | { type: 'transform'; name: string | null; gauge: number; max: number }
+  | { type: 'stance'; stance: StaffStance }
+  | { type: 'boss_arrived' }
+  | { type: 'will'; total: number }
+  | { type: 'active_frame' } // The player's attack checked for hits this tick (frame data)
+  | { type: 'state'; state: GameState.VICTORY | GameState.GAME_OVER };
+
 export interface LevelData {
   chapterTitle: string;
   introText: string;
   bossName: string;
   bossDescription: string;
+  chapterId: string; // ChapterDefinition that lays out the fight
 }